@@ -0,0 +1,170 @@
+/**
+ * Tests for the agent loop
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as yaml from 'yaml';
+import { AgentOrchestrator } from '../orchestrator.js';
+import { BaseTool, ToolRegistry } from '../../tools/index.js';
+import { SessionManager } from '../../session/manager.js';
+import { HooksManager } from '../../hooks/manager.js';
+import { ConfigManager } from '../../config/manager.js';
+import { CompactionManager } from '../../compaction/index.js';
+import { StreamInterruptedError } from '../../api/claude.js';
+
+class EchoTool extends BaseTool {
+  name = 'Echo';
+  description = 'Echo the input';
+  schema = { type: 'object' as const, properties: {} };
+
+  async execute() {
+    return this.success('echo');
+  }
+}
+
+function toolUse(id: string) {
+  return {
+    content: [{ type: 'tool_use', id, name: 'Echo', input: {} }],
+    stop_reason: 'tool_use',
+    usage: { input_tokens: 1, output_tokens: 1 },
+  };
+}
+
+function endTurn(text: string) {
+  return {
+    content: [{ type: 'text', text }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 1, output_tokens: 1 },
+  };
+}
+
+describe('AgentOrchestrator', () => {
+  let dir: string;
+  let sessions: SessionManager;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'taurus-agent-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function createAgent(
+    client: Record<string, any>,
+    options: { compaction?: CompactionManager; subagent?: boolean } = {}
+  ) {
+    writeFileSync(
+      join(dir, 'hooks.yaml'),
+      yaml.stringify({
+        hooks: [{ name: 'count', event: 'pre-compact', command: 'echo x >> pre-compact.log' }],
+      })
+    );
+    const hooks = new HooksManager(dir, dir);
+    await hooks.loadHooks();
+
+    const registry = new ToolRegistry();
+    registry.register(new EchoTool());
+    sessions = new SessionManager(join(dir, 'sessions'));
+    await sessions.initialize();
+    sessions.createSession();
+
+    return new AgentOrchestrator(
+      client as any,
+      registry,
+      sessions,
+      hooks,
+      new ConfigManager({ homeDir: dir, cwd: dir }),
+      { compactionManager: options.compaction, subagent: options.subagent ?? true }
+    );
+  }
+
+  function preCompactRuns(): number {
+    const log = join(dir, 'pre-compact.log');
+    return existsSync(log) ? readFileSync(log, 'utf-8').split('\n').length - 1 : 0;
+  }
+
+  it('should not rerun pre-compact hooks or a failed compaction on every round', async () => {
+    const responses = [toolUse('tu_1'), toolUse('tu_2'), toolUse('tu_3'), endTurn('Done')];
+    const summaries: string[] = [];
+    const client = {
+      sendMessage: async () => responses.shift(),
+      generateText: async (prompt: string) => {
+        summaries.push(prompt);
+        throw new Error('Overloaded');
+      },
+    };
+    const compaction = new CompactionManager(
+      { contextWindow: 10, preserveRecentTurns: 1 },
+      client as any
+    );
+    const agent = await createAgent(client, { compaction });
+
+    expect(await agent.runTask('Echo three times')).toBe('Done');
+
+    // Rounds 1 and 2 have nothing to summarize; round 3 fails; round 4 skips
+    expect(preCompactRuns()).toBe(1);
+    expect(summaries).toHaveLength(1);
+  });
+
+  async function savedMessages() {
+    const id = sessions.getCurrentSession()!.id;
+    const saved = await new SessionManager(join(dir, 'sessions')).loadSession(id);
+    return saved?.messages;
+  }
+
+  it('should save the partial response when the connection drops', async () => {
+    const client = {
+      streamMessage: async (_m: any, _t: any, _s: any, onText: (text: string) => void) => {
+        onText('Looking at the ');
+        throw new StreamInterruptedError('socket hang up', [
+          { type: 'text', text: 'Looking at the ' },
+        ]);
+      },
+    };
+    const agent = await createAgent(client, { subagent: false });
+
+    await agent.processUserMessage('Explain the build');
+
+    const expected = [
+      { role: 'user', content: 'Explain the build' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Looking at the ' },
+          { type: 'text', text: '[Response interrupted by a connection error]' },
+        ],
+      },
+    ];
+    expect(sessions.getMessages()).toEqual(expected);
+    expect(await savedMessages()).toEqual(expected);
+    expect(agent.isProcessing()).toBe(false);
+  });
+
+  it('should save the partial response when the user interrupts', async () => {
+    // The client is created before the agent it interrupts
+    const running: { agent?: AgentOrchestrator } = {};
+    const client = {
+      streamMessage: async () => {
+        running.agent!.interrupt();
+        throw new StreamInterruptedError('Request was aborted.', [
+          { type: 'text', text: 'First, ' },
+        ]);
+      },
+    };
+    const agent = await createAgent(client, { subagent: false });
+    running.agent = agent;
+
+    await agent.processUserMessage('Explain the build');
+
+    expect((await savedMessages())?.[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'First, ' },
+        { type: 'text', text: '[Response interrupted by the user]' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for system prompt assembly
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  formatCommandsAndSkills,
+  formatEnvironment,
+  getEnvironmentInfo,
+  SystemPromptBuilder,
+} from '../system-prompt.js';
+import { SkillTool, SlashCommandTool, ToolRegistry } from '../../tools/index.js';
+import { SYSTEM_PROMPT } from '../../config/default.js';
+
+describe('system prompt', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'taurus-prompt-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should describe a git working tree', async () => {
+    execFileSync('git', ['init', '-q', '-b', 'feature/x'], { cwd: dir });
+    writeFileSync(join(dir, 'new.ts'), '');
+
+    const info = await getEnvironmentInfo(dir, new Date('2025-03-04T12:00:00Z'));
+    const block = formatEnvironment(info);
+
+    expect(block).toContain(`Working directory: ${dir}`);
+    expect(block).toContain(`Platform: ${process.platform}`);
+    expect(block).toContain("Today's date: 2025-03-04");
+    expect(block).toContain('Is a git repository: yes');
+    expect(block).toContain('Current branch: feature/x');
+    expect(block).toContain('?? new.ts');
+  });
+
+  it('should leave out git details outside a repository', async () => {
+    const info = await getEnvironmentInfo(dir);
+
+    expect(info.git).toBeUndefined();
+    expect(formatEnvironment(info)).toContain('Is a git repository: no');
+  });
+
+  it('should list commands and skills with their descriptions', () => {
+    const text = formatCommandsAndSkills(
+      [{ name: 'review', description: 'Review the diff', content: '' }],
+      [{ name: 'pdf', description: '', location: 'user', prompt: '' }]
+    );
+
+    expect(text).toContain('# Available Commands');
+    expect(text).toContain('- /review: Review the diff');
+    expect(text).toContain('# Available Skills');
+    expect(text).toMatch(/^- pdf$/m);
+    expect(formatCommandsAndSkills([], [])).toBe('');
+  });
+
+  it('should build from the current state of the tool registry', async () => {
+    mkdirSync(join(dir, 'commands'));
+    mkdirSync(join(dir, 'skills'));
+    writeFileSync(join(dir, 'commands', 'deploy.md'), '# Deploy to staging\n\nRun the deploy.');
+
+    const commands = new SlashCommandTool();
+    const skills = new SkillTool();
+    const registry = new ToolRegistry();
+    registry.register(commands);
+    registry.register(skills);
+
+    const builder = new SystemPromptBuilder({ toolRegistry: registry, workingDirectory: dir });
+    const before = await builder.build();
+    expect(before.startsWith(SYSTEM_PROMPT.trim())).toBe(true);
+    expect(before).toContain('# Environment');
+    expect(before).not.toContain('# Available Commands');
+
+    await commands.loadCommands(join(dir, 'commands'));
+    const after = await builder.build();
+    expect(after).toContain('- /deploy: Deploy to staging');
+    expect(after).not.toContain('# Available Skills');
+  });
+});
@@ -2,12 +2,39 @@
  * Agent orchestrator - Coordinates tools, Claude API, and conversation flow
  */
 
-import { ClaudeClient } from '../api/claude.js';
-import { ToolRegistry } from '../tools/index.js';
+import Anthropic from '@anthropic-ai/sdk';
+import { ClaudeClient, StreamInterruptedError } from '../api/claude.js';
+import {
+  BashTool,
+  ToolRegistry,
+  TaskTool,
+  TodoWriteTool,
+  appendToolResultText,
+  toolResultText,
+} from '../tools/index.js';
 import { SessionManager } from '../session/manager.js';
 import { HooksManager } from '../hooks/manager.js';
 import { ConfigManager } from '../config/manager.js';
-import { Message, ContentBlock, ToolUseBlock, ToolResultBlock } from '../types/index.js';
+import {
+  Message,
+  ContentBlock,
+  TextBlock,
+  ToolUseBlock,
+  ToolResultBlock,
+  ToolResult,
+  Tool,
+  TokenUsage,
+  SubagentRequest,
+  SubagentResult,
+  Session,
+  Todo,
+  HookDecision,
+  HookEvent,
+  HookResult,
+  AGENT_TYPES,
+} from '../types/index.js';
+import { MODEL_ALIASES, SYSTEM_PROMPT, SUBAGENT_SYSTEM_PROMPT } from '../config/default.js';
+import { SystemPromptBuilder } from './system-prompt.js';
 import { logger } from '../utils/logger.js';
 import chalk from 'chalk';
 
@@ -16,6 +43,10 @@ import type { ProviderManager } from '../providers/manager.js';
 import type { IntegrationManager } from '../integrations/manager.js';
 import type { SnapshotManager } from '../replay/snapshot-manager.js';
 import type { SchedulerManager } from '../scheduler/scheduler-manager.js';
+import type { McpManager } from '../mcp/manager.js';
+import type { CompactionManager, CompactionResult } from '../compaction/index.js';
+import type { PermissionManager } from '../permissions/index.js';
+import type { MemoryManager, MemoryFile } from '../memory/index.js';
 
 export class AgentOrchestrator {
   private claudeClient: ClaudeClient;
@@ -23,12 +54,23 @@ export class AgentOrchestrator {
   private sessionManager: SessionManager;
   private hooksManager: HooksManager;
   private configManager: ConfigManager;
+  private systemPrompt: string;
+  private promptBuilder: SystemPromptBuilder;
+  private isSubagent: boolean;
+  private usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  private toolUseCount: number = 0;
+  private abortController: AbortController | null = null;
+  private todosListener?: (todos: Todo[]) => void;
 
   // Optional new features
   private providerManager?: ProviderManager;
   private integrationManager?: IntegrationManager;
   private snapshotManager?: SnapshotManager;
   private schedulerManager?: SchedulerManager;
+  private mcpManager?: McpManager;
+  private compactionManager?: CompactionManager;
+  private permissionManager?: PermissionManager;
+  private memoryManager?: MemoryManager;
 
   constructor(
     claudeClient: ClaudeClient,
@@ -41,6 +83,11 @@ export class AgentOrchestrator {
       integrationManager?: IntegrationManager;
       snapshotManager?: SnapshotManager;
       schedulerManager?: SchedulerManager;
+      mcpManager?: McpManager;
+      compactionManager?: CompactionManager;
+      permissionManager?: PermissionManager;
+      memoryManager?: MemoryManager;
+      subagent?: boolean;
     }
   ) {
     this.claudeClient = claudeClient;
@@ -54,13 +101,145 @@ export class AgentOrchestrator {
     this.integrationManager = options?.integrationManager;
     this.snapshotManager = options?.snapshotManager;
     this.schedulerManager = options?.schedulerManager;
+    this.mcpManager = options?.mcpManager;
+    this.compactionManager = options?.compactionManager;
+    this.permissionManager = options?.permissionManager;
+    this.memoryManager = options?.memoryManager;
+
+    this.isSubagent = options?.subagent ?? false;
+    this.systemPrompt = this.isSubagent ? SUBAGENT_SYSTEM_PROMPT : SYSTEM_PROMPT;
+    this.promptBuilder = new SystemPromptBuilder({
+      toolRegistry: this.toolRegistry,
+      workingDirectory: this.configManager.get().workingDirectory,
+      memoryManager: this.memoryManager,
+      mcpManager: this.mcpManager,
+      subagent: this.isSubagent,
+    });
+
+    // Let the Task tool delegate to child agent loops
+    const taskTool = this.toolRegistry.get('Task');
+    if (taskTool instanceof TaskTool) {
+      taskTool.setSubagentRunner((request) => this.runSubagent(request));
+    }
+
+    // Keep the todo list in the session so it is saved and restored with it
+    const todoTool = this.toolRegistry.get('TodoWrite');
+    if (todoTool instanceof TodoWriteTool && !this.isSubagent) {
+      todoTool.setStore({
+        getTodos: () => this.sessionManager.getTodos(),
+        setTodos: (todos) => {
+          this.sessionManager.setTodos(todos);
+          this.todosListener?.(todos);
+        },
+      });
+    }
+  }
+
+  /**
+   * Called whenever the model updates the todo list
+   */
+  onTodosChange(listener: (todos: Todo[]) => void): void {
+    this.todosListener = listener;
+  }
+
+  getTodos(): Todo[] {
+    return this.sessionManager.getTodos();
+  }
+
+  /**
+   * Rebuild the system prompt from the environment, commands, skills, MCP
+   * servers and memory as they are now
+   */
+  async refreshSystemPrompt(): Promise<string> {
+    this.systemPrompt = await this.promptBuilder.build();
+    return this.systemPrompt;
+  }
+
+  /**
+   * Re-read memory files, e.g. after they were edited, and update the prompt
+   */
+  async reloadMemory(): Promise<MemoryFile[]> {
+    if (!this.memoryManager) {
+      return [];
+    }
+
+    const files = await this.memoryManager.load();
+    await this.refreshSystemPrompt();
+    return files;
+  }
+
+  /**
+   * Append a note to project (or user) memory and use it from the next turn.
+   * Returns the file written.
+   */
+  async addMemoryNote(note: string, scope: 'user' | 'project' = 'project'): Promise<string> {
+    if (!this.memoryManager) {
+      throw new Error('Memory is not enabled');
+    }
+
+    const path = await this.memoryManager.appendNote(note, scope);
+    await this.refreshSystemPrompt();
+    return path;
+  }
+
+  getMemoryManager(): MemoryManager | undefined {
+    return this.memoryManager;
+  }
+
+  /**
+   * Save the current session and switch to a saved one. Returns null, and
+   * keeps the current session, if it cannot be loaded.
+   */
+  async resumeSession(sessionId: string): Promise<Session | null> {
+    const previous = this.sessionManager.getCurrentSession();
+    await this.sessionManager.saveSession();
+
+    const session = await this.sessionManager.loadSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    await this.hooksManager.trigger('session-end', { sessionId: previous?.id });
+    await this.hooksManager.trigger('session-start', { sessionId: session.id });
+    return session;
+  }
+
+  /**
+   * Branch the current session, keeping messages before atMessageIndex (or
+   * all of them), and continue in the branch. The original is left as is.
+   */
+  async forkSession(atMessageIndex?: number): Promise<Session> {
+    const current = this.sessionManager.getCurrentSession();
+    if (!current) {
+      throw new Error('There is no session to fork');
+    }
+
+    await this.sessionManager.saveSession();
+    const fork = await this.sessionManager.fork(current.id, atMessageIndex);
+    const session = await this.resumeSession(fork.id);
+    if (!session) {
+      throw new Error(`Could not open forked session ${fork.id}`);
+    }
+    return session;
+  }
+
+  getSessionManager(): SessionManager {
+    return this.sessionManager;
   }
 
   async processUserMessage(userInput: string): Promise<void> {
-    // Trigger user-prompt-submit hook
-    await this.hooksManager.trigger('user-prompt-submit', {
+    // Hooks may block the prompt, rewrite it or add context
+    const hook = await this.runHooks('user-prompt-submit', {
       input: userInput,
     });
+    if (hook.decision === 'deny') {
+      logger.warn(`Prompt blocked by hook: ${hook.reason ?? 'no reason given'}`);
+      return;
+    }
+    userInput = hook.input ?? userInput;
+    if (hook.context) {
+      userInput = `${userInput}\n\n${hook.context}`;
+    }
 
     // Auto-fetch context from integrations if enabled
     let enhancedInput = userInput;
@@ -93,8 +272,13 @@ export class AgentOrchestrator {
       }
     }
 
-    // Process the conversation
-    await this.processConversation();
+    // Process the conversation; interrupt() aborts it via this controller
+    this.abortController = new AbortController();
+    try {
+      await this.processConversation(this.abortController.signal);
+    } finally {
+      this.abortController = null;
+    }
 
     // Create snapshot after processing if replay is enabled
     if (this.snapshotManager) {
@@ -109,20 +293,143 @@ export class AgentOrchestrator {
     await this.sessionManager.saveSession();
   }
 
-  private async processConversation(): Promise<void> {
+  /**
+   * Cancel the turn in progress: aborts the API request and running tools.
+   * Returns false when there is nothing to interrupt.
+   */
+  interrupt(): boolean {
+    if (!this.abortController || this.abortController.signal.aborted) {
+      return false;
+    }
+
+    this.abortController.abort();
+    return true;
+  }
+
+  isProcessing(): boolean {
+    return this.abortController !== null;
+  }
+
+  /**
+   * Run a task in a child agent with its own message history and a tool set
+   * restricted to the agent type's whitelist. Subagents never get the Task
+   * tool, so delegation is one level deep.
+   */
+  async runSubagent(request: SubagentRequest): Promise<SubagentResult> {
+    const agentConfig = AGENT_TYPES[request.agentType];
+    if (!agentConfig) {
+      throw new Error(`Unknown agent type: ${request.agentType}`);
+    }
+
+    const config = this.configManager.get();
+    const modelAlias = request.model ?? agentConfig.model;
+    const claudeClient = modelAlias
+      ? new ClaudeClient({ ...config, model: MODEL_ALIASES[modelAlias] })
+      : this.claudeClient;
+
+    const sessionManager = new SessionManager(config.sessionDirectory);
+    sessionManager.createSession();
+
+    // Subagents keep their own todo list rather than replacing the session's,
+    // and their own shell so parallel tasks don't share a working directory
+    const tools = this.toolRegistry.subset(agentConfig.tools, ['Task']);
+    if (tools.get('TodoWrite')) {
+      tools.register(new TodoWriteTool());
+    }
+    const parentBash = tools.get('Bash');
+    const bash = parentBash instanceof BashTool ? parentBash.fork() : undefined;
+    if (bash) {
+      tools.register(bash);
+    }
+
+    const child = new AgentOrchestrator(
+      claudeClient,
+      tools,
+      sessionManager,
+      this.hooksManager,
+      this.configManager,
+      {
+        compactionManager: this.compactionManager,
+        permissionManager: this.permissionManager,
+        memoryManager: this.memoryManager,
+        subagent: true,
+      }
+    );
+
+    logger.info(`${chalk.magenta('⤷')} ${request.agentType}: ${request.description}`);
+
+    let content: string;
+    try {
+      content = await child.runTask(request.prompt, request.signal);
+    } finally {
+      await bash?.dispose();
+    }
+
+    return {
+      content,
+      usage: child.getUsage(),
+      toolUses: child.toolUseCount,
+    };
+  }
+
+  /**
+   * Run a single prompt to completion and return the final assistant text.
+   * Used by subagents, which report back instead of printing.
+   */
+  async runTask(prompt: string, signal?: AbortSignal): Promise<string> {
+    this.sessionManager.addMessage({ role: 'user', content: prompt });
+
+    const finalMessage = await this.processConversation(signal);
+    if (signal?.aborted) {
+      throw new Error('Interrupted by the user');
+    }
+    if (!finalMessage) {
+      throw new Error('Agent finished without producing a response');
+    }
+
+    return this.extractText(finalMessage) || '[Agent returned no text]';
+  }
+
+  getUsage(): TokenUsage {
+    return { ...this.usage };
+  }
+
+  private async processConversation(signal?: AbortSignal): Promise<Message | null> {
     let continueProcessing = true;
     let iterationCount = 0;
     const maxIterations = 50; // Prevent infinite loops
+    let finalMessage: Message | null = null;
+    let stopHookActive = false;
+    let compactionFailed = false;
+
+    // Once per turn, so the prompt stays stable across its tool rounds
+    await this.refreshSystemPrompt();
 
-    while (continueProcessing && iterationCount < maxIterations) {
+    while (continueProcessing && iterationCount < maxIterations && !signal?.aborted) {
       iterationCount++;
 
-      const messages = this.sessionManager.getMessages();
       const tools = this.toolRegistry.getDefinitions();
 
       try {
+        const history = this.sessionManager.getMessages();
+        if (
+          !compactionFailed &&
+          this.compactionManager?.shouldCompact(history, this.systemPrompt, tools)
+        ) {
+          try {
+            await this.compactConversation(undefined, 'auto');
+          } catch (error: any) {
+            // Not retried until the next turn
+            compactionFailed = true;
+            logger.warn(`Automatic compaction failed: ${error.message}`);
+          }
+        }
+        const messages = this.sessionManager.getMessages();
+
         // Call Claude API
-        const response = await this.claudeClient.sendMessage(messages, tools);
+        const response = await this.requestResponse(messages, tools, signal);
+        this.usage.inputTokens += response.usage.input_tokens;
+        this.usage.outputTokens += response.usage.output_tokens;
 
         // Process response
         const assistantMessage: Message = {
@@ -130,55 +437,225 @@ export class AgentOrchestrator {
           content: response.content as ContentBlock[],
         };
         this.sessionManager.addMessage(assistantMessage);
+        finalMessage = assistantMessage;
 
-        // Check stop reason
+        // Check stop reason (text has already been streamed to the terminal)
         if (response.stop_reason === 'end_turn') {
-          // Display text content
-          this.displayAssistantMessage(assistantMessage);
-          continueProcessing = false;
+          continueProcessing = await this.continueAfterStop(assistantMessage, stopHookActive);
+          stopHookActive ||= continueProcessing;
         } else if (response.stop_reason === 'tool_use') {
           // Process tool calls
-          await this.processToolCalls(response.content as ContentBlock[]);
+          await this.processToolCalls(response.content as ContentBlock[], signal);
           // Continue to next iteration
         } else if (response.stop_reason === 'max_tokens') {
           logger.warn('Response reached max tokens limit');
           continueProcessing = false;
         }
       } catch (error: any) {
-        logger.error(`Error in conversation processing: ${error.message}`);
+        if (this.isSubagent && !signal?.aborted) {
+          throw error;
+        }
+
+        // Keep partially streamed text so the transcript matches what the user saw
+        if (error instanceof StreamInterruptedError) {
+          const partialMessage: Message = {
+            role: 'assistant',
+            content: [
+              ...error.partialContent,
+              {
+                type: 'text',
+                text: signal?.aborted
+                  ? '[Response interrupted by the user]'
+                  : '[Response interrupted by a connection error]',
+              },
+            ],
+          };
+          this.sessionManager.addMessage(partialMessage);
+          finalMessage = partialMessage;
+        }
+
+        if (!signal?.aborted) {
+          logger.error(`Error in conversation processing: ${error.message}`);
+        }
         continueProcessing = false;
       }
     }
 
-    if (iterationCount >= maxIterations) {
+    if (signal?.aborted) {
+      if (!this.isSubagent) {
+        logger.warn('Interrupted');
+      }
+    } else if (iterationCount >= maxIterations) {
       logger.warn('Reached maximum iteration limit');
     }
+
+    return finalMessage;
+  }
+
+  /**
+   * Stop hooks may send the model back to work: a hook that denies the stop
+   * gives its reason as the next user message. `stopHookActive` tells hooks
+   * this turn was already extended, so they can avoid looping.
+   */
+  private async continueAfterStop(message: Message, stopHookActive: boolean): Promise<boolean> {
+    const hook = await this.runHooks(this.isSubagent ? 'subagent-stop' : 'stop', {
+      response: this.extractText(message),
+      stopHookActive,
+    });
+    if (hook.decision !== 'deny') {
+      return false;
+    }
+
+    const reason = hook.reason ?? 'Continue working on the task.';
+    if (!this.isSubagent) {
+      logger.info(`${chalk.cyan('↻')} Stop hook: ${reason}`);
+    }
+    this.sessionManager.addMessage({ role: 'user', content: `Stop hook feedback: ${reason}` });
+    return true;
   }
 
-  private async processToolCalls(content: ContentBlock[]): Promise<void> {
+  /**
+   * Summarize older turns into a single synthetic message. Runs automatically
+   * near the context limit and on demand via /compact. Context from
+   * pre-compact hooks is added to the summary instructions.
+   */
+  async compactConversation(
+    instructions?: string,
+    trigger: 'auto' | 'manual' = 'manual'
+  ): Promise<CompactionResult | null> {
+    if (!this.compactionManager) {
+      logger.warn('Compaction is not available in this session');
+      return null;
+    }
+
+    // With nothing to summarize, report the skip without running the hooks,
+    // which would otherwise rerun on every round of an oversized turn
+    const messages = this.sessionManager.getMessages();
+    if (this.compactionManager.findSplitIndex(messages) === 0) {
+      const result = await this.compactionManager.compact(messages);
+      logger.debug(`Compaction skipped: ${result.reason}`);
+      return result;
+    }
+
+    const hook = await this.runHooks('pre-compact', { trigger, instructions });
+    const result = await this.compactionManager.compact(messages, {
+      instructions: [instructions, hook.context].filter(Boolean).join('\n\n') || undefined,
+    });
+
+    if (!result.compacted) {
+      logger.debug(`Compaction skipped: ${result.reason}`);
+      return result;
+    }
+
+    this.sessionManager.replaceMessages(result.messages);
+    if (!this.isSubagent) {
+      logger.info(
+        `${chalk.cyan('🗜')} Compacted ${result.summarizedMessages} messages (~${result.tokensBefore} → ~${result.tokensAfter} tokens)`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the next assistant response. The interactive agent streams text and
+   * tool decisions to the terminal as they arrive; subagents stay quiet.
+   */
+  private async requestResponse(
+    messages: Message[],
+    tools: Tool[],
+    signal?: AbortSignal
+  ): Promise<Anthropic.Message> {
+    if (this.isSubagent) {
+      return this.claudeClient.sendMessage(messages, tools, this.systemPrompt, { signal });
+    }
+
+    let lineOpen = false;
+    const closeLine = () => {
+      if (lineOpen) {
+        process.stdout.write('\n');
+        lineOpen = false;
+      }
+    };
+
+    try {
+      return await this.claudeClient.streamMessage(
+        messages,
+        tools,
+        this.systemPrompt,
+        (text) => {
+          process.stdout.write(chalk.white(text));
+          lineOpen = !text.endsWith('\n');
+        },
+        (toolUse) => {
+          closeLine();
+          logger.info(`  ${chalk.gray('→')} ${toolUse.name}${this.summarizeToolInput(toolUse)}`);
+        },
+        { signal }
+      );
+    } finally {
+      closeLine();
+    }
+  }
+
+  private summarizeToolInput(toolUse: ToolUseBlock): string {
+    const keys = ['command', 'file_path', 'pattern', 'url', 'query', 'description'];
+    const key = keys.find((k) => typeof toolUse.input[k] === 'string');
+    if (!key) {
+      return '';
+    }
+
+    const value: string = toolUse.input[key];
+    const summary = value.length > 60 ? `${value.substring(0, 60)}…` : value;
+    return chalk.gray(` (${summary})`);
+  }
+
+  private async processToolCalls(content: ContentBlock[], signal?: AbortSignal): Promise<void> {
     const toolUses = content.filter((block) => block.type === 'tool_use') as ToolUseBlock[];
 
     if (toolUses.length === 0) {
       return;
     }
 
+    this.toolUseCount += toolUses.length;
     logger.info(`\n${chalk.cyan('⚙ Executing')} ${toolUses.length} tool(s)...`);
 
     // Execute tools in parallel
     const toolResults = await Promise.all(
       toolUses.map(async (toolUse) => {
-        await this.hooksManager.trigger('before-tool-call', {
+        const hook = await this.runHooks('before-tool-call', {
           tool: toolUse.name,
+          input: toolUse.input,
         });
+        const input: Record<string, any> = hook.input ?? toolUse.input;
 
-        logger.info(`  ${chalk.gray('→')} ${toolUse.name}`);
+        // Streamed turns already announced the tool when it was decided
+        if (this.isSubagent) {
+          logger.info(`  ${chalk.gray('→')} ${toolUse.name}`);
+        }
 
-        const result = await this.toolRegistry.execute(toolUse.name, toolUse.input);
+        // Interrupted calls still produce a tool_result so every tool_use stays paired
+        let result: ToolResult =
+          hook.decision === 'deny'
+            ? { content: `Blocked by hook: ${hook.reason ?? 'no reason given'}`, is_error: true }
+            : await this.executeToolUse(toolUse.name, input, hook.decision, signal);
 
-        await this.hooksManager.trigger('after-tool-call', {
+        // Formatters and linters see the output and can report back to the model
+        const output = toolResultText(result.content);
+        const after = await this.runHooks('after-tool-call', {
           tool: toolUse.name,
+          input,
           success: !result.is_error,
+          output,
         });
+        const failure = result.is_error
+          ? await this.runHooks('tool-error', { tool: toolUse.name, input, error: output })
+          : {};
+        for (const context of [hook.context, after.context, failure.context]) {
+          if (context) {
+            result = appendToolResultText(result, context);
+          }
+        }
 
         const resultBlock: ToolResultBlock = {
           type: 'tool_result',
@@ -188,7 +665,7 @@ export class AgentOrchestrator {
         };
 
         if (result.is_error) {
-          logger.error(`  ${chalk.red('✗')} ${toolUse.name}: ${result.content.substring(0, 100)}`);
+          logger.error(`  ${chalk.red('✗')} ${toolUse.name}: ${toolResultText(result.content).substring(0, 100)}`);
         } else {
           logger.success(`  ${chalk.green('✓')} ${toolUse.name}`);
         }
@@ -203,18 +680,67 @@ export class AgentOrchestrator {
       content: toolResults,
     };
     this.sessionManager.addMessage(toolResultMessage);
-  }
 
-  private displayAssistantMessage(message: Message): void {
-    const content = Array.isArray(message.content) ? message.content : [message.content];
+    // Appending is cheap, so long turns are saved as they go
+    if (!this.isSubagent) {
+      await this.sessionManager.saveSession();
+    }
+  }
 
-    for (const block of content) {
-      if (typeof block === 'string') {
-        console.log(chalk.white(block));
-      } else if (block.type === 'text') {
-        console.log(chalk.white(block.text));
+  /**
+   * Run a tool call if the permission layer allows it, taking a hook's
+   * decision into account. Denials go back to the model as tool errors.
+   */
+  private async executeToolUse(
+    toolName: string,
+    input: Record<string, any>,
+    hookDecision?: HookDecision,
+    signal?: AbortSignal
+  ): Promise<ToolResult> {
+    if (this.permissionManager) {
+      const decision = await this.permissionManager.check(toolName, input, signal, hookDecision);
+      if (decision.behavior !== 'allow') {
+        return {
+          content: `Permission denied: ${decision.reason ?? `${toolName} is not allowed`}`,
+          is_error: true,
+        };
       }
     }
+
+    return this.toolRegistry.execute(toolName, input, { signal });
+  }
+
+  /**
+   * Tell notification hooks that the agent is waiting on the user
+   */
+  async notify(message: string, type: 'permission' | 'idle'): Promise<void> {
+    await this.runHooks('notification', { message, type });
+  }
+
+  /**
+   * Trigger hooks with the current session id added to the payload
+   */
+  private runHooks(event: HookEvent, payload: Record<string, any>): Promise<HookResult> {
+    return this.hooksManager.trigger(event, {
+      sessionId: this.sessionManager.getCurrentSession()?.id,
+      ...payload,
+    });
+  }
+
+  getPermissionManager(): PermissionManager | undefined {
+    return this.permissionManager;
+  }
+
+  private extractText(message: Message): string {
+    if (typeof message.content === 'string') {
+      return message.content;
+    }
+
+    return message.content
+      .filter((block): block is TextBlock => block.type === 'text')
+      .map((block) => block.text)
+      .join('\n')
+      .trim();
   }
 
   async initialize(): Promise<void> {
@@ -265,6 +791,18 @@ export class AgentOrchestrator {
       }
     }
 
+    // Disconnect MCP servers
+    if (this.mcpManager) {
+      try {
+        await this.mcpManager.shutdown();
+      } catch (error: any) {
+        logger.debug(`MCP shutdown failed: ${error.message}`);
+      }
+    }
+
+    // Stop the Bash shell and other tool processes
+    await this.toolRegistry.dispose();
+
     // Trigger session-end hook
     await this.hooksManager.trigger('session-end', {
       sessionId: this.sessionManager.getCurrentSession()?.id,
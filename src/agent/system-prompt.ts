@@ -0,0 +1,185 @@
+/**
+ * System prompt assembly - The base prompt plus what the model needs to know
+ * about where it is running: the environment, available slash commands and
+ * skills, connected MCP servers and TAURUS.md memory
+ */
+
+import { execFile as execFileCallback } from 'child_process';
+import { release, type as osType } from 'os';
+import { promisify } from 'util';
+import { ToolRegistry, SkillTool, SlashCommandTool } from '../tools/index.js';
+import { SYSTEM_PROMPT, SUBAGENT_SYSTEM_PROMPT } from '../config/default.js';
+import { Skill, SlashCommand } from '../types/index.js';
+import type { McpManager } from '../mcp/manager.js';
+import type { MemoryManager } from '../memory/index.js';
+
+const execFile = promisify(execFileCallback);
+
+const GIT_TIMEOUT = 2000;
+const MAX_STATUS_LINES = 40;
+
+export interface EnvironmentInfo {
+  workingDirectory: string;
+  platform: string;
+  osVersion: string;
+  date: Date;
+  git?: {
+    branch: string;
+    /** `git status --short` lines */
+    status: string[];
+  };
+}
+
+export interface SystemPromptSources {
+  toolRegistry: ToolRegistry;
+  workingDirectory: string;
+  memoryManager?: MemoryManager;
+  mcpManager?: McpManager;
+  subagent?: boolean;
+}
+
+async function git(args: string[], cwd: string): Promise<string> {
+  const { stdout } = await execFile('git', args, { cwd, timeout: GIT_TIMEOUT });
+  return stdout;
+}
+
+/**
+ * Facts about the machine and directory the agent works in. Git details are
+ * left out when the directory is not a repository or git is unavailable.
+ */
+export async function getEnvironmentInfo(
+  workingDirectory: string,
+  date: Date = new Date()
+): Promise<EnvironmentInfo> {
+  const info: EnvironmentInfo = {
+    workingDirectory,
+    platform: process.platform,
+    osVersion: `${osType()} ${release()}`,
+    date,
+  };
+
+  try {
+    const [branch, status] = await Promise.all([
+      git(['branch', '--show-current'], workingDirectory),
+      git(['status', '--short'], workingDirectory),
+    ]);
+    info.git = {
+      branch: branch.trim() || '(detached HEAD)',
+      status: status.split('\n').filter((line) => line.trim().length > 0),
+    };
+  } catch {
+    // Not a git repository
+  }
+
+  return info;
+}
+
+export function formatEnvironment(info: EnvironmentInfo): string {
+  const lines = [
+    '# Environment',
+    `Working directory: ${info.workingDirectory}`,
+    `Platform: ${info.platform}`,
+    `OS version: ${info.osVersion}`,
+    `Today's date: ${info.date.toISOString().slice(0, 10)}`,
+    `Is a git repository: ${info.git ? 'yes' : 'no'}`,
+  ];
+
+  if (info.git) {
+    lines.push(`Current branch: ${info.git.branch}`);
+    if (info.git.status.length === 0) {
+      lines.push('Git status: clean');
+    } else {
+      const shown = info.git.status.slice(0, MAX_STATUS_LINES);
+      const hidden = info.git.status.length - shown.length;
+      lines.push('Git status:', ...shown);
+      if (hidden > 0) {
+        lines.push(`... and ${hidden} more changed files`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function describe(description: string): string {
+  return description ? `: ${description}` : '';
+}
+
+/**
+ * The slash commands and skills the model may invoke, so it does not guess
+ */
+export function formatCommandsAndSkills(commands: SlashCommand[], skills: Skill[]): string {
+  const sections: string[] = [];
+
+  if (commands.length > 0) {
+    sections.push(
+      [
+        '# Available Commands',
+        'Custom slash commands, run with the SlashCommand tool. No others exist.',
+        ...commands.map((command) => `- /${command.name}${describe(command.description)}`),
+      ].join('\n')
+    );
+  }
+
+  if (skills.length > 0) {
+    sections.push(
+      [
+        '# Available Skills',
+        'Load one with the Skill tool when the task matches it. No others exist.',
+        ...skills.map((skill) => `- ${skill.name}${describe(skill.description)}`),
+      ].join('\n')
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Connected MCP servers and how many tools each provides
+ */
+export function formatMcpServers(mcpManager: McpManager): string {
+  const servers = mcpManager.getAllServers().filter((server) => server.state === 'connected');
+  if (servers.length === 0) {
+    return '';
+  }
+
+  const lines = servers.map((server) => {
+    const version = server.info ? ` (${server.info.name} ${server.info.version})` : '';
+    const tools = mcpManager.getServerTools(server.name).length;
+    return `- ${server.name}${version}: ${tools} tool${tools === 1 ? '' : 's'}`;
+  });
+
+  return ['# MCP Servers', 'Tools from a server are named <server>__<tool>.', ...lines].join('\n');
+}
+
+export class SystemPromptBuilder {
+  constructor(private sources: SystemPromptSources) {}
+
+  /**
+   * Assemble the prompt from the current state of each source. Called at the
+   * start of every turn so the date, git status and command list stay current.
+   */
+  async build(date: Date = new Date()): Promise<string> {
+    const { toolRegistry, workingDirectory, memoryManager, mcpManager, subagent } = this.sources;
+
+    const commandTool = toolRegistry.get('SlashCommand');
+    const skillTool = toolRegistry.get('Skill');
+    const environment = await getEnvironmentInfo(workingDirectory, date);
+
+    const sections = [
+      subagent ? SUBAGENT_SYSTEM_PROMPT : SYSTEM_PROMPT,
+      formatEnvironment(environment),
+      formatCommandsAndSkills(
+        commandTool instanceof SlashCommandTool ? commandTool.getCommands() : [],
+        skillTool instanceof SkillTool ? skillTool.getSkills() : []
+      ),
+      mcpManager ? formatMcpServers(mcpManager) : '',
+      memoryManager?.buildPrompt() ?? '',
+    ];
+
+    return sections
+      .map((section) => section.trim())
+      .filter((section) => section.length > 0)
+      .join('\n\n');
+  }
+}
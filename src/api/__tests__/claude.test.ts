@@ -0,0 +1,103 @@
+/**
+ * Tests for the Claude API client
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { ClaudeClient, StreamInterruptedError } from '../claude.js';
+import { DEFAULT_CONFIG } from '../../config/default.js';
+import { Config } from '../../types/index.js';
+
+function sse(type: string, data: Record<string, any>): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+const MESSAGE_START = sse('message_start', {
+  message: {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-test',
+    content: [],
+    stop_reason: null,
+    stop_sequence: null,
+    usage: { input_tokens: 10, output_tokens: 0 },
+  },
+});
+
+/**
+ * A client whose HTTP responses stream the given events and then fail, as
+ * when the connection drops part-way through a message
+ */
+function clientFailingAfter(events: string[]): ClaudeClient {
+  const fetch = async () => {
+    const pending = [...events];
+    const body = new ReadableStream<Uint8Array>({
+      // One event per read, so each is consumed before the failure
+      pull(controller) {
+        const event = pending.shift();
+        if (event === undefined) {
+          controller.error(new Error('socket hang up'));
+        } else {
+          controller.enqueue(new TextEncoder().encode(event));
+        }
+      },
+    });
+    return new Response(body, {
+      status: 200,
+      headers: { 'content-type': 'text/event-stream' },
+    });
+  };
+
+  const client = new ClaudeClient({ ...DEFAULT_CONFIG, apiKey: 'test-key' } as Config);
+  (client as any).client = new Anthropic({
+    apiKey: 'test-key',
+    fetch: fetch as any,
+    maxRetries: 0,
+  });
+  return client;
+}
+
+describe('ClaudeClient.streamMessage', () => {
+  it('should keep the text that arrived before the stream failed', async () => {
+    const client = clientFailingAfter([
+      MESSAGE_START,
+      sse('content_block_start', { index: 0, content_block: { type: 'text', text: '' } }),
+      sse('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'Hello ' } }),
+      sse('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'wor' } }),
+      sse('ping', {}),
+    ]);
+    const streamed: string[] = [];
+
+    const error = await client
+      .streamMessage([{ role: 'user', content: 'Hi' }], [], 'system', (text) => streamed.push(text))
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(StreamInterruptedError);
+    expect(error.message).toContain('socket hang up');
+    expect(error.partialContent).toEqual([{ type: 'text', text: 'Hello wor' }]);
+    expect(streamed.join('')).toBe('Hello wor');
+  });
+
+  it('should rethrow the original error when no text arrived', async () => {
+    const client = clientFailingAfter([
+      MESSAGE_START,
+      sse('content_block_start', {
+        index: 0,
+        content_block: { type: 'tool_use', id: 'tu_1', name: 'Bash', input: {} },
+      }),
+      sse('content_block_delta', {
+        index: 0,
+        delta: { type: 'input_json_delta', partial_json: '{"comm' },
+      }),
+      sse('ping', {}),
+    ]);
+
+    const error = await client
+      .streamMessage([{ role: 'user', content: 'Hi' }], [], 'system')
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(StreamInterruptedError);
+    expect(error.message).toContain('socket hang up');
+  });
+});
@@ -3,11 +3,29 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import { Message, Tool } from '../types/index.js';
+import { Message, Tool, TextBlock, ToolUseBlock } from '../types/index.js';
 import { Config } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 import { SYSTEM_PROMPT } from '../config/default.js';
 
+/**
+ * Raised when a stream fails part-way through. Carries the text that had
+ * already arrived so callers can keep it in the transcript.
+ */
+export class StreamInterruptedError extends Error {
+  constructor(
+    message: string,
+    public partialContent: TextBlock[]
+  ) {
+    super(message);
+    this.name = 'StreamInterruptedError';
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
 export class ClaudeClient {
   private client: Anthropic;
   private config: Config;
@@ -22,24 +40,30 @@ export class ClaudeClient {
   async sendMessage(
     messages: Message[],
     tools: Tool[],
-    systemPrompt: string = SYSTEM_PROMPT
+    systemPrompt: string = SYSTEM_PROMPT,
+    options: RequestOptions = {}
   ): Promise<Anthropic.Message> {
     try {
       logger.debug(`Sending request to Claude with ${messages.length} messages`);
 
-      const response = await this.client.messages.create({
-        model: this.config.model,
-        max_tokens: this.config.maxTokens,
-        temperature: this.config.temperature,
-        system: systemPrompt,
-        messages: messages as any,
-        tools: tools as any,
-      });
+      const response = await this.client.messages.create(
+        {
+          model: this.config.model,
+          max_tokens: this.config.maxTokens,
+          temperature: this.config.temperature,
+          system: systemPrompt,
+          messages: messages as any,
+          tools: tools as any,
+        },
+        { signal: options.signal }
+      );
 
       logger.debug(`Received response from Claude`);
       return response;
     } catch (error: any) {
-      logger.error(`Claude API error: ${error.message}`);
+      if (!options.signal?.aborted) {
+        logger.error(`Claude API error: ${error.message}`);
+      }
       throw error;
     }
   }
@@ -49,39 +73,56 @@ export class ClaudeClient {
     tools: Tool[],
     systemPrompt: string = SYSTEM_PROMPT,
     onText?: (text: string) => void,
-    onToolUse?: (toolUse: any) => void
+    onToolUse?: (toolUse: ToolUseBlock) => void,
+    options: RequestOptions = {}
   ): Promise<Anthropic.Message> {
-    try {
-      logger.debug(`Streaming request to Claude with ${messages.length} messages`);
+    logger.debug(`Streaming request to Claude with ${messages.length} messages`);
 
-      const stream = await this.client.messages.stream({
+    const stream = this.client.messages.stream(
+      {
         model: this.config.model,
         max_tokens: this.config.maxTokens,
         temperature: this.config.temperature,
         system: systemPrompt,
         messages: messages as any,
         tools: tools as any,
-      });
+      },
+      { signal: options.signal }
+    );
 
-      // Handle streaming events
-      stream.on('text', (text) => {
-        if (onText) {
-          onText(text);
-        }
-      });
+    // Handle streaming events
+    stream.on('text', (text) => {
+      if (onText) {
+        onText(text);
+      }
+    });
 
-      stream.on('contentBlock', (block) => {
-        if (block.type === 'tool_use' && onToolUse) {
-          onToolUse(block);
-        }
-      });
+    stream.on('contentBlock', (block) => {
+      if (block.type === 'tool_use' && onToolUse) {
+        onToolUse(block as ToolUseBlock);
+      }
+    });
 
+    try {
       const finalMessage = await stream.finalMessage();
       logger.debug(`Stream completed`);
 
       return finalMessage;
     } catch (error: any) {
-      logger.error(`Claude API streaming error: ${error.message}`);
+      if (!options.signal?.aborted) {
+        logger.error(`Claude API streaming error: ${error.message}`);
+      }
+
+      // Keep whatever text arrived; partial tool_use input is not usable
+      const partialContent = (stream.currentMessage?.content ?? []).filter(
+        (block): block is Anthropic.TextBlock => block.type === 'text' && block.text.length > 0
+      );
+      if (partialContent.length > 0) {
+        throw new StreamInterruptedError(
+          error.message,
+          partialContent.map((block) => ({ type: 'text', text: block.text }))
+        );
+      }
       throw error;
     }
   }
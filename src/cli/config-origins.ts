@@ -0,0 +1,45 @@
+/**
+ * Config origins - `taurus config show --origin`
+ */
+
+import chalk from 'chalk';
+import { ConfigManager, ConfigOrigin } from '../config/manager.js';
+import { shortenPath } from './session-list.js';
+
+const SECRET_KEY = /(apiKey|token|secret|password)$/i;
+
+function formatValue(path: string, value: unknown): string {
+  if (typeof value === 'string' && SECRET_KEY.test(path) && value.length > 0) {
+    return `${value.slice(0, 4)}…`;
+  }
+  return JSON.stringify(value);
+}
+
+function formatOrigin(origin: ConfigOrigin): string {
+  switch (origin.layer) {
+    case 'default':
+      return 'default';
+    case 'env':
+      return `env ${origin.source}`;
+    case 'cli':
+      return 'command line';
+    default:
+      return `${origin.layer} ${shortenPath(origin.source)}`;
+  }
+}
+
+/**
+ * One line per value that some layer set: the dotted path, the value and
+ * where it came from. Secrets are shortened.
+ */
+export function formatConfigOrigins(configManager: ConfigManager): string {
+  const entries = [...configManager.getOrigins()].sort(([a], [b]) => a.localeCompare(b));
+  const width = Math.max(0, ...entries.map(([path]) => path.length));
+
+  return entries
+    .map(([path, origin]) => {
+      const value = formatValue(path, configManager.getValue(path));
+      return `${chalk.cyan(path.padEnd(width))}  ${value}  ${chalk.gray(`# ${formatOrigin(origin)}`)}`;
+    })
+    .join('\n');
+}
@@ -3,15 +3,32 @@
  */
 
 import * as readline from 'readline/promises';
+import { spawnSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
 import { stdin as input, stdout as output } from 'process';
 import { AgentOrchestrator } from '../agent/orchestrator.js';
 import { logger } from '../utils/logger.js';
+import {
+  PERMISSION_MODES,
+  PermissionMode,
+  PermissionRequest,
+  PermissionResponse,
+} from '../permissions/index.js';
+import { Todo } from '../types/index.js';
+import { formatSessionSummary } from './session-list.js';
+import { messageIndexForTurn } from '../session/manager.js';
 import chalk from 'chalk';
 
+/** How long the agent waits for the next prompt before notification hooks run */
+const IDLE_NOTIFICATION_MS = 60_000;
+
 export class REPL {
   private rl: readline.Interface;
   private orchestrator: AgentOrchestrator;
   private running: boolean = false;
+  private exitArmedUntil: number = 0;
+  private idleTimer?: NodeJS.Timeout;
 
   constructor(orchestrator: AgentOrchestrator) {
     this.orchestrator = orchestrator;
@@ -20,19 +37,35 @@ export class REPL {
       output,
       prompt: chalk.cyan('taurus> '),
     });
+
+    this.orchestrator
+      .getPermissionManager()
+      ?.setPrompt((request, signal) => this.promptPermission(request, signal));
+
+    this.orchestrator.onTodosChange((todos) => this.showTodos(todos));
   }
 
   async start(): Promise<void> {
     this.running = true;
 
     console.log(chalk.bold.cyan('\n🐂 Taurus CLI - Claude Code Clone'));
-    console.log(chalk.gray('Type your message or command. Use Ctrl+C to exit.\n'));
+    console.log(
+      chalk.gray('Type your message or command. Ctrl+C interrupts a response; press it twice to exit.\n')
+    );
 
     await this.orchestrator.initialize();
 
+    // A resumed session picks up where its plan left off
+    const todos = this.orchestrator.getTodos();
+    if (todos.length > 0) {
+      this.showTodos(todos);
+      console.log();
+    }
+
     this.rl.prompt();
 
     this.rl.on('line', async (line) => {
+      clearTimeout(this.idleTimer);
       const input = line.trim();
 
       if (!input) {
@@ -43,6 +76,8 @@ export class REPL {
       // Handle built-in commands
       if (input.startsWith('/')) {
         await this.handleCommand(input);
+      } else if (input.startsWith('#')) {
+        await this.addMemoryNote(input.slice(1));
       } else {
         // Process as user message
         try {
@@ -50,6 +85,7 @@ export class REPL {
         } catch (error: any) {
           logger.error(`Error: ${error.message}`);
         }
+        this.startIdleTimer();
       }
 
       console.log(); // Empty line for spacing
@@ -60,11 +96,31 @@ export class REPL {
       await this.stop();
     });
 
-    // Handle Ctrl+C
-    process.on('SIGINT', async () => {
+    // Handle Ctrl+C (readline receives it when attached to a TTY, the process otherwise)
+    this.rl.on('SIGINT', () => this.handleInterrupt());
+    process.on('SIGINT', () => this.handleInterrupt());
+  }
+
+  /**
+   * First Ctrl+C cancels the turn in progress and returns to the prompt.
+   * A second press within two seconds, or while the cancelled turn is still
+   * winding down, exits.
+   */
+  private async handleInterrupt(): Promise<void> {
+    if (this.orchestrator.interrupt()) {
+      console.log(chalk.yellow('\n⏹ Interrupting... (press Ctrl+C again to exit)'));
+      this.exitArmedUntil = Date.now() + 2000;
+      return;
+    }
+
+    if (Date.now() < this.exitArmedUntil || this.orchestrator.isProcessing()) {
       await this.stop();
       process.exit(0);
-    });
+    }
+
+    this.exitArmedUntil = Date.now() + 2000;
+    console.log(chalk.gray('\n(Press Ctrl+C again to exit)'));
+    this.rl.prompt();
   }
 
   async stop(): Promise<void> {
@@ -73,6 +129,7 @@ export class REPL {
     }
 
     this.running = false;
+    clearTimeout(this.idleTimer);
     console.log(chalk.yellow('\n\nShutting down...'));
 
     await this.orchestrator.shutdown();
@@ -81,8 +138,232 @@ export class REPL {
     console.log(chalk.gray('Goodbye! 👋\n'));
   }
 
+  /**
+   * Notify hooks if the answer to a turn goes unread for a while
+   */
+  private startIdleTimer(): void {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      void this.orchestrator.notify('Taurus is waiting for your input', 'idle');
+    }, IDLE_NOTIFICATION_MS);
+    this.idleTimer.unref();
+  }
+
+  private async promptPermission(
+    request: PermissionRequest,
+    signal?: AbortSignal
+  ): Promise<PermissionResponse> {
+    void this.orchestrator.notify(`${request.toolName} needs your permission`, 'permission');
+    console.log(chalk.yellow(`\n? ${request.toolName} wants to run: `) + chalk.white(request.summary));
+    const answer = await this.rl.question(
+      chalk.yellow(`  Allow? [y]es / [n]o / [a]lways allow ${request.suggestedRule}: `),
+      { signal }
+    );
+
+    switch (answer.trim().toLowerCase()) {
+      case 'y':
+      case 'yes':
+        return 'allow';
+      case 'a':
+      case 'always':
+        return 'always';
+      default:
+        return 'deny';
+    }
+  }
+
+  private showPermissions(mode?: string): void {
+    const permissionManager = this.orchestrator.getPermissionManager();
+    if (!permissionManager) {
+      console.log(chalk.gray('Permissions are not enabled in this session'));
+      return;
+    }
+
+    if (mode) {
+      if (!PERMISSION_MODES.includes(mode as PermissionMode)) {
+        logger.error(`Unknown permission mode: ${mode}. Use one of: ${PERMISSION_MODES.join(', ')}`);
+        return;
+      }
+      permissionManager.setMode(mode as PermissionMode);
+      logger.success(`Permission mode set to ${mode}`);
+      return;
+    }
+
+    const rules = permissionManager.getRules();
+    console.log(chalk.bold('\nPermission mode: ') + chalk.cyan(permissionManager.getMode()));
+    console.log(chalk.bold('Allow rules: ') + (rules.allow.join(', ') || chalk.gray('none')));
+    console.log(chalk.bold('Deny rules: ') + (rules.deny.join(', ') || chalk.gray('none')));
+    console.log(chalk.bold('Allowed this session: ') + (rules.session.join(', ') || chalk.gray('none')));
+  }
+
+  /**
+   * Print the todo list as a checklist, highlighting the task in progress
+   */
+  private showTodos(todos: Todo[]): void {
+    if (todos.length === 0) {
+      console.log(chalk.gray('No todos'));
+      return;
+    }
+
+    const completed = todos.filter((todo) => todo.status === 'completed').length;
+    console.log(chalk.bold(`\nTodos (${completed}/${todos.length} completed)`));
+    for (const todo of todos) {
+      if (todo.status === 'completed') {
+        console.log(chalk.green('  ☒ ') + chalk.gray.strikethrough(todo.content));
+      } else if (todo.status === 'in_progress') {
+        console.log(chalk.cyan('  ◼ ') + chalk.bold(todo.activeForm));
+      } else {
+        console.log(chalk.gray('  ☐ ') + todo.content);
+      }
+    }
+  }
+
+  /**
+   * Switch to another saved session, by id or picked from the most recent
+   */
+  private async resumeSession(sessionId?: string): Promise<void> {
+    if (!sessionId) {
+      const currentId = this.orchestrator.getSessionManager().getCurrentSession()?.id;
+      const summaries = (await this.orchestrator.getSessionManager().getSessionSummaries())
+        .filter((summary) => summary.id !== currentId)
+        .slice(0, 10);
+      if (summaries.length === 0) {
+        console.log(chalk.gray('No other saved sessions'));
+        return;
+      }
+
+      console.log(chalk.bold('\nRecent sessions:\n'));
+      summaries.forEach((summary, index) => {
+        console.log(formatSessionSummary(summary, `${index + 1}.`.padStart(3)));
+      });
+
+      const answer = await this.rl.question(
+        chalk.yellow(`\nResume which session? [1-${summaries.length}, Enter to cancel]: `)
+      );
+      const choice = summaries[Number.parseInt(answer.trim(), 10) - 1];
+      if (!choice) {
+        console.log(chalk.gray('Cancelled'));
+        return;
+      }
+      sessionId = choice.id;
+    }
+
+    const session = await this.orchestrator.resumeSession(sessionId);
+    if (!session) {
+      logger.error(`Could not resume session: ${sessionId}`);
+      return;
+    }
+
+    logger.success(
+      `Resumed ${session.title ? `"${session.title}"` : session.id} (${session.messages.length} messages)`
+    );
+    if (this.orchestrator.getTodos().length > 0) {
+      this.showTodos(this.orchestrator.getTodos());
+    }
+  }
+
+  /**
+   * Branch the conversation, optionally keeping only its first N turns
+   */
+  private async forkSession(turns?: string): Promise<void> {
+    let atMessageIndex: number | undefined;
+    if (turns !== undefined) {
+      const count = Number.parseInt(turns, 10);
+      if (!Number.isInteger(count) || count < 0) {
+        logger.error('Usage: /fork [turns to keep]');
+        return;
+      }
+      const messages = this.orchestrator.getSessionManager().getMessages();
+      atMessageIndex = messageIndexForTurn(messages, count + 1);
+    }
+
+    try {
+      const parentId = this.orchestrator.getSessionManager().getCurrentSession()?.id;
+      const session = await this.orchestrator.forkSession(atMessageIndex);
+      logger.success(`Forked into ${session.id} with ${session.messages.length} messages`);
+      console.log(chalk.gray(`The original session is unchanged; /resume ${parentId} to go back.`));
+    } catch (error: any) {
+      logger.error(`Fork failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Save a "# note" line to the project's TAURUS.md
+   */
+  private async addMemoryNote(note: string): Promise<void> {
+    try {
+      const path = await this.orchestrator.addMemoryNote(note);
+      logger.success(`Noted in ${path}`);
+    } catch (error: any) {
+      logger.error(`Could not save note: ${error.message}`);
+    }
+  }
+
+  /**
+   * List loaded memory files, or open one in $EDITOR with `/memory edit`
+   */
+  private async handleMemory(action?: string, target?: string): Promise<void> {
+    const memory = this.orchestrator.getMemoryManager();
+    if (!memory) {
+      console.log(chalk.gray('Memory is disabled'));
+      return;
+    }
+
+    if (action === 'edit') {
+      if (target && target !== 'user' && target !== 'project') {
+        logger.error('Usage: /memory edit [user|project]');
+        return;
+      }
+      const path = target === 'user' ? memory.getUserMemoryPath() : memory.getProjectMemoryPath();
+      await this.editFile(path);
+      await this.orchestrator.reloadMemory();
+    } else if (action === 'reload') {
+      await this.orchestrator.reloadMemory();
+    } else if (action) {
+      logger.error('Usage: /memory [edit [user|project] | reload]');
+      return;
+    }
+
+    const files = memory.getFiles();
+    if (files.length === 0) {
+      console.log(chalk.gray('No memory files loaded'));
+      console.log(
+        chalk.gray(`Start one with "# <note>" or /memory edit (${memory.getProjectMemoryPath()})`)
+      );
+      return;
+    }
+
+    console.log(chalk.bold('\nMemory files (later files take precedence):'));
+    for (const file of files) {
+      const origin = file.importedFrom ? 'import' : file.scope;
+      const note = file.truncated ? chalk.yellow(' truncated') : '';
+      const size = chalk.gray(`${file.content.length} chars`);
+      console.log(`  ${chalk.cyan(origin.padEnd(8))}${file.path} ${size}${note}`);
+    }
+  }
+
+  /**
+   * Open a file in the user's editor, creating it first so the editor has
+   * something to open
+   */
+  private async editFile(path: string): Promise<void> {
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.appendFile(path, '', 'utf-8');
+
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+    this.rl.pause();
+    try {
+      const result = spawnSync(`${editor} "${path}"`, { stdio: 'inherit', shell: true });
+      if (result.error || result.status !== 0) {
+        logger.error(`Editor exited with ${result.error?.message ?? `status ${result.status}`}`);
+      }
+    } finally {
+      this.rl.resume();
+    }
+  }
+
   private async handleCommand(command: string): Promise<void> {
-    const [cmd] = command.slice(1).split(/\s+/);
+    const [cmd, ...args] = command.slice(1).split(/\s+/);
 
     switch (cmd) {
       case 'help':
@@ -100,6 +381,37 @@ export class REPL {
         process.exit(0);
         break;
 
+      case 'compact':
+        try {
+          const result = await this.orchestrator.compactConversation(args.join(' ') || undefined);
+          if (result && !result.compacted) {
+            console.log(chalk.gray(result.reason));
+          }
+        } catch (error: any) {
+          logger.error(`Compaction failed: ${error.message}`);
+        }
+        break;
+
+      case 'permissions':
+        this.showPermissions(args[0]);
+        break;
+
+      case 'todos':
+        this.showTodos(this.orchestrator.getTodos());
+        break;
+
+      case 'resume':
+        await this.resumeSession(args[0]);
+        break;
+
+      case 'fork':
+        await this.forkSession(args[0]);
+        break;
+
+      case 'memory':
+        await this.handleMemory(args[0], args[1]);
+        break;
+
       case 'version':
         console.log(chalk.gray('Taurus CLI v1.0.0'));
         break;
@@ -115,6 +427,13 @@ export class REPL {
     console.log(chalk.bold('\nAvailable Commands:\n'));
     console.log(chalk.cyan('  /help') + '     - Show this help message');
     console.log(chalk.cyan('  /clear') + '    - Clear the screen');
+    console.log(chalk.cyan('  /compact') + '  - Summarize older messages to free context (optional focus instructions)');
+    console.log(chalk.cyan('  /permissions') + ' [mode] - Show permission rules or switch mode');
+    console.log(chalk.cyan('  /todos') + '    - Show the current todo list');
+    console.log(chalk.cyan('  /resume') + ' [id] - Switch to a saved session');
+    console.log(chalk.cyan('  /fork') + ' [n]  - Branch the conversation (keep n turns)');
+    console.log(chalk.cyan('  /memory') + ' [edit] - Show or edit TAURUS.md memory files');
+    console.log(chalk.cyan('  # <note>') + '  - Add a note to the project TAURUS.md');
     console.log(chalk.cyan('  /exit') + '     - Exit Taurus CLI');
     console.log(chalk.cyan('  /version') + '  - Show version information');
     console.log(chalk.gray('\nFor feedback, visit: https://github.com/az9713/taurus-cli/issues\n'));
@@ -0,0 +1,89 @@
+/**
+ * Session list - Formatting shared by `taurus sessions` and /resume
+ */
+
+import { homedir } from 'os';
+import chalk from 'chalk';
+import { SessionSummary } from '../types/index.js';
+
+/**
+ * "just now", "5m ago", "3h ago", "2d ago", then the date
+ */
+export function formatRelativeTime(date: Date, now: Date = new Date()): string {
+  const seconds = Math.max(0, Math.round((now.getTime() - date.getTime()) / 1000));
+  if (seconds < 60) {
+    return 'just now';
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ago`;
+  }
+  if (seconds < 86400) {
+    return `${Math.floor(seconds / 3600)}h ago`;
+  }
+  if (seconds < 7 * 86400) {
+    return `${Math.floor(seconds / 86400)}d ago`;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * A path with the home directory written as ~
+ */
+export function shortenPath(path: string): string {
+  const home = homedir();
+  return path === home || path.startsWith(`${home}/`) ? `~${path.slice(home.length)}` : path;
+}
+
+/**
+ * Sessions in tree order: each fork follows its parent, one level deeper.
+ * Forks whose parent is gone are shown at the top level. Siblings keep the
+ * order they are given in.
+ */
+export function orderSessionTree(
+  summaries: SessionSummary[]
+): Array<{ summary: SessionSummary; depth: number }> {
+  const ids = new Set(summaries.map((summary) => summary.id));
+  const children = new Map<string, SessionSummary[]>();
+  const roots: SessionSummary[] = [];
+
+  for (const summary of summaries) {
+    if (summary.parentId && ids.has(summary.parentId)) {
+      const siblings = children.get(summary.parentId) ?? [];
+      siblings.push(summary);
+      children.set(summary.parentId, siblings);
+    } else {
+      roots.push(summary);
+    }
+  }
+
+  const ordered: Array<{ summary: SessionSummary; depth: number }> = [];
+  const visit = (summary: SessionSummary, depth: number) => {
+    ordered.push({ summary, depth });
+    for (const child of children.get(summary.id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  roots.forEach((root) => visit(root, 0));
+
+  return ordered;
+}
+
+/**
+ * Two lines per session: the title, then id, size, age and directory.
+ * Forks are indented under their parent by depth.
+ */
+export function formatSessionSummary(summary: SessionSummary, label?: string, depth = 0): string {
+  const details = [
+    summary.id,
+    `${summary.messageCount} message${summary.messageCount === 1 ? '' : 's'}`,
+    formatRelativeTime(summary.updatedAt),
+  ];
+  if (summary.cwd) {
+    details.push(shortenPath(summary.cwd));
+  }
+
+  const branch = depth > 0 ? `${'   '.repeat(depth - 1)}└─ ` : '';
+  const prefix = `${branch}${label ? `${chalk.cyan(label)} ` : ''}`;
+  const indent = ' '.repeat(branch.length + (label ? label.length + 1 : 0));
+  return `${prefix}${chalk.bold(summary.title)}\n${indent}${chalk.gray(details.join(' · '))}`;
+}
@@ -0,0 +1,126 @@
+/**
+ * Tests for Compaction Manager
+ */
+
+import { CompactionManager, COMPACTION_SUMMARY_PREFIX } from '../compaction-manager.js';
+import { Message } from '../../types/index.js';
+
+// Mock Claude client that records summarization prompts
+class MockClaudeClient {
+  prompts: string[] = [];
+
+  async generateText(prompt: string) {
+    this.prompts.push(prompt);
+    return 'Summary of earlier work';
+  }
+}
+
+function conversation(): Message[] {
+  return [
+    { role: 'user', content: 'Read the config' },
+    {
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 'tu_1', name: 'Read', input: { file_path: '/a.ts' } }],
+    },
+    { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tu_1', content: 'x'.repeat(5000) }] },
+    { role: 'assistant', content: [{ type: 'text', text: 'Done reading' }] },
+    { role: 'user', content: 'Now fix the bug' },
+    { role: 'assistant', content: [{ type: 'text', text: 'Fixed' }] },
+    { role: 'user', content: 'Add a test' },
+    {
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 'tu_2', name: 'Write', input: { file_path: '/a.test.ts' } }],
+    },
+    { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tu_2', content: 'ok' }] },
+  ];
+}
+
+describe('CompactionManager', () => {
+  let client: MockClaudeClient;
+  let manager: CompactionManager;
+
+  beforeEach(() => {
+    client = new MockClaudeClient();
+    manager = new CompactionManager({ preserveRecentTurns: 2 }, client as any);
+  });
+
+  it('should split on user prompts, never between tool_use and tool_result', () => {
+    expect(manager.findSplitIndex(conversation())).toBe(4);
+  });
+
+  it('should fall back to fewer preserved turns', () => {
+    const messages = conversation().slice(4);
+    expect(manager.findSplitIndex(messages)).toBe(2);
+  });
+
+  it('should not compact a single turn', async () => {
+    const messages = conversation().slice(6);
+    const result = await manager.compact(messages);
+
+    expect(result.compacted).toBe(false);
+    expect(result.messages).toBe(messages);
+    expect(client.prompts).toHaveLength(0);
+  });
+
+  it('should split a long single turn between tool rounds', async () => {
+    const rounds = 5;
+    const messages: Message[] = [{ role: 'user', content: 'Fix every failing test' }];
+    for (let i = 1; i <= rounds; i++) {
+      messages.push(
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: `tu_${i}`, name: 'Bash', input: { command: 'npm test' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: `tu_${i}`, content: 'x'.repeat(5000) }],
+        }
+      );
+    }
+
+    expect(manager.findSplitIndex(messages)).toBe(2 * rounds - 3);
+
+    const result = await manager.compact(messages);
+
+    expect(result.compacted).toBe(true);
+    expect(result.summarizedMessages).toBe(2 * rounds - 3);
+    expect(result.messages.map((message) => message.role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+      'user',
+    ]);
+    expect((result.messages[0].content as any[])[0].text).toContain(COMPACTION_SUMMARY_PREFIX);
+    expect((result.messages[1].content as any[])[0].id).toBe(`tu_${rounds - 1}`);
+    expect(client.prompts[0]).toContain('Fix every failing test');
+    expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+  });
+
+  it('should fold the summary into the first preserved prompt', async () => {
+    const result = await manager.compact(conversation(), { instructions: 'Focus on the bug' });
+
+    expect(result.compacted).toBe(true);
+    expect(result.summarizedMessages).toBe(4);
+    expect(result.messages).toHaveLength(5);
+    expect(result.messages[0].role).toBe('user');
+
+    const firstContent = result.messages[0].content as any[];
+    expect(firstContent[0].text).toContain(COMPACTION_SUMMARY_PREFIX);
+    expect(firstContent[0].text).toContain('Summary of earlier work');
+    expect(firstContent[1].text).toBe('Now fix the bug');
+
+    expect(client.prompts[0]).toContain('Focus on the bug');
+    expect(client.prompts[0]).toContain('[truncated]');
+    expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+  });
+
+  it('should only request compaction above the threshold', () => {
+    const small = new CompactionManager({ contextWindow: 1000, threshold: 0.5 }, client as any);
+
+    expect(small.shouldCompact([{ role: 'user', content: 'hi' }], '', [])).toBe(false);
+    expect(small.shouldCompact(conversation(), '', [])).toBe(true);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Compaction Manager
+ *
+ * Summarizes older conversation turns so long sessions stay within the
+ * model's context window
+ */
+
+import { ClaudeClient } from '../api/claude.js';
+import { Message, ContentBlock, Tool } from '../types/index.js';
+import { CompactionConfig, CompactionOptions, CompactionResult } from './types.js';
+import { estimateRequestTokens } from './token-estimator.js';
+import { toolResultText } from '../tools/base.js';
+
+export const DEFAULT_COMPACTION_CONFIG: CompactionConfig = {
+  enabled: true,
+  contextWindow: 200000,
+  threshold: 0.8,
+  preserveRecentTurns: 2,
+  maxToolResultChars: 2000,
+};
+
+export const COMPACTION_SUMMARY_PREFIX =
+  'This session is being continued from an earlier conversation that was compacted to save context. Summary of the earlier conversation:';
+
+export class CompactionManager {
+  private config: CompactionConfig;
+  private client: ClaudeClient;
+
+  constructor(config: Partial<CompactionConfig>, client: ClaudeClient) {
+    this.config = { ...DEFAULT_COMPACTION_CONFIG, ...config };
+    this.client = client;
+  }
+
+  /**
+   * Check whether the next request would cross the compaction threshold
+   */
+  shouldCompact(messages: Message[], systemPrompt: string, tools: Tool[]): boolean {
+    if (!this.config.enabled) {
+      return false;
+    }
+
+    const estimate = estimateRequestTokens(messages, systemPrompt, tools);
+    return estimate >= this.config.contextWindow * this.config.threshold;
+  }
+
+  /**
+   * Replace older turns with a summary. Recent turns are kept verbatim and
+   * the split falls on a user prompt or, within a single long turn, between
+   * tool rounds, so tool_use/tool_result pairs are never separated.
+   */
+  async compact(messages: Message[], options: CompactionOptions = {}): Promise<CompactionResult> {
+    const tokensBefore = estimateRequestTokens(messages);
+    const splitIndex = this.findSplitIndex(messages);
+
+    if (splitIndex === 0) {
+      return {
+        compacted: false,
+        messages,
+        summarizedMessages: 0,
+        tokensBefore,
+        tokensAfter: tokensBefore,
+        reason: 'Not enough conversation history to compact',
+      };
+    }
+
+    const older = messages.slice(0, splitIndex);
+    const recent = messages.slice(splitIndex);
+
+    const summary = await this.summarize(older, options.instructions);
+    const [firstRecent, ...rest] = recent;
+
+    const summaryBlock: ContentBlock = {
+      type: 'text',
+      text: `${COMPACTION_SUMMARY_PREFIX}\n\n${summary}`,
+    };
+
+    let compactedMessages: Message[];
+    if (firstRecent.role === 'assistant') {
+      // Split inside a turn: the summary stands in for the prompt and the
+      // tool rounds before the kept ones
+      compactedMessages = [{ role: 'user', content: [summaryBlock] }, ...recent];
+    } else {
+      // Fold the summary into the first kept prompt to preserve role alternation
+      const firstContent: ContentBlock[] =
+        typeof firstRecent.content === 'string'
+          ? [{ type: 'text', text: firstRecent.content }]
+          : firstRecent.content;
+      compactedMessages = [{ role: 'user', content: [summaryBlock, ...firstContent] }, ...rest];
+    }
+
+    return {
+      compacted: true,
+      messages: compactedMessages,
+      summarizedMessages: older.length,
+      tokensBefore,
+      tokensAfter: estimateRequestTokens(compactedMessages),
+      summary,
+    };
+  }
+
+  /**
+   * Index of the first message to keep verbatim, or 0 if nothing can be
+   * summarized. Falls back to fewer preserved turns when the configured
+   * number would leave nothing to summarize, and when only the current turn
+   * is left, to its most recent tool rounds.
+   */
+  findSplitIndex(messages: Message[]): number {
+    const promptIndexes = messages
+      .map((message, index) => (this.isUserPrompt(message) ? index : -1))
+      .filter((index) => index >= 0);
+
+    const turnSplit = this.latestSplit(promptIndexes);
+    if (turnSplit > 0) {
+      return turnSplit;
+    }
+
+    // An assistant message answering tool results starts a new tool round
+    const roundIndexes = messages
+      .map((message, index) =>
+        message.role === 'assistant' && index > 0 && this.isToolResults(messages[index - 1])
+          ? index
+          : -1
+      )
+      .filter((index) => index > (promptIndexes[promptIndexes.length - 1] ?? -1));
+
+    return this.latestSplit(roundIndexes);
+  }
+
+  getConfig(): CompactionConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * The split that keeps the configured number of recent turns (or rounds),
+   * or as many as still leaves something to summarize
+   */
+  private latestSplit(indexes: number[]): number {
+    for (let keep = this.config.preserveRecentTurns; keep >= 1; keep--) {
+      const index = indexes[indexes.length - keep];
+      if (index !== undefined && index > 0) {
+        return index;
+      }
+    }
+
+    return 0;
+  }
+
+  private isToolResults(message: Message): boolean {
+    return (
+      message.role === 'user' &&
+      typeof message.content !== 'string' &&
+      message.content.length > 0 &&
+      message.content.every((block) => block.type === 'tool_result')
+    );
+  }
+
+  /**
+   * A user message that starts a turn, as opposed to one carrying tool results
+   */
+  private isUserPrompt(message: Message): boolean {
+    if (message.role !== 'user') {
+      return false;
+    }
+    if (typeof message.content === 'string') {
+      return true;
+    }
+    return message.content.some((block) => block.type !== 'tool_result');
+  }
+
+  private async summarize(messages: Message[], instructions?: string): Promise<string> {
+    const prompt = `Summarize the following conversation between a user and an AI coding assistant so the assistant can continue the work without the original transcript.
+
+Include:
+1. The user's requests and intent, in order
+2. Key technical decisions and the reasons for them
+3. Files read, created or modified, with the important details of each change
+4. Errors encountered and how they were resolved
+5. Pending tasks and the exact state of the work in progress
+${instructions ? `\nAdditional instructions from the user: ${instructions}\n` : ''}
+Respond with the summary only.
+
+<transcript>
+${this.renderTranscript(messages)}
+</transcript>`;
+
+    const summary = await this.client.generateText(prompt);
+    if (!summary.trim()) {
+      throw new Error('Summarization returned no text');
+    }
+
+    return summary.trim();
+  }
+
+  private renderTranscript(messages: Message[]): string {
+    return messages
+      .map((message) => {
+        const speaker = message.role === 'user' ? 'User' : 'Assistant';
+        if (typeof message.content === 'string') {
+          return `${speaker}: ${message.content}`;
+        }
+
+        return message.content
+          .map((block) => {
+            switch (block.type) {
+              case 'text':
+                return `${speaker}: ${block.text}`;
+              case 'tool_use':
+                return `[Tool call ${block.name}: ${JSON.stringify(block.input)}]`;
+              case 'tool_result':
+                return `[Tool result${block.is_error ? ' (error)' : ''}: ${this.truncate(toolResultText(block.content))}]`;
+              default:
+                return '';
+            }
+          })
+          .filter((line) => line)
+          .join('\n');
+      })
+      .join('\n\n');
+  }
+
+  private truncate(text: string): string {
+    const max = this.config.maxToolResultChars;
+    return text.length > max ? `${text.substring(0, max)}... [truncated]` : text;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Context Compaction Module
+ *
+ * Exports compaction types, token estimator, and compaction manager
+ */
+
+export * from './types.js';
+export * from './token-estimator.js';
+export * from './compaction-manager.js';
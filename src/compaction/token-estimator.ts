@@ -0,0 +1,66 @@
+/**
+ * Token Estimator
+ *
+ * Cheap, offline token estimates used to decide when to compact
+ */
+
+import { Message, ContentBlock, Tool } from '../types/index.js';
+
+// Roughly four characters per token for English text and code
+const CHARS_PER_TOKEN = 4;
+
+// Fixed per-message overhead for role markers and block framing
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Images are billed by pixel count; this is the cost of a full-size image
+const IMAGE_TOKENS = 1600;
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateBlockTokens(block: ContentBlock): number {
+  switch (block.type) {
+    case 'text':
+      return estimateTextTokens(block.text);
+    case 'tool_use':
+      return estimateTextTokens(block.name) + estimateTextTokens(JSON.stringify(block.input));
+    case 'tool_result':
+      if (typeof block.content === 'string') {
+        return estimateTextTokens(block.content);
+      }
+      return block.content.reduce(
+        (total, part) =>
+          total + (part.type === 'text' ? estimateTextTokens(part.text) : IMAGE_TOKENS),
+        0
+      );
+    default:
+      return 0;
+  }
+}
+
+export function estimateMessageTokens(message: Message): number {
+  if (typeof message.content === 'string') {
+    return MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(message.content);
+  }
+
+  return message.content.reduce(
+    (total, block) => total + estimateBlockTokens(block),
+    MESSAGE_OVERHEAD_TOKENS
+  );
+}
+
+/**
+ * Estimate the input tokens of a full request: system prompt, tool
+ * definitions and message history.
+ */
+export function estimateRequestTokens(
+  messages: Message[],
+  systemPrompt: string = '',
+  tools: Tool[] = []
+): number {
+  const messageTokens = messages.reduce((total, m) => total + estimateMessageTokens(m), 0);
+  const toolTokens = tools.length > 0 ? estimateTextTokens(JSON.stringify(tools)) : 0;
+
+  return estimateTextTokens(systemPrompt) + toolTokens + messageTokens;
+}
@@ -0,0 +1,29 @@
+/**
+ * Context Compaction Types
+ *
+ * Type definitions for conversation compaction
+ */
+
+import { Message } from '../types/index.js';
+
+export interface CompactionConfig {
+  enabled: boolean;
+  contextWindow: number;
+  threshold: number;
+  preserveRecentTurns: number;
+  maxToolResultChars: number;
+}
+
+export interface CompactionOptions {
+  instructions?: string;
+}
+
+export interface CompactionResult {
+  compacted: boolean;
+  messages: Message[];
+  summarizedMessages: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  summary?: string;
+  reason?: string;
+}
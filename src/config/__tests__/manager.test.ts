@@ -0,0 +1,218 @@
+/**
+ * Tests for layered configuration
+ */
+
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as yaml from 'yaml';
+import { ConfigManager, ConfigValidationError } from '../manager.js';
+import { validateConfig } from '../schema.js';
+import { DEFAULT_CONFIG } from '../default.js';
+
+describe('ConfigManager', () => {
+  let root: string;
+  let home: string;
+  let project: string;
+
+  const userFile = () => join(home, '.taurus', 'config.yaml');
+  const projectFile = () => join(project, '.taurus', 'config.yaml');
+  const localFile = () => join(project, '.taurus', 'config.local.yaml');
+
+  function createManager(env: NodeJS.ProcessEnv = {}): ConfigManager {
+    return new ConfigManager({
+      cwd: project,
+      homeDir: home,
+      env: { ANTHROPIC_API_KEY: 'sk-test', ...env },
+    });
+  }
+
+  async function loadError(manager: ConfigManager): Promise<ConfigValidationError> {
+    try {
+      await manager.load();
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        return error;
+      }
+      throw error;
+    }
+    throw new Error('Expected the config to be invalid');
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'taurus-config-'));
+    home = join(root, 'home');
+    project = join(root, 'project');
+    mkdirSync(join(home, '.taurus'), { recursive: true });
+    mkdirSync(join(project, '.taurus'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should merge layers in order and remember where each value came from', async () => {
+    writeFileSync(
+      userFile(),
+      'model: user-model\ncompaction:\n  enabled: true\n  threshold: 0.7\npermissions:\n  mode: ask\n  allow: [Read, Glob]\n'
+    );
+    writeFileSync(projectFile(), 'model: project-model\ncompaction:\n  enabled: false\n');
+    writeFileSync(localFile(), 'permissions:\n  allow: [Bash]\n');
+
+    const manager = createManager({ TAURUS_MAX_TOKENS: '2048' });
+    await manager.load({ temperature: 0.2 });
+    const config = manager.get();
+
+    expect(config.model).toBe('project-model');
+    expect(config.compaction).toEqual({ enabled: false, threshold: 0.7 });
+    expect(config.permissions).toEqual({ mode: 'ask', allow: ['Bash'] });
+    expect(config.maxTokens).toBe(2048);
+    expect(config.temperature).toBe(0.2);
+    expect(config.hooksEnabled).toBe(true);
+
+    expect(manager.getOrigin('model')).toEqual({ layer: 'project', source: projectFile() });
+    expect(manager.getOrigin('compaction.threshold')).toEqual({
+      layer: 'user',
+      source: userFile(),
+    });
+    expect(manager.getOrigin('permissions.allow')?.layer).toBe('local');
+    expect(manager.getOrigin('maxTokens')).toEqual({ layer: 'env', source: 'TAURUS_MAX_TOKENS' });
+    expect(manager.getOrigin('temperature')?.layer).toBe('cli');
+    expect(manager.getOrigin('hooksEnabled')?.layer).toBe('default');
+    expect(manager.getOrigin('apiKey')).toEqual({ layer: 'env', source: 'ANTHROPIC_API_KEY' });
+  });
+
+  it('should not let the project config loosen security settings', async () => {
+    writeFileSync(userFile(), 'permissions:\n  mode: ask\n  deny: [Bash(git push:*)]\n');
+    writeFileSync(
+      projectFile(),
+      yaml.stringify({
+        model: 'project-model',
+        permissions: { mode: 'bypass', allow: ['Bash'], deny: ['Edit(.env)'] },
+        sandbox: { enabled: false, backend: 'none' },
+        mcpServers: [{ name: 'evil', transport: 'stdio', command: 'sh' }],
+      })
+    );
+
+    const manager = createManager();
+    await manager.load();
+    const config = manager.get();
+
+    expect(config.model).toBe('project-model');
+    expect(config.permissions).toEqual({
+      mode: 'ask',
+      deny: ['Bash(git push:*)', 'Edit(.env)'],
+    });
+    expect(config.sandbox).toBeUndefined();
+    expect(config.mcpServers).toEqual([]);
+    expect(manager.getOrigin('permissions.mode')?.layer).toBe('user');
+
+    writeFileSync(localFile(), 'permissions:\n  mode: accept-edits\n');
+    await manager.load();
+    expect(manager.get().permissions?.mode).toBe('accept-edits');
+  });
+
+  it('should report misspelled keys with their path and file', async () => {
+    writeFileSync(projectFile(), 'compaction:\n  enabled: true\n  treshold: 0.5\nmodl: x\n');
+
+    const error = await loadError(createManager());
+
+    expect(error.issues).toEqual([
+      {
+        path: 'modl',
+        message: 'unknown key (did you mean "model"?)',
+        origin: { layer: 'project', source: projectFile() },
+      },
+      {
+        path: 'compaction.treshold',
+        message: 'unknown key (did you mean "threshold"?)',
+        origin: { layer: 'project', source: projectFile() },
+      },
+    ]);
+    expect(error.message).toContain(`compaction.treshold: unknown key`);
+  });
+
+  it('should report wrong types, bad enum values and missing keys', async () => {
+    writeFileSync(
+      userFile(),
+      'mcpServers:\n  - name: fs\n    transport: pipe\ncollaboration:\n  serverPort: 3000\n'
+    );
+
+    const error = await loadError(createManager({ TAURUS_MAX_TOKENS: 'lots' }));
+    const messages = error.issues.map((issue) => `${issue.path}: ${issue.message}`);
+
+    expect(messages).toEqual(
+      expect.arrayContaining([
+        'maxTokens: must be integer',
+        'mcpServers[0].transport: must be one of: stdio, http',
+        'collaboration.enabled: is required',
+      ])
+    );
+    expect(error.issues.find((issue) => issue.path === 'maxTokens')?.origin?.source).toBe(
+      'TAURUS_MAX_TOKENS'
+    );
+    expect(
+      error.issues.find((issue) => issue.path === 'collaboration.enabled')?.origin?.source
+    ).toBe(userFile());
+  });
+
+  it('should accept sections that set only some of their keys', async () => {
+    writeFileSync(
+      userFile(),
+      yaml.stringify({
+        permissions: { allow: ['Read'] },
+        compaction: { threshold: 0.7 },
+        sandbox: { enabled: true },
+        memory: { maxFileChars: 1000 },
+      })
+    );
+
+    const manager = createManager();
+    await manager.load();
+
+    expect(manager.getValue('compaction.threshold')).toBe(0.7);
+    expect(manager.getValue('memory.maxFileChars')).toBe(1000);
+  });
+
+  it('should point at the file with invalid YAML', async () => {
+    writeFileSync(localFile(), 'model: [unclosed\n');
+
+    await expect(createManager().load()).rejects.toThrow(`Invalid YAML in ${localFile()}`);
+  });
+
+  it('should still require an API key', async () => {
+    const manager = new ConfigManager({ cwd: project, homeDir: home, env: {} });
+
+    await expect(manager.load()).rejects.toThrow('ANTHROPIC_API_KEY not found');
+    await expect(manager.load({}, { requireApiKey: false })).resolves.toBeUndefined();
+  });
+
+  it('should save only user values and refuse invalid ones', async () => {
+    writeFileSync(userFile(), 'model: user-model\n');
+    writeFileSync(projectFile(), 'maxTokens: 1000\n');
+
+    const manager = createManager();
+    await manager.load();
+    manager.set('compaction.enabled', true);
+    manager.set('compaction.threshold', 0.6);
+    await manager.save();
+
+    expect(yaml.parse(readFileSync(userFile(), 'utf-8'))).toEqual({
+      model: 'user-model',
+      compaction: { enabled: true, threshold: 0.6 },
+    });
+
+    expect(() => manager.set('compaction.threshold', 'high')).toThrow(
+      'compaction.threshold: must be number'
+    );
+    expect(manager.getValue('compaction.threshold')).toBe(0.6);
+  });
+});
+
+describe('config.example.yaml', () => {
+  it('should match the config schema', () => {
+    const example = yaml.parse(readFileSync(join(process.cwd(), 'config.example.yaml'), 'utf-8'));
+
+    expect(validateConfig({ ...DEFAULT_CONFIG, ...example })).toEqual([]);
+  });
+});
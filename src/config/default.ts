@@ -16,6 +16,15 @@ export const DEFAULT_CONFIG: Partial<Config> = {
   mcpServers: [],
 };
 
+/**
+ * Model aliases accepted by the Task tool and agent definitions
+ */
+export const MODEL_ALIASES: Record<'sonnet' | 'opus' | 'haiku', string> = {
+  sonnet: 'claude-sonnet-4-5-20250929',
+  opus: 'claude-opus-4-1-20250805',
+  haiku: 'claude-haiku-4-5-20251001',
+};
+
 export const SYSTEM_PROMPT = `You are Taurus, an AI assistant powered by Claude, designed to help with software engineering tasks.
 You are an interactive CLI tool that helps users with complex programming challenges.
 
@@ -49,3 +58,11 @@ You are an interactive CLI tool that helps users with complex programming challe
 - Disagree respectfully when necessary
 - Investigate uncertain matters before responding
 `;
+
+export const SUBAGENT_SYSTEM_PROMPT = `${SYSTEM_PROMPT}
+# Subagent Mode
+- You were launched by another agent to complete a single, self-contained task
+- Work autonomously; the user cannot answer follow-up questions
+- Your final message is returned verbatim to the calling agent, so make it a complete, concise report of your findings or changes
+- Include relevant absolute file paths and code snippets in the final report
+`;
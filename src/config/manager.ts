@@ -1,55 +1,273 @@
 /**
  * Configuration manager
+ *
+ * Config is merged from layers, each overriding the ones before it:
+ * built-in defaults, ~/.taurus/config.yaml, the project's
+ * .taurus/config.yaml, the untracked .taurus/config.local.yaml, environment
+ * variables, then command line flags. Objects are merged key by key; arrays
+ * and other values replace what came before. The result is checked against
+ * the Config schema, and the layer each value came from is kept.
+ *
+ * The project config is checked in with the repository, so it may only
+ * tighten security settings: its permission mode, allow rules, sandbox and
+ * MCP servers are ignored, and its deny rules add to the user's.
  */
 
 import { Config } from '../types/index.js';
 import { DEFAULT_CONFIG } from './default.js';
+import { ConfigIssue, validateConfig } from './schema.js';
 import { promises as fs } from 'fs';
 import { join, dirname } from 'path';
 import { homedir } from 'os';
 import * as yaml from 'yaml';
 import { logger } from '../utils/logger.js';
 
+export type ConfigLayer = 'default' | 'user' | 'project' | 'local' | 'env' | 'cli';
+
+export interface ConfigOrigin {
+  layer: ConfigLayer;
+  /** The file, environment variable or flag the value came from */
+  source: string;
+}
+
+export interface ConfigLoadOptions {
+  /** False for commands that don't call the API (default true) */
+  requireApiKey?: boolean;
+}
+
+export interface ConfigManagerOptions {
+  /** Directory whose .taurus/ holds the project config */
+  cwd?: string;
+  homeDir?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Environment variables that override config values
+ */
+export const CONFIG_ENV_VARIABLES: Record<
+  string,
+  { path: string; type: 'string' | 'number' | 'boolean' }
+> = {
+  ANTHROPIC_API_KEY: { path: 'apiKey', type: 'string' },
+  TAURUS_MODEL: { path: 'model', type: 'string' },
+  TAURUS_MAX_TOKENS: { path: 'maxTokens', type: 'number' },
+  TAURUS_TEMPERATURE: { path: 'temperature', type: 'number' },
+  TAURUS_SESSION_DIRECTORY: { path: 'sessionDirectory', type: 'string' },
+  TAURUS_HOOKS_ENABLED: { path: 'hooksEnabled', type: 'boolean' },
+  TAURUS_PERMISSION_MODE: { path: 'permissions.mode', type: 'string' },
+};
+
+export class ConfigValidationError extends Error {
+  constructor(public issues: Array<ConfigIssue & { origin?: ConfigOrigin }>) {
+    super(
+      `Invalid configuration:\n${issues
+        .map(
+          (issue) =>
+            `  ${issue.path}: ${issue.message}${issue.origin ? ` (from ${issue.origin.source})` : ''}`
+        )
+        .join('\n')}`
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+type PlainObject = Record<string, any>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function setPath(target: PlainObject, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(node[key])) {
+      node[key] = {};
+    }
+    node = node[key];
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+function getPath(source: PlainObject, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((node, key) => (isPlainObject(node) ? node[key] : undefined), source);
+}
+
+/**
+ * Remove a value by dotted path, and any objects it leaves empty
+ */
+function deletePath(target: PlainObject, path: string): void {
+  const [key, ...rest] = path.split('.');
+  if (rest.length === 0) {
+    delete target[key];
+  } else if (isPlainObject(target[key])) {
+    deletePath(target[key], rest.join('.'));
+    if (Object.keys(target[key]).length === 0) {
+      delete target[key];
+    }
+  }
+}
+
+/**
+ * `a.b` for `a.b.c`, `a` for `a[0]`, empty at the top
+ */
+function parentPath(path: string): string {
+  const last = /(\.[^.[]*|\[\d+\])$/.exec(path);
+  return last ? path.slice(0, last.index) : '';
+}
+
+function parseEnvValue(raw: string, type: 'string' | 'number' | 'boolean'): unknown {
+  if (type === 'number') {
+    const value = Number(raw);
+    return raw.trim() !== '' && Number.isFinite(value) ? value : raw;
+  }
+  if (type === 'boolean') {
+    if (/^(true|1|yes)$/i.test(raw)) return true;
+    if (/^(false|0|no)$/i.test(raw)) return false;
+  }
+  return raw;
+}
+
+/**
+ * Merge `source` into `target`, recording `origin` for every value set.
+ * Null and undefined leave the existing value alone.
+ */
+export function mergeConfigLayer(
+  target: PlainObject,
+  source: PlainObject,
+  origin: ConfigOrigin,
+  origins: Map<string, ConfigOrigin>,
+  prefix = ''
+): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      if (!isPlainObject(target[key])) {
+        target[key] = {};
+        origins.delete(path);
+      }
+      mergeConfigLayer(target[key], value, origin, origins, path);
+      continue;
+    }
+
+    // Whatever was below this key has been replaced
+    for (const known of origins.keys()) {
+      if (known.startsWith(`${path}.`)) {
+        origins.delete(known);
+      }
+    }
+    target[key] = structuredClone(value);
+    origins.set(path, origin);
+  }
+}
+
+/**
+ * Settings a project config can't loosen, so that opening a cloned repository
+ * can't widen what runs without asking. They are read only from the user's
+ * own files, the environment and flags.
+ */
+export const PROJECT_IGNORED_PATHS = [
+  'permissions.mode',
+  'permissions.allow',
+  'sandbox',
+  'mcpServers',
+];
+
+/**
+ * The project layer without the settings it may not change. Its deny rules
+ * are added to those from earlier layers rather than replacing them.
+ */
+function restrictProjectLayer(values: PlainObject, config: PlainObject): PlainObject {
+  const restricted = structuredClone(values);
+  for (const path of PROJECT_IGNORED_PATHS) {
+    deletePath(restricted, path);
+  }
+
+  const deny = getPath(restricted, 'permissions.deny');
+  const earlierDeny = getPath(config, 'permissions.deny');
+  if (Array.isArray(deny) && Array.isArray(earlierDeny)) {
+    setPath(restricted, 'permissions.deny', [...earlierDeny, ...deny]);
+  }
+  return restricted;
+}
+
+interface FileLayer {
+  layer: 'user' | 'project' | 'local';
+  path: string;
+  /** Undefined when the file does not exist */
+  values?: PlainObject;
+}
+
 export class ConfigManager {
   private config: Config;
+  private origins: Map<string, ConfigOrigin> = new Map();
   private configPath: string;
+  private fileLayers: FileLayer[];
+  private cliOverrides: PlainObject = {};
+  private env: NodeJS.ProcessEnv;
 
-  constructor() {
-    const configDir = join(homedir(), '.taurus');
+  constructor(options: ConfigManagerOptions = {}) {
+    const configDir = join(options.homeDir ?? homedir(), '.taurus');
+    const projectDir = join(options.cwd ?? process.cwd(), '.taurus');
     this.configPath = join(configDir, 'config.yaml');
+    this.fileLayers = [
+      { layer: 'user', path: this.configPath },
+      { layer: 'project', path: join(projectDir, 'config.yaml') },
+      { layer: 'local', path: join(projectDir, 'config.local.yaml') },
+    ];
+    this.env = options.env ?? process.env;
 
     // Initialize with defaults
-    this.config = {
-      ...DEFAULT_CONFIG,
-      apiKey: process.env.ANTHROPIC_API_KEY || '',
-    } as Config;
+    this.config = this.merge();
   }
 
-  async load(): Promise<void> {
-    try {
-      const content = await fs.readFile(this.configPath, 'utf-8');
-      const userConfig = yaml.parse(content);
-
-      // Merge with defaults
-      this.config = {
-        ...this.config,
-        ...userConfig,
-      };
+  /**
+   * Read every layer and validate the result. `cliOverrides` are values
+   * from command line flags, which take precedence over everything else.
+   */
+  async load(cliOverrides: Partial<Config> = {}, options: ConfigLoadOptions = {}): Promise<void> {
+    for (const fileLayer of this.fileLayers) {
+      fileLayer.values = await this.readLayer(fileLayer.path);
+    }
+    this.cliOverrides = cliOverrides;
+    this.config = this.merge();
 
-      logger.debug('Configuration loaded');
-    } catch (error) {
-      // Config file might not exist, use defaults
-      logger.debug('Using default configuration');
+    const projectLayer = this.fileLayers.find((fileLayer) => fileLayer.layer === 'project');
+    const ignored = PROJECT_IGNORED_PATHS.filter(
+      (path) => projectLayer?.values && getPath(projectLayer.values, path) !== undefined
+    );
+    if (ignored.length > 0) {
+      logger.warn(
+        `Ignoring ${ignored.join(', ')} in ${projectLayer!.path}; set them in ${this.configPath} or .taurus/config.local.yaml instead`
+      );
     }
 
+    const loaded = this.fileLayers.filter((fileLayer) => fileLayer.values);
+    logger.debug(
+      loaded.length > 0
+        ? `Configuration loaded from ${loaded.map((fileLayer) => fileLayer.path).join(', ')}`
+        : 'Using default configuration'
+    );
+
     // Validate configuration
-    this.validate();
+    this.validate(options.requireApiKey ?? true);
   }
 
+  /**
+   * Write the user config file. Only values set in that file (or with
+   * set()) are saved, not defaults or values from other layers.
+   */
   async save(): Promise<void> {
     try {
       await fs.mkdir(dirname(this.configPath), { recursive: true });
-      const content = yaml.stringify(this.config);
+      const content = yaml.stringify(this.userLayer().values ?? {});
       await fs.writeFile(this.configPath, content, 'utf-8');
       logger.success('Configuration saved');
     } catch (error) {
@@ -61,12 +279,62 @@ export class ConfigManager {
     return this.config;
   }
 
-  set(key: keyof Config, value: any): void {
-    (this.config as any)[key] = value;
+  /**
+   * A value by dotted path, e.g. `compaction.threshold`
+   */
+  getValue(path: string): unknown {
+    return getPath(this.config, path);
+  }
+
+  /**
+   * Set a value (by key or dotted path) in the user config and re-merge.
+   * Throws, leaving the config unchanged, if the result would be invalid.
+   */
+  set(key: keyof Config | string, value: any): void {
+    const userLayer = this.userLayer();
+    const previous = userLayer.values;
+    userLayer.values = structuredClone(previous ?? {});
+    setPath(userLayer.values, key, value);
+
+    try {
+      this.config = this.merge();
+      this.checkSchema();
+    } catch (error) {
+      userLayer.values = previous;
+      this.config = this.merge();
+      throw error;
+    }
+  }
+
+  /**
+   * Where a value came from. For a value inside an array or an object set
+   * as a whole, the origin of the enclosing value.
+   */
+  getOrigin(path: string): ConfigOrigin | undefined {
+    for (let current = path; current; current = parentPath(current)) {
+      const origin = this.origins.get(current);
+      if (origin) {
+        return origin;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Every value set by some layer, keyed by dotted path, in config order
+   */
+  getOrigins(): Map<string, ConfigOrigin> {
+    return new Map(this.origins);
+  }
+
+  getConfigDir(): string {
+    return dirname(this.configPath);
   }
 
-  private validate(): void {
-    if (!this.config.apiKey) {
+  private validate(requireApiKey: boolean): void {
+    this.checkSchema();
+
+    if (requireApiKey && !this.config.apiKey) {
       throw new Error(
         'ANTHROPIC_API_KEY not found. Please set it in your environment or config file.'
       );
@@ -77,7 +345,106 @@ export class ConfigManager {
     }
   }
 
-  getConfigDir(): string {
-    return dirname(this.configPath);
+  private checkSchema(): void {
+    const issues = validateConfig(this.config);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(
+        issues.map((issue) => ({ ...issue, origin: this.originForIssue(issue.path) }))
+      );
+    }
+  }
+
+  /**
+   * The layer to blame for a problem: the value's own origin, or for a
+   * missing key, whichever layer set its siblings
+   */
+  private originForIssue(path: string): ConfigOrigin | undefined {
+    const origin = this.getOrigin(path);
+    if (origin) {
+      return origin;
+    }
+
+    const parent = parentPath(path);
+    for (const [known, knownOrigin] of this.origins) {
+      if (known.startsWith(`${parent}.`)) {
+        return knownOrigin;
+      }
+    }
+    return undefined;
+  }
+
+  private userLayer(): FileLayer {
+    return this.fileLayers[0];
+  }
+
+  private merge(): Config {
+    const config: PlainObject = {};
+    this.origins = new Map();
+
+    mergeConfigLayer(
+      config,
+      { ...DEFAULT_CONFIG, apiKey: '' },
+      { layer: 'default', source: 'default' },
+      this.origins
+    );
+
+    for (const { layer, path, values } of this.fileLayers) {
+      if (values) {
+        mergeConfigLayer(
+          config,
+          layer === 'project' ? restrictProjectLayer(values, config) : values,
+          { layer, source: path },
+          this.origins
+        );
+      }
+    }
+
+    for (const [name, { path, type }] of Object.entries(CONFIG_ENV_VARIABLES)) {
+      const raw = this.env[name];
+      if (raw !== undefined && raw !== '') {
+        const values: PlainObject = {};
+        setPath(values, path, parseEnvValue(raw, type));
+        mergeConfigLayer(config, values, { layer: 'env', source: name }, this.origins);
+      }
+    }
+
+    mergeConfigLayer(
+      config,
+      this.cliOverrides,
+      { layer: 'cli', source: 'command line' },
+      this.origins
+    );
+
+    return config as Config;
+  }
+
+  /**
+   * A config file's contents, or undefined if it does not exist
+   */
+  private async readLayer(path: string): Promise<PlainObject | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(path, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw new Error(`Cannot read ${path}: ${error.message}`);
+    }
+
+    let values: unknown;
+    try {
+      values = yaml.parse(content);
+    } catch (error: any) {
+      throw new Error(`Invalid YAML in ${path}: ${error.message}`);
+    }
+
+    if (values === null || values === undefined) {
+      return {};
+    }
+    if (!isPlainObject(values)) {
+      throw new Error(`${path} must contain a mapping of config keys`);
+    }
+    return values;
   }
 }
@@ -0,0 +1,587 @@
+/**
+ * Configuration schema - JSON Schema for the Config interface, used to
+ * reject misspelled keys and mistyped values in config files
+ */
+
+import { Ajv, ErrorObject } from 'ajv';
+
+type Schema = Record<string, any>;
+
+const string: Schema = { type: 'string' };
+const number: Schema = { type: 'number' };
+const integer: Schema = { type: 'integer' };
+const boolean: Schema = { type: 'boolean' };
+
+function oneOf(...values: string[]): Schema {
+  return { type: 'string', enum: values };
+}
+
+function arrayOf(items: Schema): Schema {
+  return { type: 'array', items };
+}
+
+function recordOf(values: Schema): Schema {
+  return { type: 'object', additionalProperties: values };
+}
+
+/**
+ * A closed object: unknown keys are errors. Keys listed in `optional` may be
+ * left out.
+ */
+function object(properties: Record<string, Schema>, optional: string[] = []): Schema {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+    additionalProperties: false,
+  };
+}
+
+const strings = arrayOf(string);
+const schedule = oneOf('immediately', 'daily', 'weekly', 'monthly', 'manual');
+const language = oneOf('typescript', 'javascript', 'python', 'java', 'go', 'rust');
+const providerModels = (key: 'apiKey' | 'baseUrl') => object({ [key]: string, models: strings });
+const atlassian = object({ url: string, email: string, apiToken: string });
+
+export const CONFIG_SCHEMA: Schema = object(
+  {
+    apiKey: string,
+    model: string,
+    maxTokens: integer,
+    temperature: number,
+    workingDirectory: string,
+    sessionDirectory: string,
+    hooksEnabled: boolean,
+    mcpServers: arrayOf(
+      object(
+        {
+          name: string,
+          transport: oneOf('stdio', 'http'),
+          command: string,
+          args: strings,
+          env: recordOf(string),
+          url: string,
+          headers: recordOf(string),
+        },
+        ['command', 'args', 'env', 'url', 'headers']
+      )
+    ),
+
+    providers: object(
+      {
+        anthropic: providerModels('apiKey'),
+        openai: providerModels('apiKey'),
+        ollama: providerModels('baseUrl'),
+      },
+      ['anthropic', 'openai', 'ollama']
+    ),
+
+    collaboration: object({ enabled: boolean, serverPort: integer, serverHost: string }, [
+      'serverPort',
+      'serverHost',
+    ]),
+
+    integrations: object(
+      {
+        jira: atlassian,
+        github: object({ token: string }),
+        slack: object({ token: string, lookbackDays: integer }, ['lookbackDays']),
+        confluence: atlassian,
+      },
+      ['jira', 'github', 'slack', 'confluence']
+    ),
+
+    replay: object({ enabled: boolean, snapshotInterval: integer, maxSnapshots: integer }, [
+      'snapshotInterval',
+      'maxSnapshots',
+    ]),
+
+    scheduler: object(
+      {
+        enabled: boolean,
+        tasks: arrayOf(
+          object({
+            name: string,
+            description: string,
+            schedule: string,
+            type: string,
+            enabled: boolean,
+          })
+        ),
+      },
+      ['tasks']
+    ),
+
+    permissions: object(
+      {
+        mode: oneOf('ask', 'accept-edits', 'plan-only', 'bypass'),
+        allow: strings,
+        deny: strings,
+      },
+      ['mode', 'allow', 'deny']
+    ),
+
+    sandbox: object(
+      {
+        enabled: boolean,
+        backend: oneOf('none', 'bubblewrap', 'unshare'),
+        allowNetwork: boolean,
+        writablePaths: strings,
+        envPassthrough: strings,
+      },
+      ['enabled', 'backend', 'allowNetwork', 'writablePaths', 'envPassthrough']
+    ),
+
+    webSearch: object(
+      {
+        provider: oneOf('searxng', 'brave', 'json'),
+        url: string,
+        apiKey: string,
+        maxResults: integer,
+        timeout: integer,
+        queryParam: string,
+        resultsPath: string,
+        fields: object({ title: string, url: string, snippet: string }, [
+          'title',
+          'url',
+          'snippet',
+        ]),
+        headers: recordOf(string),
+      },
+      ['url', 'apiKey', 'maxResults', 'timeout', 'queryParam', 'resultsPath', 'fields', 'headers']
+    ),
+
+    compaction: object(
+      {
+        enabled: boolean,
+        contextWindow: integer,
+        threshold: number,
+        preserveRecentTurns: integer,
+      },
+      ['enabled', 'contextWindow', 'threshold', 'preserveRecentTurns']
+    ),
+
+    memory: object(
+      {
+        enabled: boolean,
+        maxFileChars: integer,
+        maxTotalChars: integer,
+        maxImportDepth: integer,
+      },
+      ['enabled', 'maxFileChars', 'maxTotalChars', 'maxImportDepth']
+    ),
+
+    codeReview: object(
+      {
+        enabled: boolean,
+        autoReview: boolean,
+        reviewOn: arrayOf(oneOf('pull_request', 'commit', 'save')),
+        checks: arrayOf(
+          oneOf('style', 'security', 'performance', 'testing', 'documentation', 'best-practices')
+        ),
+        severity: object({ blockOnCritical: boolean, blockOnHigh: boolean, warnOnMedium: boolean }),
+        excludePatterns: strings,
+        includePatterns: strings,
+      },
+      ['excludePatterns', 'includePatterns']
+    ),
+
+    dependencyManager: object({
+      enabled: boolean,
+      packageManager: oneOf('npm', 'yarn', 'pnpm'),
+      autoUpdate: object({ security: schedule, patch: schedule, minor: schedule, major: schedule }),
+      policies: object({
+        allowedLicenses: strings,
+        blockedLicenses: strings,
+        blockedPackages: strings,
+      }),
+      optimization: object(
+        { bundleSizeLimit: number, suggestAlternatives: boolean, detectUnused: boolean },
+        ['bundleSizeLimit']
+      ),
+    }),
+
+    documentation: object({
+      enabled: boolean,
+      output: string,
+      formats: arrayOf(oneOf('markdown', 'html', 'pdf', 'json')),
+      features: object({
+        apiReference: boolean,
+        tutorials: boolean,
+        examples: boolean,
+        diagrams: boolean,
+        changelog: boolean,
+      }),
+    }),
+
+    codeGeneration: object({
+      enabled: boolean,
+      defaultLanguage: language,
+      quality: oneOf('fast', 'balanced', 'thorough'),
+      templates: object({ enabled: boolean, customTemplatesPath: string }, ['customTemplatesPath']),
+      validation: object({ syntaxCheck: boolean, linting: boolean, typeChecking: boolean }),
+      testing: object({ generateTests: boolean, testFramework: string, coverageTarget: number }),
+      documentation: object({
+        generateDocs: boolean,
+        docStyle: oneOf('jsdoc', 'sphinx', 'javadoc', 'godoc', 'inline'),
+      }),
+    }),
+
+    devEnvironment: object({
+      enabled: boolean,
+      projectName: string,
+      services: arrayOf(
+        object(
+          {
+            name: string,
+            type: oneOf(
+              'database',
+              'cache',
+              'message-queue',
+              'search',
+              'storage',
+              'api',
+              'web',
+              'worker',
+              'custom'
+            ),
+            image: string,
+            ports: arrayOf(object({ host: integer, container: integer })),
+            environment: recordOf(string),
+            volumes: strings,
+            depends_on: strings,
+          },
+          ['image', 'ports', 'environment', 'volumes', 'depends_on']
+        )
+      ),
+      autoStart: boolean,
+      healthCheck: object({
+        enabled: boolean,
+        interval: integer,
+        timeout: integer,
+        retries: integer,
+      }),
+    }),
+
+    knowledgeBase: object({
+      enabled: boolean,
+      indexPath: string,
+      embeddingProvider: oneOf('anthropic', 'openai', 'local'),
+      chunkSize: integer,
+      chunkOverlap: integer,
+      maxResults: integer,
+      similarityThreshold: number,
+      indexing: object({
+        includePatterns: strings,
+        excludePatterns: strings,
+        languages: strings,
+        parseComments: boolean,
+        parseDocstrings: boolean,
+      }),
+    }),
+
+    performanceProfiler: object({
+      enabled: boolean,
+      profileTypes: arrayOf(oneOf('cpu', 'memory', 'runtime', 'network', 'database')),
+      samplingInterval: number,
+      reportPath: string,
+      optimization: object({
+        enabled: boolean,
+        level: oneOf('aggressive', 'moderate', 'conservative'),
+        autoApply: boolean,
+      }),
+      benchmarking: object({ enabled: boolean, iterations: integer, warmupRuns: integer }),
+      monitoring: object({
+        realTime: boolean,
+        alertThresholds: object({ cpu: number, memory: number, responseTime: number }),
+      }),
+    }),
+
+    codeTranslator: object({
+      enabled: boolean,
+      quality: oneOf('fast', 'balanced', 'accurate'),
+      preserveComments: boolean,
+      preserveStyles: boolean,
+      validation: object({ enabled: boolean, compileCheck: boolean }),
+      optimization: object({ idiomaticCode: boolean, modernSyntax: boolean }),
+    }),
+
+    apiGenerator: object({
+      enabled: boolean,
+      defaultLanguage: language,
+      generateTests: boolean,
+      generateDocs: boolean,
+      authentication: object(
+        {
+          type: oneOf('none', 'basic', 'bearer', 'api-key', 'oauth2'),
+          location: oneOf('header', 'query', 'cookie'),
+          name: string,
+        },
+        ['location', 'name']
+      ),
+      client: object({
+        includeTypes: boolean,
+        includeValidation: boolean,
+        includeRetry: boolean,
+        timeout: integer,
+      }),
+      testing: object({ framework: string, includeMocks: boolean, coverageTarget: number }),
+    }),
+
+    testGenerator: object({
+      enabled: boolean,
+      framework: oneOf(
+        'jest',
+        'mocha',
+        'vitest',
+        'pytest',
+        'unittest',
+        'junit',
+        'testng',
+        'go-test',
+        'rust-test',
+        'rspec'
+      ),
+      testTypes: arrayOf(
+        oneOf('unit', 'integration', 'e2e', 'functional', 'performance', 'security', 'snapshot')
+      ),
+      coverage: object({
+        enabled: boolean,
+        threshold: object({
+          statements: number,
+          branches: number,
+          functions: number,
+          lines: number,
+        }),
+        reportFormats: arrayOf(oneOf('text', 'html', 'json', 'lcov', 'cobertura', 'clover')),
+        includeUntested: boolean,
+        trackBranches: boolean,
+      }),
+      generation: object({
+        generateMocks: boolean,
+        generateFixtures: boolean,
+        generateHelpers: boolean,
+        edgeCases: boolean,
+        errorCases: boolean,
+        asyncTests: boolean,
+      }),
+      quality: object({
+        minAssertions: integer,
+        requireDescriptions: boolean,
+        isolateTests: boolean,
+        deterministicTests: boolean,
+      }),
+    }),
+
+    securityScanner: object({
+      enabled: boolean,
+      scanTypes: arrayOf(
+        oneOf(
+          'static-analysis',
+          'dependency-scan',
+          'secret-detection',
+          'configuration-audit',
+          'best-practices'
+        )
+      ),
+      severity: object({
+        minimum: oneOf('critical', 'high', 'medium', 'low', 'info'),
+        failOnSeverity: arrayOf(oneOf('critical', 'high', 'medium', 'low')),
+      }),
+      staticAnalysis: object(
+        { enabled: boolean, rules: strings, customRules: strings, excludePatterns: strings },
+        ['customRules', 'excludePatterns']
+      ),
+      dependencyScanning: object(
+        {
+          enabled: boolean,
+          sources: arrayOf(oneOf('npm-audit', 'snyk', 'osv', 'github-advisory')),
+          autoUpdate: boolean,
+          excludePackages: strings,
+        },
+        ['excludePackages']
+      ),
+      secretDetection: object({ enabled: boolean, patterns: strings, excludeFiles: strings }, [
+        'excludeFiles',
+      ]),
+      reporting: object({
+        formats: arrayOf(oneOf('json', 'html', 'markdown', 'sarif', 'csv')),
+        outputDir: string,
+        includeRemediation: boolean,
+        groupBy: oneOf('severity', 'type', 'file'),
+      }),
+    }),
+
+    databaseManager: object({
+      enabled: boolean,
+      database: oneOf('postgresql', 'mysql', 'sqlite', 'mongodb', 'mariadb', 'mssql', 'oracle'),
+      schemaLanguage: oneOf('sql', 'typescript', 'prisma', 'sequelize', 'typeorm', 'mongoose'),
+      migrations: object({
+        directory: string,
+        tableName: string,
+        generateTimestamp: boolean,
+        transactional: boolean,
+        lockTable: boolean,
+      }),
+      schema: object({
+        directory: string,
+        includeViews: boolean,
+        includeIndexes: boolean,
+        includeTriggers: boolean,
+        namingConvention: oneOf('snake_case', 'camelCase', 'PascalCase'),
+      }),
+      sync: object({
+        enabled: boolean,
+        safe: boolean,
+        dropUnused: boolean,
+        backupBeforeSync: boolean,
+      }),
+    }),
+  },
+  [
+    'providers',
+    'collaboration',
+    'integrations',
+    'replay',
+    'scheduler',
+    'permissions',
+    'sandbox',
+    'webSearch',
+    'compaction',
+    'memory',
+    'codeReview',
+    'dependencyManager',
+    'documentation',
+    'codeGeneration',
+    'devEnvironment',
+    'knowledgeBase',
+    'performanceProfiler',
+    'codeTranslator',
+    'apiGenerator',
+    'testGenerator',
+    'securityScanner',
+    'databaseManager',
+  ]
+);
+
+/**
+ * One problem with a config value. `path` is dotted, with array indexes in
+ * brackets, e.g. `mcpServers[0].transport`.
+ */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+const validateSchema = new Ajv({ allErrors: true, strict: false }).compile(CONFIG_SCHEMA);
+
+/**
+ * Join path segments the way issues and origins are keyed
+ */
+export function formatConfigPath(segments: Array<string | number>): string {
+  return segments
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+function instanceSegments(instancePath: string): Array<string | number> {
+  return instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/**
+ * The schema node for a path, to suggest keys that do exist
+ */
+function schemaAt(segments: Array<string | number>): Schema | undefined {
+  let node: Schema | undefined = CONFIG_SCHEMA;
+  for (const segment of segments) {
+    node = typeof segment === 'number' ? node?.items : node?.properties?.[segment];
+  }
+  return node;
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function suggestKey(key: string, known: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(key.length / 3)) + 1;
+  for (const candidate of known) {
+    const distance = editDistance(key, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function toIssue(error: ErrorObject): ConfigIssue {
+  const segments = instanceSegments(error.instancePath);
+
+  switch (error.keyword) {
+    case 'additionalProperties': {
+      const key: string = error.params.additionalProperty;
+      const known = Object.keys(schemaAt(segments)?.properties ?? {});
+      const suggestion = suggestKey(key, known);
+      return {
+        path: formatConfigPath([...segments, key]),
+        message: `unknown key${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`,
+      };
+    }
+    case 'required':
+      return {
+        path: formatConfigPath([...segments, error.params.missingProperty]),
+        message: 'is required',
+      };
+    case 'enum':
+      return {
+        path: formatConfigPath(segments),
+        message: `must be one of: ${error.params.allowedValues.join(', ')}`,
+      };
+    case 'type':
+      return { path: formatConfigPath(segments), message: `must be ${error.params.type}` };
+    default:
+      return { path: formatConfigPath(segments), message: error.message ?? 'is invalid' };
+  }
+}
+
+/**
+ * Check a merged config against the schema. Returns every problem found.
+ */
+export function validateConfig(config: unknown): ConfigIssue[] {
+  if (validateSchema(config)) {
+    return [];
+  }
+
+  const issues = (validateSchema.errors ?? []).map(toIssue);
+  const seen = new Set<string>();
+  return issues.filter((issue) => {
+    const key = `${issue.path}\u0000${issue.message}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
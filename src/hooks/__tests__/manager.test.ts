@@ -0,0 +1,150 @@
+/**
+ * Tests for the hook protocol
+ */
+
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as yaml from 'yaml';
+import { HooksManager } from '../manager.js';
+
+describe('HooksManager', () => {
+  let dir: string;
+
+  async function createManager(hooks: Record<string, any>[]): Promise<HooksManager> {
+    writeFileSync(join(dir, 'hooks.yaml'), yaml.stringify({ hooks }));
+    const manager = new HooksManager(dir, dir);
+    await manager.loadHooks();
+    return manager;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'taurus-hooks-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should pass the payload as JSON on stdin', async () => {
+    const manager = await createManager([
+      { name: 'record', event: 'before-tool-call', command: 'cat > payload.json' },
+    ]);
+
+    const result = await manager.trigger('before-tool-call', {
+      sessionId: 'session_1',
+      tool: 'Bash',
+      input: { command: 'ls' },
+    });
+
+    expect(result).toEqual({});
+    expect(JSON.parse(readFileSync(join(dir, 'payload.json'), 'utf-8'))).toEqual({
+      event: 'before-tool-call',
+      cwd: dir,
+      sessionId: 'session_1',
+      tool: 'Bash',
+      input: { command: 'ls' },
+    });
+  });
+
+  it('should block on exit code 2 with stderr as the reason', async () => {
+    const manager = await createManager([
+      {
+        name: 'no-push-to-main',
+        event: 'before-tool-call',
+        matcher: 'Bash',
+        command: `grep -q 'git push[^"]*main' && { echo 'Pushes to main are not allowed' >&2; exit 2; }; exit 0`,
+      },
+    ]);
+
+    const push = await manager.trigger('before-tool-call', {
+      tool: 'Bash',
+      input: { command: 'git push origin main' },
+    });
+    const status = await manager.trigger('before-tool-call', {
+      tool: 'Bash',
+      input: { command: 'git status' },
+    });
+
+    expect(push).toEqual({ decision: 'deny', reason: 'Pushes to main are not allowed' });
+    expect(status).toEqual({});
+  });
+
+  it('should only run tool hooks whose matcher fits the tool name', async () => {
+    const manager = await createManager([
+      { name: 'edits', event: 'before-tool-call', matcher: 'Edit|Write', command: 'exit 2' },
+      { name: 'bad', event: 'before-tool-call', matcher: '(', command: 'exit 2' },
+    ]);
+
+    expect(manager.getHooks().map((hook) => hook.name)).toEqual(['edits']);
+    expect((await manager.trigger('before-tool-call', { tool: 'Write' })).decision).toBe('deny');
+    expect((await manager.trigger('before-tool-call', { tool: 'MultiEdit' })).decision).toBe(
+      undefined
+    );
+  });
+
+  it('should chain input rewrites and combine decisions and context', async () => {
+    const reply = (value: Record<string, any>) => `echo '${JSON.stringify(value)}'`;
+    const manager = await createManager([
+      {
+        name: 'rewrite',
+        event: 'user-prompt-submit',
+        command: reply({ decision: 'allow', input: 'rewritten', context: 'Branch: main' }),
+      },
+      {
+        name: 'check',
+        event: 'user-prompt-submit',
+        command: `grep -q '"input":"rewritten"' && ${reply({ decision: 'ask', reason: 'Please confirm', context: 'Tests pass' })}`,
+      },
+      {
+        name: 'wrong-shape',
+        event: 'user-prompt-submit',
+        command: reply({ input: { text: 'not a prompt' } }),
+      },
+    ]);
+
+    const result = await manager.trigger('user-prompt-submit', { input: 'original' });
+
+    expect(result).toEqual({
+      decision: 'ask',
+      reason: 'Please confirm',
+      input: 'rewritten',
+      context: 'Branch: main\n\nTests pass',
+    });
+  });
+
+  it('should load project hooks after user hooks', async () => {
+    const home = join(dir, 'home');
+    const project = join(dir, 'project');
+    mkdirSync(home);
+    mkdirSync(join(project, '.taurus'), { recursive: true });
+    const hook = (name: string) => ({
+      name,
+      event: 'stop',
+      command: `echo '{"context":"${name}"}'`,
+    });
+    writeFileSync(join(home, 'hooks.yaml'), yaml.stringify({ hooks: [hook('user')] }));
+    writeFileSync(
+      join(project, '.taurus', 'hooks.yaml'),
+      yaml.stringify({ hooks: [hook('project')] })
+    );
+
+    const manager = new HooksManager(home, project);
+    await manager.loadHooks();
+
+    expect(manager.getHooks().map((h) => h.name)).toEqual(['user', 'project']);
+    expect((await manager.trigger('stop', { output: 'x'.repeat(200_000) })).context).toBe(
+      'user\n\nproject'
+    );
+  });
+
+  it('should ignore failing and timed out hooks', async () => {
+    const manager = await createManager([
+      { name: 'fails', event: 'session-start', command: 'echo broken >&2; exit 1' },
+      { name: 'slow', event: 'session-start', command: 'sleep 5', timeout: 0.2 },
+      { name: 'context', event: 'session-start', command: `echo '{"context":"ready"}'` },
+    ]);
+
+    expect(await manager.trigger('session-start')).toEqual({ context: 'ready' });
+  });
+});
@@ -1,26 +1,79 @@
 /**
  * Hooks manager - Handle event-based hooks
+ *
+ * A hook is a shell command run on an event. It receives the event payload
+ * as JSON on stdin (and as TAURUS_* environment variables). Exit code 0
+ * succeeds, and a JSON object printed on stdout can allow, deny or ask about
+ * the action, rewrite its input or add context. Exit code 2 blocks the
+ * action with stderr as the reason. Any other failure is logged and ignored.
  */
 
-import { Hook, HookEvent } from '../types/index.js';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { Hook, HookDecision, HookEvent, HookResult } from '../types/index.js';
+import { spawn } from 'child_process';
 import { promises as fs } from 'fs';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { logger } from '../utils/logger.js';
 import * as yaml from 'yaml';
 
-const execAsync = promisify(exec);
+const DEFAULT_HOOK_TIMEOUT = 30;
+
+/** Exit code a hook uses to block the action */
+const BLOCK_EXIT_CODE = 2;
+
+const MAX_ENV_VALUE_LENGTH = 32 * 1024;
+
+const DECISIONS: HookDecision[] = ['allow', 'deny', 'ask'];
+
+interface CommandResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a hook applies to a tool. Hooks without a matcher, or with "*",
+ * apply to every tool.
+ */
+export function matchesTool(hook: Hook, toolName: string): boolean {
+  if (!hook.matcher || hook.matcher === '*') {
+    return true;
+  }
+  return new RegExp(`^(?:${hook.matcher})$`).test(toolName);
+}
 
 export class HooksManager {
   private hooks: Map<HookEvent, Hook[]> = new Map();
   private enabled: boolean = true;
 
-  constructor(private configDir: string) {}
+  constructor(
+    private configDir: string,
+    private workingDirectory: string = process.cwd()
+  ) {}
 
+  /**
+   * Load ~/.taurus/hooks.yaml, then the project's .taurus/hooks.yaml. Hooks
+   * from both run, user hooks first.
+   */
   async loadHooks(): Promise<void> {
+    // Clear existing hooks
+    this.hooks.clear();
+
+    const files = [
+      join(this.configDir, 'hooks.yaml'),
+      join(this.workingDirectory, '.taurus', 'hooks.yaml'),
+    ];
+    for (const hooksFile of new Set(files.map((file) => resolve(file)))) {
+      await this.loadHooksFile(hooksFile);
+    }
+  }
+
+  private async loadHooksFile(hooksFile: string): Promise<void> {
     try {
-      const hooksFile = join(this.configDir, 'hooks.yaml');
       const content = await fs.readFile(hooksFile, 'utf-8');
       const config = yaml.parse(content);
 
@@ -28,9 +81,6 @@ export class HooksManager {
         return;
       }
 
-      // Clear existing hooks
-      this.hooks.clear();
-
       // Load hooks from config
       for (const hookConfig of config.hooks) {
         const hook: Hook = {
@@ -38,8 +88,19 @@ export class HooksManager {
           command: hookConfig.command,
           event: hookConfig.event as HookEvent,
           enabled: hookConfig.enabled !== false,
+          matcher: hookConfig.matcher,
+          timeout: hookConfig.timeout,
         };
 
+        if (hook.matcher) {
+          try {
+            new RegExp(hook.matcher);
+          } catch {
+            logger.warn(`Hook "${hook.name}" skipped: invalid matcher "${hook.matcher}"`);
+            continue;
+          }
+        }
+
         if (!this.hooks.has(hook.event)) {
           this.hooks.set(hook.event, []);
         }
@@ -47,61 +108,200 @@ export class HooksManager {
         this.hooks.get(hook.event)!.push(hook);
       }
 
-      logger.debug(`Loaded ${config.hooks.length} hooks`);
+      logger.debug(`Loaded ${config.hooks.length} hooks from ${hooksFile}`);
     } catch (error) {
       // Hooks file might not exist
-      logger.debug('No hooks configuration found');
+      logger.debug(`No hooks configuration found at ${hooksFile}`);
     }
   }
 
-  async trigger(event: HookEvent, context: Record<string, any> = {}): Promise<void> {
+  /**
+   * Run the hooks for an event one after another and combine their replies.
+   * Each hook sees the input as rewritten by the hooks before it. A denial
+   * stops the remaining hooks; otherwise "ask" wins over "allow".
+   */
+  async trigger(event: HookEvent, context: Record<string, any> = {}): Promise<HookResult> {
+    const result: HookResult = {};
     if (!this.enabled) {
-      return;
+      return result;
     }
 
     const eventHooks = this.hooks.get(event) || [];
-    const enabledHooks = eventHooks.filter((h) => h.enabled);
+    const enabledHooks = eventHooks.filter(
+      (h) => h.enabled && (typeof context.tool !== 'string' || matchesTool(h, context.tool))
+    );
 
     if (enabledHooks.length === 0) {
-      return;
+      return result;
     }
 
     logger.debug(`Triggering ${enabledHooks.length} hooks for event: ${event}`);
 
+    const payload: Record<string, any> = { event, cwd: this.workingDirectory, ...context };
+    const contexts: string[] = [];
+
     for (const hook of enabledHooks) {
+      let reply: HookResult;
       try {
-        await this.executeHook(hook, context);
+        reply = await this.executeHook(hook, payload);
       } catch (error) {
-        logger.error(`Hook "${hook.name}" failed: ${error instanceof Error ? error.message : String(error)}`);
+        logger.error(
+          `Hook "${hook.name}" failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+        continue;
+      }
+
+      if (reply.input !== undefined) {
+        payload.input = result.input = reply.input;
+      }
+      if (reply.context) {
+        contexts.push(reply.context);
+      }
+      if (reply.decision === 'deny') {
+        result.decision = 'deny';
+        result.reason = reply.reason ?? `Blocked by hook "${hook.name}"`;
+        break;
+      }
+      if (reply.decision === 'ask' || (reply.decision === 'allow' && !result.decision)) {
+        result.decision = reply.decision;
+        result.reason = reply.reason;
       }
     }
+
+    if (contexts.length > 0) {
+      result.context = contexts.join('\n\n');
+    }
+    return result;
   }
 
-  private async executeHook(hook: Hook, context: Record<string, any>): Promise<void> {
+  private async executeHook(hook: Hook, payload: Record<string, any>): Promise<HookResult> {
     logger.debug(`Executing hook: ${hook.name}`);
 
-    // Prepare environment variables from context
+    // Prepare environment variables from context. Large values such as tool
+    // output are only sent on stdin, as the OS limits variable size.
     const env = { ...process.env };
-    for (const [key, value] of Object.entries(context)) {
-      env[`TAURUS_${key.toUpperCase()}`] = String(value);
+    for (const [key, value] of Object.entries(payload)) {
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      if (value !== undefined && text.length <= MAX_ENV_VALUE_LENGTH) {
+        env[`TAURUS_${key.toUpperCase()}`] = text;
+      }
     }
 
+    const timeout = hook.timeout ?? DEFAULT_HOOK_TIMEOUT;
+    const { code, stdout, stderr, timedOut } = await this.runCommand(
+      hook.command,
+      JSON.stringify(payload),
+      env,
+      timeout * 1000
+    );
+
+    if (timedOut) {
+      throw new Error(`Timed out after ${timeout}s`);
+    }
+    if (code === BLOCK_EXIT_CODE) {
+      return { decision: 'deny', reason: stderr.trim() || undefined };
+    }
+    if (code !== 0) {
+      throw new Error(`Command failed with exit code ${code}${stderr ? `: ${stderr.trim()}` : ''}`);
+    }
+
+    if (stderr) {
+      logger.warn(`Hook "${hook.name}" stderr: ${stderr}`);
+    }
+    return this.parseReply(hook, stdout, payload.input);
+  }
+
+  /**
+   * Read a JSON reply from stdout. Anything else is just output to show.
+   */
+  private parseReply(hook: Hook, stdout: string, input: unknown): HookResult {
+    const text = stdout.trim();
+    if (!text.startsWith('{')) {
+      if (text) {
+        logger.info(`Hook "${hook.name}" output: ${text}`);
+      }
+      return {};
+    }
+
+    let reply: Record<string, any>;
     try {
-      const { stdout, stderr } = await execAsync(hook.command, {
-        env,
-        timeout: 30000, // 30 second timeout
-        cwd: process.cwd(),
-      });
+      reply = JSON.parse(text);
+    } catch {
+      logger.warn(`Hook "${hook.name}" printed invalid JSON; ignoring it`);
+      return {};
+    }
 
-      if (stdout) {
-        logger.info(`Hook "${hook.name}" output: ${stdout}`);
+    const result: HookResult = {};
+    if (reply.decision !== undefined) {
+      if (DECISIONS.includes(reply.decision)) {
+        result.decision = reply.decision;
+      } else {
+        logger.warn(`Hook "${hook.name}" returned unknown decision "${reply.decision}"`);
       }
-      if (stderr) {
-        logger.warn(`Hook "${hook.name}" stderr: ${stderr}`);
+    }
+    if (typeof reply.reason === 'string') {
+      result.reason = reply.reason;
+    }
+    if (reply.input !== undefined) {
+      // A rewrite must keep the shape of what it replaces
+      const sameShape =
+        typeof input === 'string' ? typeof reply.input === 'string' : isPlainObject(reply.input);
+      if (sameShape && input !== undefined) {
+        result.input = reply.input;
+      } else {
+        logger.warn(`Hook "${hook.name}" returned input that does not fit this event; ignoring it`);
       }
-    } catch (error: any) {
-      throw new Error(`Command failed: ${error.message}`);
     }
+    if (typeof reply.context === 'string' && reply.context.trim()) {
+      result.context = reply.context.trim();
+    }
+    return result;
+  }
+
+  private runCommand(
+    command: string,
+    stdin: string,
+    env: NodeJS.ProcessEnv,
+    timeoutMs: number
+  ): Promise<CommandResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, {
+        shell: true,
+        cwd: this.workingDirectory,
+        env,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        // Own process group, so a timeout also stops anything the hook started
+        detached: true,
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          // Process group already gone
+        }
+        resolve({ code: null, stdout, stderr, timedOut });
+      }, timeoutMs);
+
+      child.stdout.on('data', (chunk) => (stdout += chunk));
+      child.stderr.on('data', (chunk) => (stderr += chunk));
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        resolve({ code, stdout, stderr, timedOut });
+      });
+
+      // Hooks that exit without reading stdin close the pipe early
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(stdin);
+    });
   }
 
   setEnabled(enabled: boolean): void {
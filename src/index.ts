@@ -7,17 +7,25 @@
 
 import { Command } from 'commander';
 import { ConfigManager } from './config/manager.js';
+import { formatConfigOrigins } from './cli/config-origins.js';
+import { Config } from './types/index.js';
 import { SessionManager } from './session/manager.js';
 import { HooksManager } from './hooks/manager.js';
 import { ClaudeClient } from './api/claude.js';
-import { createToolRegistry } from './tools/index.js';
+import { createToolRegistry, SkillTool, SlashCommandTool } from './tools/index.js';
 import { AgentOrchestrator } from './agent/orchestrator.js';
 import { REPL } from './cli/repl.js';
+import { formatSessionSummary, orderSessionTree } from './cli/session-list.js';
 import { McpManager } from './mcp/manager.js';
+import { CompactionManager } from './compaction/index.js';
+import { MemoryManager } from './memory/index.js';
+import { PermissionManager, PERMISSION_MODES } from './permissions/index.js';
+import { Sandbox } from './sandbox/index.js';
 import { logger } from './utils/logger.js';
 import { join } from 'path';
 import { homedir } from 'os';
 import dotenv from 'dotenv';
+import * as yaml from 'yaml';
 
 // Load environment variables
 dotenv.config();
@@ -32,19 +40,28 @@ program
 program
   .command('chat', { isDefault: true })
   .description('Start interactive chat session (default)')
-  .option('-m, --model <model>', 'Claude model to use', 'claude-sonnet-4-5-20250929')
+  .option('-m, --model <model>', 'Claude model to use')
   .option('-s, --session <id>', 'Resume a previous session')
+  .option('-c, --continue', 'Resume the most recent session in this directory')
   .option('--no-hooks', 'Disable hooks')
+  .option('--permission-mode <mode>', `Permission mode (${PERMISSION_MODES.join(', ')})`)
   .action(async (options) => {
     try {
-      // Initialize configuration
-      const configManager = new ConfigManager();
-      await configManager.load();
-
+      // Initialize configuration; flags override every config layer
+      const cliOverrides: Partial<Config> = {};
       if (options.model) {
-        configManager.set('model', options.model);
+        cliOverrides.model = options.model;
+      }
+      if (!options.hooks) {
+        cliOverrides.hooksEnabled = false;
+      }
+      if (options.permissionMode) {
+        cliOverrides.permissions = { mode: options.permissionMode };
       }
 
+      const configManager = new ConfigManager();
+      await configManager.load(cliOverrides);
+
       const config = configManager.get();
 
       // Initialize managers
@@ -54,47 +71,81 @@ program
       // Create or resume session
       if (options.session) {
         await sessionManager.loadSession(options.session);
+      } else if (options.continue) {
+        const latest = await sessionManager.findLatestSession(process.cwd());
+        if (latest) {
+          await sessionManager.loadSession(latest.id);
+          logger.info(`Continuing "${latest.title}" (${latest.messageCount} messages)`);
+        } else {
+          logger.info('No previous session in this directory; starting a new one');
+          sessionManager.createSession();
+        }
       } else {
         sessionManager.createSession();
       }
 
       // Initialize hooks
       const configDir = join(homedir(), '.taurus');
-      const hooksManager = new HooksManager(configDir);
+      const hooksManager = new HooksManager(configDir, config.workingDirectory);
       await hooksManager.loadHooks();
 
-      if (!options.hooks) {
+      if (!config.hooksEnabled) {
         hooksManager.setEnabled(false);
       }
 
       // Initialize Claude client
       const claudeClient = new ClaudeClient(config);
 
-      // Initialize tool registry
-      const toolRegistry = createToolRegistry();
+      // Initialize tool registry (Bash runs inside the sandbox when enabled)
+      const sandbox = new Sandbox(config.sandbox ?? {});
+      const toolRegistry = createToolRegistry({
+        sandbox,
+        client: claudeClient,
+        webSearch: config.webSearch,
+      });
+
+      // Load custom slash commands and skills; project files override user ones
+      const commandTool = toolRegistry.get('SlashCommand');
+      const skillTool = toolRegistry.get('Skill');
+      for (const dir of [configDir, join(config.workingDirectory, '.taurus')]) {
+        if (commandTool instanceof SlashCommandTool) {
+          await commandTool.loadCommands(join(dir, 'commands'));
+        }
+        if (skillTool instanceof SkillTool) {
+          await skillTool.loadSkills(join(dir, 'skills'));
+        }
+      }
 
       // Initialize MCP servers
       const mcpManager = new McpManager(config.mcpServers, toolRegistry);
       await mcpManager.initialize();
 
+      // Initialize context compaction
+      const compactionManager = new CompactionManager(config.compaction ?? {}, claudeClient);
+
+      // Load TAURUS.md memory files
+      const memoryManager = new MemoryManager(config.memory ?? {}, config.workingDirectory);
+      await memoryManager.load();
+
+      // Initialize tool permissions
+      const permissionManager = new PermissionManager(
+        config.permissions ?? {},
+        config.workingDirectory
+      );
+
       // Create orchestrator
       const orchestrator = new AgentOrchestrator(
         claudeClient,
         toolRegistry,
         sessionManager,
         hooksManager,
-        configManager
+        configManager,
+        { mcpManager, compactionManager, permissionManager, memoryManager }
       );
 
-      // Start REPL
+      // Start REPL (MCP servers are shut down with the orchestrator)
       const repl = new REPL(orchestrator);
       await repl.start();
-
-      // Cleanup on exit
-      process.on('SIGINT', async () => {
-        await mcpManager.shutdown();
-        process.exit(0);
-      });
     } catch (error: any) {
       logger.error(`Failed to start: ${error.message}`);
       process.exit(1);
@@ -116,8 +167,9 @@ program
 
       // Create example config
       const exampleConfig = `# Taurus CLI Configuration
-# Place this file at ~/.taurus/config.yaml for global settings
-# or .taurus/config.yaml for project-specific settings
+# Place this file at ~/.taurus/config.yaml for global settings,
+# .taurus/config.yaml for project-specific settings,
+# or .taurus/config.local.yaml for your own untracked overrides
 
 # Claude API settings
 model: claude-sonnet-4-5-20250929
@@ -188,24 +240,74 @@ program
   .command('config')
   .description('Manage configuration')
   .argument('<action>', 'Action: get, set, show')
-  .argument('[key]', 'Configuration key')
-  .argument('[value]', 'Configuration value')
-  .action(async (action, key, value) => {
-    const configManager = new ConfigManager();
-    await configManager.load();
+  .argument('[key]', 'Configuration key, e.g. model or compaction.threshold')
+  .argument('[value]', 'Configuration value (parsed as YAML)')
+  .option('--origin', 'With show: print where each value came from')
+  .action(async (action, key, value, options) => {
+    try {
+      const configManager = new ConfigManager();
+      await configManager.load({}, { requireApiKey: false });
+
+      if (action === 'show') {
+        if (options.origin) {
+          console.log(formatConfigOrigins(configManager));
+        } else {
+          const config = configManager.get();
+          console.log(JSON.stringify(config, null, 2));
+        }
+      } else if (action === 'get' && key) {
+        const current = configManager.getValue(key);
+        console.log(typeof current === 'object' ? JSON.stringify(current, null, 2) : current);
+      } else if (action === 'set' && key && value !== undefined) {
+        configManager.set(key, yaml.parse(value));
+        await configManager.save();
+        logger.success(`Set ${key} = ${value}`);
+      } else {
+        logger.error('Invalid config command');
+      }
+    } catch (error: any) {
+      logger.error(error.message);
+      process.exitCode = 1;
+    }
+  });
 
-    if (action === 'show') {
-      const config = configManager.get();
-      console.log(JSON.stringify(config, null, 2));
-    } else if (action === 'get' && key) {
-      const config = configManager.get();
-      console.log((config as any)[key]);
-    } else if (action === 'set' && key && value) {
-      configManager.set(key as any, value);
-      await configManager.save();
-      logger.success(`Set ${key} = ${value}`);
-    } else {
-      logger.error('Invalid config command');
+program
+  .command('sessions')
+  .description('Manage saved sessions')
+  .argument('<action>', 'Action: list')
+  .option('-n, --limit <count>', 'Number of sessions to show', '20')
+  .action(async (action, options) => {
+    if (action !== 'list') {
+      logger.error('Invalid sessions command');
+      return;
+    }
+
+    try {
+      const configManager = new ConfigManager();
+      await configManager.load({}, { requireApiKey: false });
+      const sessionManager = new SessionManager(configManager.get().sessionDirectory);
+
+      const summaries = await sessionManager.getSessionSummaries();
+      if (summaries.length === 0) {
+        console.log(chalk.gray('No saved sessions'));
+        return;
+      }
+
+      // Forks are listed under their parent even when the parent is older
+      const limit = Number.parseInt(options.limit, 10) || summaries.length;
+      for (const { summary, depth } of orderSessionTree(summaries).slice(0, limit)) {
+        console.log(formatSessionSummary(summary, undefined, depth));
+        console.log();
+      }
+      if (summaries.length > limit) {
+        console.log(chalk.gray(`${summaries.length - limit} older sessions not shown`));
+      }
+      console.log(
+        chalk.gray('Resume with: taurus chat --session <id>, or --continue for the latest here')
+      );
+    } catch (error: any) {
+      logger.error(error.message);
+      process.exitCode = 1;
     }
   });
 
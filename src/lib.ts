@@ -6,8 +6,9 @@
 
 // Core
 export { AgentOrchestrator } from './agent/orchestrator.js';
-export { ClaudeClient } from './api/claude.js';
-export { ConfigManager } from './config/manager.js';
+export { ClaudeClient, StreamInterruptedError } from './api/claude.js';
+export { ConfigManager, ConfigValidationError } from './config/manager.js';
+export type { ConfigLayer, ConfigOrigin } from './config/manager.js';
 export { SessionManager } from './session/manager.js';
 export { HooksManager } from './hooks/manager.js';
 export { createToolRegistry, ToolRegistry } from './tools/index.js';
@@ -17,6 +18,27 @@ export { REPL } from './cli/repl.js';
 export { McpManager } from './mcp/manager.js';
 export type { McpServerConfig, McpTool } from './mcp/types.js';
 
+// Sandbox
+export { Sandbox } from './sandbox/index.js';
+export type { SandboxConfig, SandboxBackend } from './sandbox/index.js';
+
+// Context Compaction
+export { CompactionManager, estimateRequestTokens } from './compaction/index.js';
+export type { CompactionConfig, CompactionResult } from './compaction/index.js';
+
+// Tool Permissions
+export { PermissionManager } from './permissions/index.js';
+export type {
+  PermissionMode,
+  PermissionConfig,
+  PermissionDecision,
+  PermissionPrompt,
+} from './permissions/index.js';
+
+// Memory
+export { MemoryManager } from './memory/index.js';
+export type { MemoryConfig, MemoryFile, MemoryScope } from './memory/index.js';
+
 // Types
 export type {
   Config,
@@ -30,10 +52,17 @@ export type {
   Session,
   Hook,
   HookEvent,
+  HookDecision,
+  HookResult,
   SlashCommand,
   Skill,
   Todo,
   AgentConfig,
+  TokenUsage,
+  SubagentRequest,
+  SubagentResult,
+  SubagentRunner,
+  ToolExecutionContext,
 } from './types/index.js';
 
 // Feature 1: Multi-Model Provider Support
@@ -3,6 +3,7 @@
  */
 
 import { BaseTool } from '../tools/base.js';
+import { IMAGE_MEDIA_TYPES, ImageBlock, ImageMediaType, TextBlock } from '../types/index.js';
 import { McpServer } from './server.js';
 import { McpTool } from './types.js';
 
@@ -36,23 +37,33 @@ export class McpToolProxy extends BaseTool {
         return this.error(errorText);
       }
 
-      // Combine all content into a single result
-      const textContent = result.content
-        .filter((c) => c.type === 'text')
-        .map((c) => c.text)
-        .join('\n');
-
-      const imageContent = result.content
-        .filter((c) => c.type === 'image')
-        .map((c) => `[Image: ${c.mimeType}]`)
-        .join('\n');
+      // Images the model can view are passed through; everything else is text
+      const blocks: Array<TextBlock | ImageBlock> = result.content.map((c) => {
+        if (
+          c.type === 'image' &&
+          c.data &&
+          IMAGE_MEDIA_TYPES.includes(c.mimeType as ImageMediaType)
+        ) {
+          return {
+            type: 'image',
+            source: { type: 'base64', media_type: c.mimeType as ImageMediaType, data: c.data },
+          };
+        }
+        if (c.type === 'image') {
+          return { type: 'text', text: `[Image: ${c.mimeType}]` };
+        }
+        if (c.type === 'resource') {
+          return { type: 'text', text: c.text || '[Resource]' };
+        }
+        return { type: 'text', text: c.text ?? '' };
+      });
 
-      const resourceContent = result.content
-        .filter((c) => c.type === 'resource')
-        .map((c) => c.text || '[Resource]')
-        .join('\n');
+      if (blocks.some((block) => block.type === 'image')) {
+        return this.success(blocks);
+      }
 
-      const combined = [textContent, imageContent, resourceContent]
+      const combined = blocks
+        .map((block) => (block as TextBlock).text)
         .filter((s) => s)
         .join('\n\n');
 
@@ -0,0 +1,154 @@
+/**
+ * Tests for MemoryManager
+ */
+
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findImports, MemoryManager } from '../memory-manager.js';
+
+describe('MemoryManager', () => {
+  let root: string;
+  let home: string;
+  let repo: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'taurus-memory-'));
+    home = join(root, 'home');
+    repo = join(root, 'repo');
+    mkdirSync(join(home, '.taurus'), { recursive: true });
+    mkdirSync(join(repo, '.git'), { recursive: true });
+    mkdirSync(join(repo, 'packages', 'api'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should load user, root and nested files from general to specific', async () => {
+    writeFileSync(join(home, '.taurus', 'TAURUS.md'), 'Prefer short answers.');
+    writeFileSync(join(repo, 'TAURUS.md'), 'Use pnpm.');
+    writeFileSync(join(repo, 'packages', 'api', 'TAURUS.md'), 'Run the API tests.');
+    writeFileSync(join(root, 'TAURUS.md'), 'Outside the repository.');
+
+    const manager = new MemoryManager({}, join(repo, 'packages', 'api'), home);
+    const files = await manager.load();
+
+    expect(files.map((file) => file.content)).toEqual([
+      'Prefer short answers.',
+      'Use pnpm.',
+      'Run the API tests.',
+    ]);
+    expect(files.map((file) => file.scope)).toEqual(['user', 'project', 'project']);
+
+    const prompt = manager.buildPrompt();
+    expect(prompt).toContain('# Memory');
+    expect(prompt.indexOf('Use pnpm.')).toBeLessThan(prompt.indexOf('Run the API tests.'));
+  });
+
+  it('should follow @imports once, skipping code and missing files', async () => {
+    mkdirSync(join(repo, 'docs'));
+    writeFileSync(
+      join(repo, 'TAURUS.md'),
+      'See @docs/style.md and ask @alice.\n```\n@docs/ignored.md\n```\nAlso @./missing.md'
+    );
+    writeFileSync(join(repo, 'docs', 'style.md'), 'Two-space indent. Back to @../TAURUS.md');
+    writeFileSync(join(repo, 'docs', 'ignored.md'), 'Should not load');
+
+    const manager = new MemoryManager({}, repo, home);
+    const files = await manager.load();
+
+    expect(files).toHaveLength(2);
+    expect(files[1]).toMatchObject({
+      path: join(repo, 'docs', 'style.md'),
+      scope: 'import',
+      importedFrom: join(repo, 'TAURUS.md'),
+    });
+  });
+
+  it('should keep project imports inside the project and ~/.taurus', async () => {
+    mkdirSync(join(home, '.ssh'));
+    writeFileSync(join(home, '.ssh', 'id_rsa'), 'PRIVATE KEY');
+    writeFileSync(join(home, '.taurus', 'team.md'), 'Team rules.');
+    writeFileSync(join(root, 'notes.md'), 'Notes outside the project.');
+    writeFileSync(join(root, 'mine.md'), 'My own notes.');
+    symlinkSync(join(home, '.ssh', 'id_rsa'), join(repo, 'key.md'));
+    writeFileSync(join(repo, 'docs.md'), 'Docs. @../notes.md');
+    writeFileSync(
+      join(repo, 'TAURUS.md'),
+      '@~/.ssh/id_rsa @~/.taurus/team.md @key.md @docs.md @../notes.md'
+    );
+    writeFileSync(join(home, '.taurus', 'TAURUS.md'), 'My notes: @../../mine.md');
+
+    const manager = new MemoryManager({}, repo, home);
+    const files = await manager.load();
+
+    expect(files.map((file) => file.path)).toEqual([
+      join(home, '.taurus', 'TAURUS.md'),
+      join(root, 'mine.md'),
+      join(repo, 'TAURUS.md'),
+      join(home, '.taurus', 'team.md'),
+      join(repo, 'docs.md'),
+    ]);
+    expect(manager.buildPrompt()).not.toContain('PRIVATE KEY');
+    expect(manager.buildPrompt()).not.toContain('Notes outside the project.');
+  });
+
+  it('should stop importing at the depth limit', async () => {
+    writeFileSync(join(repo, 'TAURUS.md'), '@a.md');
+    writeFileSync(join(repo, 'a.md'), '@b.md');
+    writeFileSync(join(repo, 'b.md'), 'too deep');
+
+    const manager = new MemoryManager({ maxImportDepth: 1 }, repo, home);
+    const files = await manager.load();
+
+    expect(files.map((file) => file.path)).toEqual([join(repo, 'TAURUS.md'), join(repo, 'a.md')]);
+  });
+
+  it('should truncate large files and leave out files past the total limit', async () => {
+    writeFileSync(join(home, '.taurus', 'TAURUS.md'), 'x'.repeat(50));
+    writeFileSync(join(repo, 'TAURUS.md'), 'y'.repeat(30));
+
+    const manager = new MemoryManager({ maxFileChars: 40, maxTotalChars: 60 }, repo, home);
+    const files = await manager.load();
+
+    expect(files[0].truncated).toBe(true);
+    expect(files[0].content).toHaveLength(40);
+
+    const prompt = manager.buildPrompt();
+    expect(prompt).toContain('[Truncated to 40 characters]');
+    expect(prompt).not.toContain('y'.repeat(30));
+    expect(prompt).toContain(`not loaded: ${join(repo, 'TAURUS.md')}`);
+  });
+
+  it('should append notes to the project file and reload', async () => {
+    const manager = new MemoryManager({}, join(repo, 'packages'), home);
+    await manager.load();
+    expect(manager.buildPrompt()).toBe('');
+
+    const path = await manager.appendNote('Always run lint');
+    await manager.appendNote('  Keep commits small ');
+
+    expect(path).toBe(join(repo, 'TAURUS.md'));
+    expect(readFileSync(path, 'utf-8')).toBe('- Always run lint\n- Keep commits small\n');
+    expect(manager.getFiles()).toHaveLength(1);
+    await expect(manager.appendNote('   ')).rejects.toThrow('Note is empty');
+  });
+
+  it('should load nothing when disabled', async () => {
+    writeFileSync(join(repo, 'TAURUS.md'), 'Use pnpm.');
+
+    const manager = new MemoryManager({ enabled: false }, repo, home);
+    expect(await manager.load()).toEqual([]);
+    expect(manager.buildPrompt()).toBe('');
+  });
+});
+
+describe('findImports', () => {
+  it('should only treat path-like tokens as imports', () => {
+    expect(
+      findImports('@README.md, @~/notes/team.md and @src/rules but not @bob or a@b.com')
+    ).toEqual(['README.md', '~/notes/team.md', 'src/rules']);
+    expect(findImports('`@inline.md` is code')).toEqual([]);
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * Memory Module
+ *
+ * Exports memory types and the memory manager
+ */
+
+export * from './types.js';
+export * from './memory-manager.js';
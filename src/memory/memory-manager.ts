@@ -0,0 +1,272 @@
+/**
+ * Memory Manager
+ *
+ * Finds TAURUS.md memory files for the working directory, follows their
+ * @path imports and renders them into the system prompt
+ */
+
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+import { MemoryConfig, MemoryFile, MemoryScope } from './types.js';
+import { logger } from '../utils/logger.js';
+
+export const DEFAULT_MEMORY_CONFIG: MemoryConfig = {
+  enabled: true,
+  maxFileChars: 20000,
+  maxTotalChars: 60000,
+  maxImportDepth: 5,
+};
+
+export const MEMORY_FILE_NAME = 'TAURUS.md';
+
+// "@path" where the path has a slash or a file extension, so @mentions are not imports
+const IMPORT_PATTERN = /(?:^|\s)@((?:~|\.{1,2})?[\w./-]*(?:\/[\w.-]+|\.\w+))/g;
+
+async function readOptional(path: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+function isInside(path: string, dir: string): boolean {
+  const rel = relative(dir, path);
+  return !rel.startsWith('..') && !isAbsolute(rel);
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await fs.stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Paths imported by a memory file, ignoring code blocks and inline code
+ */
+export function findImports(content: string): string[] {
+  const prose = content.replace(/```[\s\S]*?(```|$)/g, '').replace(/`[^`\n]*`/g, '');
+  return Array.from(prose.matchAll(IMPORT_PATTERN), (match) => match[1]);
+}
+
+export class MemoryManager {
+  private config: MemoryConfig;
+  private files: MemoryFile[] = [];
+  private projectRoot?: string;
+
+  constructor(
+    config: Partial<MemoryConfig> = {},
+    private cwd: string = process.cwd(),
+    private homeDir: string = homedir()
+  ) {
+    this.config = { ...DEFAULT_MEMORY_CONFIG, ...config };
+  }
+
+  /**
+   * Discover and read memory files: the user file, then TAURUS.md (or
+   * .taurus/TAURUS.md) in each directory from the project root down to the
+   * working directory, each followed by the files it imports
+   */
+  async load(): Promise<MemoryFile[]> {
+    this.files = [];
+    if (!this.config.enabled) {
+      return this.files;
+    }
+
+    this.projectRoot = await this.findProjectRoot();
+    const seen = new Set<string>();
+
+    await this.addFile(this.getUserMemoryPath(), 'user', seen, 0);
+
+    const relativeCwd = relative(this.projectRoot, this.cwd);
+    const segments = relativeCwd ? relativeCwd.split(/[\\/]/) : [];
+    for (let depth = 0; depth <= segments.length; depth++) {
+      const dir = join(this.projectRoot, ...segments.slice(0, depth));
+      await this.addFile(join(dir, MEMORY_FILE_NAME), 'project', seen, 0);
+      await this.addFile(join(dir, '.taurus', MEMORY_FILE_NAME), 'project', seen, 0);
+    }
+
+    return this.files;
+  }
+
+  getFiles(): MemoryFile[] {
+    return [...this.files];
+  }
+
+  getUserMemoryPath(): string {
+    return join(this.homeDir, '.taurus', MEMORY_FILE_NAME);
+  }
+
+  /**
+   * TAURUS.md at the project root (the enclosing git repository, or the
+   * working directory outside of one)
+   */
+  getProjectMemoryPath(): string {
+    return join(this.projectRoot ?? this.cwd, MEMORY_FILE_NAME);
+  }
+
+  /**
+   * The system prompt section for the loaded files, within the total size
+   * limit. Empty when there are none.
+   */
+  buildPrompt(): string {
+    if (this.files.length === 0) {
+      return '';
+    }
+
+    const sections: string[] = [];
+    const omitted: string[] = [];
+    let total = 0;
+
+    for (const file of this.files) {
+      const body = file.content.trim();
+      if (!body) {
+        continue;
+      }
+      if (total + body.length > this.config.maxTotalChars) {
+        omitted.push(file.path);
+        continue;
+      }
+      total += body.length;
+
+      const origin = file.importedFrom
+        ? `imported by ${file.importedFrom}`
+        : file.scope === 'user'
+          ? 'user memory, applies to all projects'
+          : 'project memory';
+      const note = file.truncated ? `\n[Truncated to ${this.config.maxFileChars} characters]` : '';
+      sections.push(`## ${file.path} (${origin})\n\n${body}${note}`);
+    }
+
+    if (sections.length === 0) {
+      return '';
+    }
+
+    const omittedNote =
+      omitted.length > 0
+        ? `\n\n[Memory size limit reached; not loaded: ${omitted.join(', ')}]`
+        : '';
+
+    return `# Memory
+The following instructions come from memory files (${MEMORY_FILE_NAME}) written by the user and their team. Follow them. When they conflict, files listed later are more specific and take precedence.
+
+${sections.join('\n\n')}${omittedNote}`;
+  }
+
+  /**
+   * Append a bullet to a memory file, creating it if needed, and reload
+   */
+  async appendNote(note: string, scope: 'user' | 'project' = 'project'): Promise<string> {
+    const text = note.trim();
+    if (!text) {
+      throw new Error('Note is empty');
+    }
+
+    if (!this.projectRoot) {
+      this.projectRoot = await this.findProjectRoot();
+    }
+    const path = scope === 'user' ? this.getUserMemoryPath() : this.getProjectMemoryPath();
+    const existing = (await readOptional(path)) ?? '';
+    const separator = existing === '' || existing.endsWith('\n') ? '' : '\n';
+
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.appendFile(path, `${separator}- ${text}\n`, 'utf-8');
+    await this.load();
+    return path;
+  }
+
+  /**
+   * `fromProject` marks files reached from a project memory file. Those come
+   * with the repository, so their imports may not reach outside it.
+   */
+  private async addFile(
+    path: string,
+    scope: MemoryScope,
+    seen: Set<string>,
+    depth: number,
+    importedFrom?: string,
+    fromProject = scope === 'project'
+  ): Promise<void> {
+    const absolute = resolve(path);
+    if (seen.has(absolute)) {
+      return;
+    }
+    if (importedFrom && fromProject && !(await this.isProjectImportAllowed(absolute))) {
+      logger.warn(
+        `Memory import ${absolute} from ${importedFrom} skipped: project memory may only import files in the project or ~/.taurus`
+      );
+      return;
+    }
+
+    const content = await readOptional(absolute);
+    if (content === undefined) {
+      return;
+    }
+    seen.add(absolute);
+
+    const truncated = content.length > this.config.maxFileChars;
+    this.files.push({
+      path: absolute,
+      scope,
+      content: truncated ? content.substring(0, this.config.maxFileChars) : content,
+      importedFrom,
+      truncated,
+    });
+
+    if (depth >= this.config.maxImportDepth) {
+      return;
+    }
+    for (const target of findImports(content)) {
+      await this.addFile(
+        this.resolveImport(target, absolute),
+        'import',
+        seen,
+        depth + 1,
+        absolute,
+        fromProject
+      );
+    }
+  }
+
+  private resolveImport(target: string, fromFile: string): string {
+    if (target === '~' || target.startsWith('~/')) {
+      return join(this.homeDir, target.slice(1));
+    }
+    return isAbsolute(target) ? target : resolve(dirname(fromFile), target);
+  }
+
+  /**
+   * Whether a file lies in the project or ~/.taurus once symlinks are
+   * followed. Missing files pass here and are skipped when read.
+   */
+  private async isProjectImportAllowed(path: string): Promise<boolean> {
+    const real = async (target: string) => fs.realpath(target).catch(() => undefined);
+    const file = await real(path);
+    if (!file) {
+      return true;
+    }
+
+    const roots = [this.projectRoot ?? this.cwd, join(this.homeDir, '.taurus')];
+    for (const root of roots) {
+      const dir = await real(root);
+      if (dir && isInside(file, dir)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async findProjectRoot(): Promise<string> {
+    for (let dir = resolve(this.cwd); ; dir = dirname(dir)) {
+      if (await isDirectory(join(dir, '.git'))) {
+        return dir;
+      }
+      if (dirname(dir) === dir) {
+        return resolve(this.cwd);
+      }
+    }
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Memory Types
+ *
+ * Type definitions for TAURUS.md memory files
+ */
+
+export interface MemoryConfig {
+  enabled: boolean;
+  /** Characters kept from any one file */
+  maxFileChars: number;
+  /** Characters of memory added to the system prompt in total */
+  maxTotalChars: number;
+  /** How many levels of @path imports are followed */
+  maxImportDepth: number;
+}
+
+/**
+ * - user: ~/.taurus/TAURUS.md, applies to every project
+ * - project: TAURUS.md files from the project root down to the working directory
+ * - import: a file pulled in with @path from another memory file
+ */
+export type MemoryScope = 'user' | 'project' | 'import';
+
+export interface MemoryFile {
+  path: string;
+  scope: MemoryScope;
+  content: string;
+  /** The file that imported this one */
+  importedFrom?: string;
+  truncated: boolean;
+}
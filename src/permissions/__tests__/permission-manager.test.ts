@@ -0,0 +1,219 @@
+/**
+ * Tests for Permission Manager
+ */
+
+import { PermissionManager } from '../permission-manager.js';
+import { parseRule, suggestRule } from '../rules.js';
+
+describe('parseRule', () => {
+  it('should parse tool names with and without specifiers', () => {
+    expect(parseRule('Bash(git status:*)')).toEqual({
+      raw: 'Bash(git status:*)',
+      toolName: 'Bash',
+      specifier: 'git status:*',
+    });
+    expect(parseRule('WebFetch').specifier).toBeUndefined();
+  });
+});
+
+describe('suggestRule', () => {
+  it('should only offer prefix rules for known-safe commands', () => {
+    const bash = (command: string) => suggestRule('Bash', { command }, '/work');
+
+    expect(bash('git status --short')).toBe('Bash(git status:*)');
+    expect(bash('ls -la src')).toBe('Bash(ls:*)');
+    expect(bash('rm -rf build')).toBe('Bash(rm -rf build)');
+    expect(bash('git push --force')).toBe('Bash(git push --force)');
+    expect(bash('./deploy.sh prod')).toBe('Bash(./deploy.sh prod)');
+    expect(bash('git status && git clean -fdx')).toBe('Bash(git status && git clean -fdx)');
+    expect(bash('npm run lint -- --fix')).toBe('Bash(npm run lint:*)');
+    expect(bash('yarn test --watch')).toBe('Bash(yarn test:*)');
+    expect(bash('cargo test')).toBe('Bash(cargo test)');
+    expect(bash('git diff --output=notes.txt')).toBe('Bash(git diff --output=notes.txt)');
+  });
+
+  it("should scope Edit rules to the edited file's directory", () => {
+    const edit = (file_path: string) => suggestRule('Write', { file_path }, '/work/project');
+
+    expect(edit('src/tools/a.ts')).toBe('Edit(src/tools/**)');
+    expect(edit('/work/project/README.md')).toBe('Edit(**)');
+    expect(edit('/etc/hosts')).toBe('Edit(/etc/**)');
+    expect(edit('docs[v2]/a.md')).toBe('Edit(docs\\[v2\\]/**)');
+  });
+});
+
+describe('PermissionManager', () => {
+  const cwd = '/work/project';
+
+  it('should allow read-only tools and ask for the rest by default', () => {
+    const manager = new PermissionManager({}, cwd);
+
+    expect(manager.evaluate('Read', { file_path: '/etc/hosts' }).behavior).toBe('allow');
+    expect(manager.evaluate('Bash', { command: 'ls' }).behavior).toBe('ask');
+    expect(manager.evaluate('Write', { file_path: `${cwd}/a.ts` }).behavior).toBe('ask');
+  });
+
+  it('should apply Bash prefix rules to every part of a compound command', () => {
+    const manager = new PermissionManager({ allow: ['Bash(git status:*)', 'Bash(npm test)'] }, cwd);
+
+    expect(manager.evaluate('Bash', { command: 'git status --short' }).behavior).toBe('allow');
+    expect(manager.evaluate('Bash', { command: 'git status && npm test' }).behavior).toBe('allow');
+    expect(manager.evaluate('Bash', { command: 'git status && rm -rf /' }).behavior).toBe('ask');
+    expect(manager.evaluate('Bash', { command: 'git status $(rm -rf /)' }).behavior).toBe('ask');
+    expect(manager.evaluate('Bash', { command: 'git statusx' }).behavior).toBe('ask');
+    expect(manager.evaluate('Bash', { command: 'git status & rm -rf ~' }).behavior).toBe('ask');
+    expect(manager.evaluate('Bash', { command: 'npm test <(rm -rf ~)' }).behavior).toBe('ask');
+    expect(manager.evaluate('Bash', { command: 'npm test >(rm -rf ~)' }).behavior).toBe('ask');
+    expect(manager.evaluate('Bash', { command: 'git status `rm -rf ~`' }).behavior).toBe('ask');
+    expect(manager.evaluate('Bash', { command: 'git status 2>&1 &' }).behavior).toBe('allow');
+  });
+
+  it('should not let prefix rules cover output redirection', () => {
+    const manager = new PermissionManager({ allow: ['Bash(cat:*)', 'Bash(npm test:*)'] }, cwd);
+
+    expect(manager.evaluate('Bash', { command: 'npm test 2>&1' }).behavior).toBe('allow');
+    expect(manager.evaluate('Bash', { command: 'cat a >/dev/null' }).behavior).toBe('allow');
+    expect(manager.evaluate('Bash', { command: 'cat a > ~/.bashrc' }).behavior).toBe('ask');
+    expect(manager.evaluate('Bash', { command: 'npm test &>> log' }).behavior).toBe('ask');
+  });
+
+  it('should let deny rules win, even in bypass mode', () => {
+    const manager = new PermissionManager(
+      { mode: 'bypass', deny: ['Bash(git push:*)', 'Edit(.env)'] },
+      cwd
+    );
+
+    expect(manager.evaluate('Bash', { command: 'npm test && git push origin main' }).behavior).toBe(
+      'deny'
+    );
+    expect(manager.evaluate('Bash', { command: 'npm test & git push -f' }).behavior).toBe('deny');
+    expect(manager.evaluate('Write', { file_path: `${cwd}/.env` }).behavior).toBe('deny');
+    expect(manager.evaluate('Bash', { command: 'rm -rf build' }).behavior).toBe('allow');
+  });
+
+  it('should match Edit path rules relative to the working directory', () => {
+    const manager = new PermissionManager({ allow: ['Edit(src/**)'] }, cwd);
+
+    expect(manager.evaluate('Edit', { file_path: `${cwd}/src/a/b.ts` }).behavior).toBe('allow');
+    expect(manager.evaluate('Write', { file_path: 'src/new.ts' }).behavior).toBe('allow');
+    expect(manager.evaluate('Edit', { file_path: `${cwd}/package.json` }).behavior).toBe('ask');
+  });
+
+  it('should accept edits inside the working directory only in accept-edits mode', () => {
+    const manager = new PermissionManager({ mode: 'accept-edits' }, cwd);
+
+    expect(manager.evaluate('Edit', { file_path: `${cwd}/README.md` }).behavior).toBe('allow');
+    expect(manager.evaluate('Edit', { file_path: '/home/user/.bashrc' }).behavior).toBe('ask');
+    expect(manager.evaluate('Bash', { command: 'make' }).behavior).toBe('ask');
+  });
+
+  it('should deny everything but read-only tools in plan-only mode', () => {
+    const manager = new PermissionManager({ mode: 'plan-only', allow: ['Bash'] }, cwd);
+
+    expect(manager.evaluate('Grep', { pattern: 'x' }).behavior).toBe('allow');
+    expect(manager.evaluate('Bash', { command: 'ls' }).behavior).toBe('deny');
+  });
+
+  it('should ask before fetching from a domain without a rule', () => {
+    const manager = new PermissionManager({ allow: ['WebFetch(domain:docs.python.org)'] }, cwd);
+    const fetch = (url: string) => manager.evaluate('WebFetch', { url }).behavior;
+
+    expect(fetch('https://docs.python.org/3/library/os.html')).toBe('allow');
+    expect(fetch('https://attacker.example/?q=secret')).toBe('ask');
+    expect(fetch('https://python.org/')).toBe('ask');
+    expect(suggestRule('WebFetch', { url: 'https://Example.com/a' }, cwd)).toBe(
+      'WebFetch(domain:example.com)'
+    );
+
+    manager.setMode('plan-only');
+    expect(fetch('https://docs.python.org/')).toBe('allow');
+    expect(fetch('https://attacker.example/')).toBe('ask');
+  });
+
+  it('should deny calls that need approval when no prompt is registered', async () => {
+    const manager = new PermissionManager({}, cwd);
+    const decision = await manager.check('Bash', { command: 'ls' });
+
+    expect(decision.behavior).toBe('deny');
+  });
+
+  it('should remember "always" answers for the session', async () => {
+    const manager = new PermissionManager({}, cwd);
+    const prompts: string[] = [];
+    manager.setPrompt(async (request) => {
+      prompts.push(request.suggestedRule);
+      return 'always';
+    });
+
+    const [first, second] = await Promise.all([
+      manager.check('Bash', { command: 'npm run build' }),
+      manager.check('Bash', { command: 'npm run lint' }),
+    ]);
+
+    expect(first.behavior).toBe('allow');
+    expect(second.behavior).toBe('allow');
+    expect(prompts).toEqual(['Bash(npm run build:*)', 'Bash(npm run lint:*)']);
+    expect(manager.getRules().session).toEqual(['Bash(npm run build:*)', 'Bash(npm run lint:*)']);
+    expect((await manager.check('Bash', { command: 'npm run build -- --watch' })).behavior).toBe(
+      'allow'
+    );
+  });
+
+  it('should remember "always" answers for edits within the same directory', async () => {
+    const manager = new PermissionManager({}, cwd);
+    manager.setPrompt(async () => 'always');
+
+    await manager.check('Edit', { file_path: 'src/index.ts' });
+
+    expect(manager.getRules().session).toEqual(['Edit(src/**)']);
+    expect(manager.evaluate('Write', { file_path: 'src/tools/new.ts' }).behavior).toBe('allow');
+    expect(manager.evaluate('Write', { file_path: '.github/workflows/ci.yml' }).behavior).toBe(
+      'ask'
+    );
+  });
+
+  it('should remember "always" answers for risky commands exactly', async () => {
+    const manager = new PermissionManager({}, cwd);
+    manager.setPrompt(async () => 'always');
+
+    expect((await manager.check('Bash', { command: 'rm -rf build && make' })).behavior).toBe(
+      'allow'
+    );
+    expect(manager.getRules().session).toEqual(['Bash(rm -rf build && make)']);
+    expect(manager.evaluate('Bash', { command: 'rm -rf build && make' }).behavior).toBe('allow');
+    expect(manager.evaluate('Bash', { command: 'rm -rf src' }).behavior).toBe('ask');
+    expect(manager.evaluate('Bash', { command: 'make' }).behavior).toBe('ask');
+  });
+
+  it('should report declined prompts as denials', async () => {
+    const manager = new PermissionManager({}, cwd);
+    manager.setPrompt(async () => 'deny');
+
+    const decision = await manager.check('Write', { file_path: `${cwd}/a.ts` });
+    expect(decision.behavior).toBe('deny');
+    expect(decision.reason).toContain('declined');
+  });
+
+  it('should let hooks skip or force the prompt but not override deny rules', async () => {
+    const manager = new PermissionManager({ mode: 'bypass', deny: ['Bash(rm:*)'] }, cwd);
+    const prompts: string[] = [];
+    manager.setPrompt(async (request) => {
+      prompts.push(request.toolName);
+      return 'deny';
+    });
+
+    expect((await manager.check('Read', { file_path: 'a.ts' }, undefined, 'ask')).behavior).toBe(
+      'deny'
+    );
+    expect(prompts).toEqual(['Read']);
+    expect(
+      (await manager.check('Bash', { command: 'rm -rf /' }, undefined, 'allow')).behavior
+    ).toBe('deny');
+
+    manager.setMode('ask');
+    expect(
+      (await manager.check('Write', { file_path: '/etc/x' }, undefined, 'allow')).behavior
+    ).toBe('allow');
+    expect(prompts).toEqual(['Read']);
+  });
+});
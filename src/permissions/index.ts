@@ -0,0 +1,9 @@
+/**
+ * Permissions Module
+ *
+ * Exports permission types, rule matching, and permission manager
+ */
+
+export * from './types.js';
+export * from './rules.js';
+export * from './permission-manager.js';
@@ -0,0 +1,258 @@
+/**
+ * Permission Manager
+ *
+ * Decides whether a tool call may run: applies the permission mode and
+ * allow/deny rules, and asks the user when neither settles it
+ */
+
+import { isAbsolute, relative, resolve } from 'path';
+import {
+  PermissionBehavior,
+  PermissionConfig,
+  PermissionDecision,
+  PermissionMode,
+  PermissionPrompt,
+  PermissionRule,
+} from './types.js';
+import {
+  DOMAIN_SCOPED_TOOLS,
+  FILE_EDIT_TOOLS,
+  hasCommandSubstitution,
+  READ_ONLY_TOOLS,
+  matchesRule,
+  parseRule,
+  redirectsOutput,
+  splitShellCommand,
+  suggestRule,
+} from './rules.js';
+
+export class PermissionManager {
+  private mode: PermissionMode;
+  private allowRules: PermissionRule[];
+  private denyRules: PermissionRule[];
+  private sessionAllowRules: PermissionRule[] = [];
+  private workingDirectory: string;
+  private prompt?: PermissionPrompt;
+
+  // Approval prompts are shown one at a time, even for parallel tool calls
+  private promptQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: Partial<PermissionConfig> = {}, workingDirectory: string = process.cwd()) {
+    this.mode = config.mode ?? 'ask';
+    this.allowRules = (config.allow ?? []).map(parseRule);
+    this.denyRules = (config.deny ?? []).map(parseRule);
+    this.workingDirectory = workingDirectory;
+  }
+
+  /**
+   * Register the interactive prompt. Without one, calls that need approval
+   * are denied.
+   */
+  setPrompt(prompt: PermissionPrompt): void {
+    this.prompt = prompt;
+  }
+
+  setMode(mode: PermissionMode): void {
+    this.mode = mode;
+  }
+
+  getMode(): PermissionMode {
+    return this.mode;
+  }
+
+  getRules(): { allow: string[]; deny: string[]; session: string[] } {
+    return {
+      allow: this.allowRules.map((r) => r.raw),
+      deny: this.denyRules.map((r) => r.raw),
+      session: this.sessionAllowRules.map((r) => r.raw),
+    };
+  }
+
+  /**
+   * Decide from mode and rules alone, without prompting
+   */
+  evaluate(toolName: string, input: Record<string, any>): PermissionDecision {
+    const denyRule = this.findDenyRule(toolName, input);
+    if (denyRule) {
+      return { behavior: 'deny', reason: `Denied by rule ${denyRule.raw}`, rule: denyRule.raw };
+    }
+
+    if (this.mode === 'bypass' || READ_ONLY_TOOLS.includes(toolName)) {
+      return { behavior: 'allow' };
+    }
+
+    if (this.mode === 'plan-only' && !DOMAIN_SCOPED_TOOLS.includes(toolName)) {
+      return {
+        behavior: 'deny',
+        reason: `${toolName} is not available in plan-only mode. Describe the change instead of making it.`,
+      };
+    }
+
+    const allowRule = this.findAllowRule(toolName, input);
+    if (allowRule) {
+      return { behavior: 'allow', rule: allowRule.raw };
+    }
+
+    if (this.mode === 'accept-edits' && FILE_EDIT_TOOLS.includes(toolName)) {
+      if (this.isInsideWorkingDirectory(input.file_path)) {
+        return { behavior: 'allow' };
+      }
+    }
+
+    return { behavior: 'ask' };
+  }
+
+  /**
+   * Decide whether a tool call may run, prompting the user if needed.
+   * `requested` is a hook's decision: "allow" skips the prompt and "ask"
+   * forces one, but deny rules and plan-only mode still apply.
+   */
+  async check(
+    toolName: string,
+    input: Record<string, any>,
+    signal?: AbortSignal,
+    requested?: PermissionBehavior
+  ): Promise<PermissionDecision> {
+    const decision = this.evaluate(toolName, input);
+    if (decision.behavior === 'deny') {
+      return decision;
+    }
+    if (requested === 'allow') {
+      return { behavior: 'allow', reason: 'Allowed by hook' };
+    }
+    const force = requested === 'ask';
+    if (decision.behavior === 'allow' && !force) {
+      return decision;
+    }
+
+    if (!this.prompt) {
+      return {
+        behavior: 'deny',
+        reason: `${toolName} requires approval, but no one is available to approve it`,
+      };
+    }
+
+    const result = this.promptQueue.then(() => this.askUser(toolName, input, signal, force));
+    this.promptQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async askUser(
+    toolName: string,
+    input: Record<string, any>,
+    signal?: AbortSignal,
+    force = false
+  ): Promise<PermissionDecision> {
+    // An earlier "always" answer may already cover this call
+    const decision = this.evaluate(toolName, input);
+    if (decision.behavior !== 'ask' && !force) {
+      return decision;
+    }
+    if (signal?.aborted) {
+      return { behavior: 'deny', reason: 'Interrupted by the user' };
+    }
+
+    const suggestedRule = suggestRule(toolName, input, this.workingDirectory);
+
+    try {
+      const response = await this.prompt!(
+        { toolName, input, summary: this.summarize(toolName, input), suggestedRule },
+        signal
+      );
+
+      if (response === 'always') {
+        this.sessionAllowRules.push(parseRule(suggestedRule));
+        return { behavior: 'allow', rule: suggestedRule };
+      }
+      if (response === 'allow') {
+        return { behavior: 'allow' };
+      }
+      return { behavior: 'deny', reason: 'The user declined this tool call' };
+    } catch (error: any) {
+      return { behavior: 'deny', reason: `Approval was not given: ${error.message}` };
+    }
+  }
+
+  private findDenyRule(toolName: string, input: Record<string, any>): PermissionRule | undefined {
+    if (toolName === 'Bash') {
+      const pieces = splitShellCommand(String(input.command ?? ''));
+      return this.denyRules.find(
+        (rule) =>
+          matchesRule(rule, toolName, input, this.workingDirectory) ||
+          pieces.some((piece) =>
+            matchesRule(rule, toolName, { command: piece }, this.workingDirectory)
+          )
+      );
+    }
+
+    return this.denyRules.find((rule) => matchesRule(rule, toolName, input, this.workingDirectory));
+  }
+
+  /**
+   * For compound Bash commands every simple command must be covered by some
+   * allow rule, and command substitution only passes an unscoped "Bash" rule.
+   */
+  private findAllowRule(toolName: string, input: Record<string, any>): PermissionRule | undefined {
+    const rules = [...this.allowRules, ...this.sessionAllowRules];
+
+    if (toolName !== 'Bash') {
+      return rules.find((rule) => matchesRule(rule, toolName, input, this.workingDirectory));
+    }
+
+    const unscoped = rules.find((rule) => rule.toolName === 'Bash' && !rule.specifier);
+    if (unscoped) {
+      return unscoped;
+    }
+
+    const command = String(input.command ?? '').trim();
+    const pieces = splitShellCommand(command);
+    if (pieces.length === 0 || hasCommandSubstitution(command)) {
+      return undefined;
+    }
+
+    // An exact rule, such as one saved from an "always" answer, covers the
+    // whole command however compound it is
+    const exact = rules.find((rule) => rule.toolName === 'Bash' && rule.specifier === command);
+    if (exact) {
+      return exact;
+    }
+
+    let firstMatch: PermissionRule | undefined;
+    for (const piece of pieces) {
+      // A prefix rule vouches for the program, not for files it is told to overwrite
+      const rule = rules.find(
+        (r) =>
+          matchesRule(r, toolName, { command: piece }, this.workingDirectory) &&
+          !(r.specifier?.endsWith(':*') && redirectsOutput(piece))
+      );
+      if (!rule) {
+        return undefined;
+      }
+      firstMatch = firstMatch ?? rule;
+    }
+
+    return firstMatch;
+  }
+
+  private isInsideWorkingDirectory(filePath: unknown): boolean {
+    if (typeof filePath !== 'string') {
+      return false;
+    }
+
+    const rel = relative(this.workingDirectory, resolve(this.workingDirectory, filePath));
+    return rel !== '' && !rel.startsWith('..') && !isAbsolute(rel);
+  }
+
+  private summarize(toolName: string, input: Record<string, any>): string {
+    if (toolName === 'Bash') {
+      return String(input.command ?? '');
+    }
+    if (typeof input.file_path === 'string') {
+      return input.file_path;
+    }
+    if (typeof input.url === 'string') {
+      return input.url;
+    }
+    return JSON.stringify(input);
+  }
+}
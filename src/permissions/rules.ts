@@ -0,0 +1,249 @@
+/**
+ * Permission Rules
+ *
+ * Parsing and matching of allow/deny rules like "Bash(npm test:*)",
+ * "Edit(src/**)" and "WebFetch(domain:example.com)"
+ */
+
+import { minimatch } from 'minimatch';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+import { PermissionRule } from './types.js';
+
+/**
+ * Tools that never change state and run without approval
+ */
+export const READ_ONLY_TOOLS = [
+  'Read',
+  'Glob',
+  'Grep',
+  'BashOutput',
+  'WebSearch',
+  'TodoWrite',
+  'Task',
+  'Skill',
+  'SlashCommand',
+];
+
+/**
+ * Tools that read from the network. They change nothing, so plan-only mode
+ * keeps them, but each domain needs approval or a "WebFetch(domain:...)" rule.
+ */
+export const DOMAIN_SCOPED_TOOLS = ['WebFetch'];
+
+/**
+ * Tools that modify files. "Edit(...)" rules apply to all of them.
+ */
+export const FILE_EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write'];
+
+export function parseRule(raw: string): PermissionRule {
+  const match = raw.trim().match(/^([^()]+?)(?:\((.*)\))?$/);
+  if (!match) {
+    throw new Error(`Invalid permission rule: "${raw}"`);
+  }
+
+  const specifier = match[2]?.trim();
+  return {
+    raw,
+    toolName: match[1].trim(),
+    specifier: specifier && specifier !== '*' ? specifier : undefined,
+  };
+}
+
+/**
+ * Split a shell command into its simple commands on &&, ||, ;, |, & and
+ * newlines. The & in redirections such as 2>&1 and &> is not a separator.
+ * Quoting is not interpreted, which errs towards more pieces.
+ */
+export function splitShellCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||;|\||\n|(?<![<>])&(?!>)/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+/**
+ * Whether a command runs other commands through substitution: `...`,
+ * $(...), <(...) or >(...). Prefix rules never cover these.
+ */
+export function hasCommandSubstitution(command: string): boolean {
+  return /`|\$\(|[<>]\(/.test(command);
+}
+
+/**
+ * Whether a command writes to a file through ">" or ">>". Duplicating a
+ * stream (2>&1) or discarding it (>/dev/null) doesn't count.
+ */
+export function redirectsOutput(command: string): boolean {
+  return /&?>/.test(command.replace(/\d*>&\d+|&?>>?\s*\/dev\/null\b/g, ''));
+}
+
+function matchesBashSpecifier(specifier: string, command: string): boolean {
+  if (specifier.endsWith(':*')) {
+    const prefix = specifier.slice(0, -2).trim();
+    return command === prefix || command.startsWith(`${prefix} `);
+  }
+  return command === specifier;
+}
+
+function hostnameOf(url: unknown): string | undefined {
+  try {
+    return new URL(String(url)).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+function matchesDomainSpecifier(specifier: string, url: unknown): boolean {
+  const match = specifier.match(/^domain:(.+)$/);
+  const hostname = hostnameOf(url);
+  return !!match && hostname === match[1].trim().toLowerCase();
+}
+
+function matchesPathSpecifier(
+  specifier: string,
+  filePath: string,
+  workingDirectory: string
+): boolean {
+  const absolutePath = resolve(workingDirectory, filePath);
+  const target = isAbsolute(specifier) ? absolutePath : relative(workingDirectory, absolutePath);
+
+  return minimatch(target, specifier, { dot: true });
+}
+
+function ruleAppliesToTool(rule: PermissionRule, toolName: string): boolean {
+  if (rule.toolName === toolName) {
+    return true;
+  }
+  return rule.toolName === 'Edit' && FILE_EDIT_TOOLS.includes(toolName);
+}
+
+/**
+ * Check a single rule against a tool call. Bash commands are compared as a
+ * whole here; callers split compound commands first.
+ */
+export function matchesRule(
+  rule: PermissionRule,
+  toolName: string,
+  input: Record<string, any>,
+  workingDirectory: string
+): boolean {
+  if (!ruleAppliesToTool(rule, toolName)) {
+    return false;
+  }
+
+  if (!rule.specifier) {
+    return true;
+  }
+
+  if (toolName === 'Bash') {
+    return matchesBashSpecifier(rule.specifier, String(input.command ?? '').trim());
+  }
+
+  if (DOMAIN_SCOPED_TOOLS.includes(toolName)) {
+    return matchesDomainSpecifier(rule.specifier, input.url);
+  }
+
+  const filePath = input.file_path ?? input.path;
+  if (typeof filePath === 'string') {
+    return matchesPathSpecifier(rule.specifier, filePath, workingDirectory);
+  }
+
+  return false;
+}
+
+/**
+ * Commands whose later arguments can't make them destructive, so "always"
+ * may cover every use. A list names the subcommands this holds for; the
+ * prefix rule then includes the subcommand. Build and test runners are left
+ * out, as they run code from the project.
+ */
+const PREFIX_SAFE_COMMANDS: Record<string, string[] | true> = {
+  cat: true,
+  df: true,
+  diff: true,
+  du: true,
+  echo: true,
+  grep: true,
+  head: true,
+  ls: true,
+  pwd: true,
+  stat: true,
+  tail: true,
+  wc: true,
+  which: true,
+  git: ['blame', 'status'],
+};
+
+/**
+ * Package managers whose "run <script>" rules name the script, so approving
+ * one script doesn't approve the others
+ */
+const SCRIPT_RUNNERS = ['npm', 'pnpm', 'yarn'];
+
+function suggestBashRule(command: string): string {
+  const pieces = splitShellCommand(command);
+  if (pieces.length === 1 && !hasCommandSubstitution(command)) {
+    const [program, subcommand, script] = pieces[0].split(/\s+/);
+    const safe = PREFIX_SAFE_COMMANDS[program];
+    if (safe === true) {
+      return `Bash(${program}:*)`;
+    }
+    if (safe && subcommand && safe.includes(subcommand)) {
+      return `Bash(${program} ${subcommand}:*)`;
+    }
+    if (SCRIPT_RUNNERS.includes(program)) {
+      if (subcommand === 'test') {
+        return `Bash(${program} test:*)`;
+      }
+      if (subcommand === 'run' && script && /^[\w:.-]+$/.test(script)) {
+        return `Bash(${program} run ${script}:*)`;
+      }
+    }
+  }
+  // Destructive, unknown or compound commands are only allowed as typed
+  return `Bash(${command})`;
+}
+
+/**
+ * Edit rule covering the file's directory, relative to the working directory
+ * when the file is inside it
+ */
+function suggestEditRule(filePath: unknown, workingDirectory: string): string {
+  if (typeof filePath !== 'string') {
+    return 'Edit(**)';
+  }
+
+  const directory = dirname(resolve(workingDirectory, filePath));
+  const rel = relative(workingDirectory, directory);
+  if (rel === '') {
+    return 'Edit(**)';
+  }
+  if (rel.startsWith('..') || isAbsolute(rel)) {
+    return `Edit(${minimatch.escape(directory)}/**)`;
+  }
+  return `Edit(${minimatch.escape(rel)}/**)`;
+}
+
+/**
+ * Rule offered when the user answers "always"
+ */
+export function suggestRule(
+  toolName: string,
+  input: Record<string, any>,
+  workingDirectory: string
+): string {
+  if (toolName === 'Bash' && typeof input.command === 'string') {
+    return suggestBashRule(input.command.trim());
+  }
+
+  if (FILE_EDIT_TOOLS.includes(toolName)) {
+    return suggestEditRule(input.file_path, workingDirectory);
+  }
+
+  const hostname = DOMAIN_SCOPED_TOOLS.includes(toolName) ? hostnameOf(input.url) : undefined;
+  if (hostname) {
+    return `${toolName}(domain:${hostname})`;
+  }
+
+  return toolName;
+}
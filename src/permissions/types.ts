@@ -0,0 +1,52 @@
+/**
+ * Permission Types
+ *
+ * Type definitions for tool permission modes, rules and approval prompts
+ */
+
+/**
+ * - ask: prompt for anything that is not read-only
+ * - accept-edits: like ask, but file edits inside the working directory are allowed
+ * - plan-only: read-only tools and approved web fetches only; everything else is denied
+ * - bypass: allow everything not matched by a deny rule
+ */
+export type PermissionMode = 'ask' | 'accept-edits' | 'plan-only' | 'bypass';
+
+export const PERMISSION_MODES: PermissionMode[] = ['ask', 'accept-edits', 'plan-only', 'bypass'];
+
+export interface PermissionConfig {
+  mode: PermissionMode;
+  allow: string[];
+  deny: string[];
+}
+
+/**
+ * Parsed form of a rule such as "Bash(git status:*)" or "Edit(src/**)"
+ */
+export interface PermissionRule {
+  raw: string;
+  toolName: string;
+  specifier?: string;
+}
+
+export type PermissionBehavior = 'allow' | 'deny' | 'ask';
+
+export interface PermissionDecision {
+  behavior: PermissionBehavior;
+  reason?: string;
+  rule?: string;
+}
+
+export interface PermissionRequest {
+  toolName: string;
+  input: Record<string, any>;
+  summary: string;
+  suggestedRule: string;
+}
+
+export type PermissionResponse = 'allow' | 'deny' | 'always';
+
+export type PermissionPrompt = (
+  request: PermissionRequest,
+  signal?: AbortSignal
+) => Promise<PermissionResponse>;
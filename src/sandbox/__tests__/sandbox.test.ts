@@ -0,0 +1,91 @@
+/**
+ * Tests for Sandbox
+ */
+
+import { spawnSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import { Sandbox } from '../sandbox.js';
+
+// The unshare backend needs unprivileged user namespaces
+const canUnshare =
+  spawnSync('unshare', ['--user', '--map-root-user', '--mount', 'true']).status === 0;
+
+describe('Sandbox', () => {
+  it('should run bash directly when disabled', () => {
+    const sandbox = new Sandbox();
+    const invocation = sandbox.wrap(['-c', 'ls'], '/work');
+
+    expect(sandbox.isEnabled()).toBe(false);
+    expect(invocation.file).toBe('/bin/bash');
+    expect(invocation.args).toEqual(['-c', 'ls']);
+  });
+
+  it('should build a bubblewrap invocation with a writable working directory', () => {
+    const sandbox = new Sandbox({ enabled: true, backend: 'bubblewrap' });
+    const invocation = sandbox.wrap(['-c', 'make'], '/work');
+
+    expect(invocation.file).toBe('bwrap');
+    expect(invocation.args.slice(0, 3)).toEqual(['--ro-bind', '/', '/']);
+    expect(invocation.args.join(' ')).toContain('--bind /work /work');
+    expect(invocation.args).toContain('--unshare-net');
+    expect(invocation.args.slice(-3)).toEqual(['/bin/bash', '-c', 'make']);
+    expect(invocation.env.TMPDIR).toBeDefined();
+  });
+
+  it('should keep the network when allowed', () => {
+    const sandbox = new Sandbox({ enabled: true, backend: 'unshare', allowNetwork: true });
+    const invocation = sandbox.wrap(['-c', 'curl example.com'], '/work');
+
+    expect(invocation.file).toBe('unshare');
+    expect(invocation.args).not.toContain('--net');
+    expect(invocation.args.slice(-2)).toEqual(['-c', 'curl example.com']);
+  });
+
+  it('should scrub the environment', () => {
+    process.env.TAURUS_TEST_SECRET = 'secret';
+    const sandbox = new Sandbox({ enabled: true, backend: 'bubblewrap' });
+    const invocation = sandbox.wrap(['-c', 'env'], '/work');
+    delete process.env.TAURUS_TEST_SECRET;
+
+    expect(invocation.env.TAURUS_TEST_SECRET).toBeUndefined();
+    expect(invocation.env.PATH).toBe(process.env.PATH);
+  });
+
+  it('should explain sandbox violations', () => {
+    const sandbox = new Sandbox({ enabled: true, backend: 'unshare' });
+
+    expect(
+      sandbox.explainFailure("touch: cannot touch '/etc/x': Read-only file system", '/work')
+    ).toContain('Write blocked');
+    expect(
+      sandbox.explainFailure('curl: (6) Could not resolve host: example.com', '/work')
+    ).toContain('Network access is disabled');
+    expect(sandbox.explainFailure('make: *** No targets', '/work')).toBeUndefined();
+  });
+
+  (canUnshare ? it : it.skip)('should make everything but the working directory read-only', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'taurus-sandbox-test-'));
+    try {
+      const sandbox = new Sandbox({ enabled: true, backend: 'unshare' });
+      const outside = join(homedir(), `.taurus-sandbox-test-${process.pid}`);
+      const invocation = sandbox.wrap(
+        ['-c', `touch inside && touch "$TMPDIR/scratch" && touch "${outside}"`],
+        dir
+      );
+      const result = spawnSync(invocation.file, invocation.args, {
+        cwd: dir,
+        env: invocation.env,
+        encoding: 'utf-8',
+      });
+      rmSync(outside, { force: true });
+
+      expect(result.stderr).not.toContain('taurus-sandbox:');
+      expect(result.stderr).toContain('Read-only file system');
+      expect(result.status).toBe(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * Sandbox Module
+ *
+ * Exports sandbox types and the command sandbox
+ */
+
+export * from './types.js';
+export * from './sandbox.js';
@@ -0,0 +1,211 @@
+/**
+ * Sandbox
+ *
+ * Wraps shell invocations so that everything outside the working directory
+ * is read-only and the network is unreachable
+ */
+
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { SandboxConfig, SandboxInvocation } from './types.js';
+
+export const DEFAULT_SANDBOX_CONFIG: SandboxConfig = {
+  enabled: false,
+  backend: 'bubblewrap',
+  allowNetwork: false,
+  writablePaths: [],
+  envPassthrough: [],
+};
+
+const NETWORK_ERROR_PATTERN =
+  /Could not resolve host|Network is unreachable|Temporary failure in name resolution|EAI_AGAIN|ENETUNREACH/i;
+
+// Variables kept when the environment is scrubbed
+const BASE_ENV_VARS = ['PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LC_ALL', 'TERM'];
+
+/**
+ * Pseudo-filesystems that cannot be remounted read-only inside a user
+ * namespace, and hold nothing a sandboxed write could abuse
+ */
+const UNREMOUNTABLE_FILESYSTEMS = [
+  'proc',
+  'sysfs',
+  'cgroup',
+  'cgroup2',
+  'devpts',
+  'mqueue',
+  'debugfs',
+  'tracefs',
+  'securityfs',
+  'pstore',
+  'bpf',
+  'configfs',
+  'fusectl',
+  'hugetlbfs',
+  'binfmt_misc',
+  'autofs',
+  'efivarfs',
+  'nsfs',
+];
+
+/**
+ * Runs inside the new namespaces: remounts every mount read-only, then
+ * re-binds the working directory and extra paths read-write before
+ * handing over to bash. Any mount that cannot be made read-only aborts
+ * with exit code 125 rather than leaving it writable. Mount points are
+ * octal-escaped in mountinfo (a space is \040), and a mount's existing
+ * flags are kept because the kernel refuses to drop locked ones.
+ * Arguments: <cwd> <writable...> -- <bash args...>
+ */
+const UNSHARE_SETUP_SCRIPT = `
+cwd="$1"; shift
+writable=()
+while [ "$#" -gt 0 ] && [ "$1" != "--" ]; do writable+=("$1"); shift; done
+shift
+skip=" ${UNREMOUNTABLE_FILESYSTEMS.join(' ')} "
+mapfile -t mounts < /proc/self/mountinfo
+for line in "\${mounts[@]}"; do
+  read -r -a f <<< "$line"
+  i=6; while [ "\${f[$i]}" != "-" ]; do i=$((i + 1)); done
+  case "$skip" in *" \${f[$((i + 1))]} "*) continue ;; esac
+  printf -v m '%b' "\${f[4]}"
+  flags=",\${f[5]},"; flags="\${flags/,rw,/,}"; flags="\${flags#,}"; flags="\${flags%,}"
+  mount -o "remount,bind,ro\${flags:+,$flags}" "$m" || {
+    echo "taurus-sandbox: could not make $m read-only" >&2
+    exit 125
+  }
+done
+for p in "$cwd" "\${writable[@]}"; do
+  mount --bind "$p" "$p" && mount -o remount,bind,rw "$p" || exit 125
+done
+cd "$cwd" || exit 125
+exec /bin/bash "$@"
+`;
+
+export class Sandbox {
+  private config: SandboxConfig;
+  private scratchDir?: string;
+
+  constructor(config: Partial<SandboxConfig> = {}) {
+    this.config = { ...DEFAULT_SANDBOX_CONFIG, ...config };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled && this.config.backend !== 'none';
+  }
+
+  getConfig(): SandboxConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Build the invocation that runs `/bin/bash <bashArgs>` in `cwd`, inside
+   * the sandbox when it is enabled.
+   */
+  wrap(bashArgs: string[], cwd: string): SandboxInvocation {
+    if (!this.isEnabled()) {
+      return { file: '/bin/bash', args: bashArgs, env: process.env };
+    }
+
+    const workDir = resolve(cwd);
+    const scratchDir = this.getScratchDir();
+    const writable = [...this.config.writablePaths.map((p) => resolve(p)), scratchDir];
+    const env = this.buildEnv(scratchDir);
+
+    if (this.config.backend === 'bubblewrap') {
+      return {
+        file: 'bwrap',
+        args: [
+          '--ro-bind',
+          '/',
+          '/',
+          '--dev',
+          '/dev',
+          '--proc',
+          '/proc',
+          '--bind',
+          workDir,
+          workDir,
+          ...writable.flatMap((p) => ['--bind', p, p]),
+          ...(this.config.allowNetwork ? [] : ['--unshare-net']),
+          '--die-with-parent',
+          '--chdir',
+          workDir,
+          '--',
+          '/bin/bash',
+          ...bashArgs,
+        ],
+        env,
+      };
+    }
+
+    return {
+      file: 'unshare',
+      args: [
+        '--user',
+        '--map-root-user',
+        '--mount',
+        ...(this.config.allowNetwork ? [] : ['--net']),
+        '--',
+        '/bin/bash',
+        '-c',
+        UNSHARE_SETUP_SCRIPT,
+        'taurus-sandbox',
+        workDir,
+        ...writable,
+        '--',
+        ...bashArgs,
+      ],
+      env,
+    };
+  }
+
+  /**
+   * Explain a failure in sandbox terms, or return undefined if the output
+   * does not look like a sandbox violation.
+   */
+  explainFailure(output: string, cwd: string): string | undefined {
+    if (!this.isEnabled()) {
+      return undefined;
+    }
+
+    if (/Read-only file system/i.test(output)) {
+      const writable = [resolve(cwd), ...this.config.writablePaths];
+      return `[sandbox] Write blocked: only ${writable.join(', ')} and $TMPDIR are writable in the sandbox.`;
+    }
+
+    if (!this.config.allowNetwork && NETWORK_ERROR_PATTERN.test(output)) {
+      return '[sandbox] Network access is disabled in the sandbox.';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Error shown when the backend binary cannot be started
+   */
+  unavailableMessage(): string {
+    const binary = this.config.backend === 'bubblewrap' ? 'bwrap' : 'unshare';
+    return `Sandbox backend "${this.config.backend}" is not available (${binary} not found). Install it or change sandbox.backend in your config.`;
+  }
+
+  private buildEnv(scratchDir: string): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = {};
+    for (const key of [...BASE_ENV_VARS, ...this.config.envPassthrough]) {
+      if (process.env[key] !== undefined) {
+        env[key] = process.env[key];
+      }
+    }
+    env.TMPDIR = scratchDir;
+    env.TAURUS_SANDBOX = '1';
+    return env;
+  }
+
+  private getScratchDir(): string {
+    if (!this.scratchDir) {
+      this.scratchDir = mkdtempSync(join(tmpdir(), 'taurus-sandbox-'));
+    }
+    return this.scratchDir;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Sandbox Types
+ *
+ * Type definitions for sandboxed command execution
+ */
+
+/**
+ * - none: run commands directly
+ * - bubblewrap: isolate with bwrap (read-only root, private /dev and /proc)
+ * - unshare: isolate with unprivileged user + mount namespaces via unshare(1)
+ */
+export type SandboxBackend = 'none' | 'bubblewrap' | 'unshare';
+
+export interface SandboxConfig {
+  enabled: boolean;
+  backend: SandboxBackend;
+  allowNetwork: boolean;
+  writablePaths: string[];
+  envPassthrough: string[];
+}
+
+/**
+ * A program and arguments ready for spawn/execFile
+ */
+export interface SandboxInvocation {
+  file: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+}
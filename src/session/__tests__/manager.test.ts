@@ -0,0 +1,277 @@
+/**
+ * Tests for SessionManager
+ */
+
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deriveSessionTitle, messageIndexForTurn, SessionManager } from '../manager.js';
+import { TodoWriteTool } from '../../tools/todo.js';
+
+describe('SessionManager', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'taurus-sessions-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save todos with the session and restore them on load', async () => {
+    const manager = new SessionManager(dir);
+    await manager.initialize();
+    const session = manager.createSession();
+
+    const tool = new TodoWriteTool();
+    tool.setStore(manager);
+    const result = await tool.execute({
+      todos: [
+        { content: 'Write tests', status: 'completed', activeForm: 'Writing tests' },
+        { content: 'Fix bug', status: 'in_progress', activeForm: 'Fixing bug' },
+      ],
+    });
+    expect(result.is_error).toBeFalsy();
+    await manager.saveSession();
+
+    const resumed = new SessionManager(dir);
+    await resumed.loadSession(session.id);
+
+    expect(resumed.getTodos()).toEqual([
+      { content: 'Write tests', status: 'completed', activeForm: 'Writing tests' },
+      { content: 'Fix bug', status: 'in_progress', activeForm: 'Fixing bug' },
+    ]);
+
+    const restoredTool = new TodoWriteTool();
+    restoredTool.setStore(resumed);
+    expect(restoredTool.getTodos()).toHaveLength(2);
+  });
+
+  it('should start without todos', () => {
+    const manager = new SessionManager(dir);
+
+    expect(manager.getTodos()).toEqual([]);
+    manager.createSession();
+    expect(manager.getTodos()).toEqual([]);
+  });
+
+  it('should title sessions from the first prompt', () => {
+    const manager = new SessionManager(dir);
+    const session = manager.createSession();
+
+    manager.addMessage({ role: 'user', content: '\n  Fix the   login test\nDetails follow' });
+    manager.addMessage({ role: 'user', content: 'Another prompt' });
+
+    expect(session.title).toBe('Fix the login test');
+    expect(session.cwd).toBe(process.cwd());
+    expect(deriveSessionTitle('x'.repeat(100))).toHaveLength(60);
+  });
+
+  it('should summarize saved sessions, newest first, and find the latest per directory', async () => {
+    const save = (id: string, fields: Record<string, unknown>) =>
+      writeFileSync(join(dir, `${id}.json`), JSON.stringify({ id, ...fields }));
+    save('session_old', {
+      cwd: '/work/app',
+      messages: [{ role: 'user', content: 'Old prompt' }],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+    save('session_new', {
+      title: 'Newer work',
+      cwd: '/work/other',
+      messages: [
+        { role: 'user', content: 'New prompt' },
+        { role: 'assistant', content: 'Done' },
+      ],
+      createdAt: '2026-02-01T00:00:00.000Z',
+      updatedAt: '2026-02-01T00:00:00.000Z',
+    });
+    save('session_empty', {
+      messages: [],
+      createdAt: '2026-03-01T00:00:00.000Z',
+      updatedAt: '2026-03-01T00:00:00.000Z',
+    });
+    writeFileSync(join(dir, 'broken.json'), '{');
+
+    const manager = new SessionManager(dir);
+    const summaries = await manager.getSessionSummaries();
+
+    expect(summaries.map((s) => [s.id, s.title, s.messageCount])).toEqual([
+      ['session_new', 'Newer work', 2],
+      ['session_old', 'Old prompt', 1],
+    ]);
+    expect(summaries[0].updatedAt).toBeInstanceOf(Date);
+    expect((await manager.findLatestSession('/work/app'))?.id).toBe('session_old');
+    expect(await manager.findLatestSession('/elsewhere')).toBeUndefined();
+  });
+
+  it('should fork a session with its history up to a message', async () => {
+    const manager = new SessionManager(dir);
+    const session = manager.createSession();
+    manager.addMessage({ role: 'user', content: 'First prompt' });
+    manager.addMessage({ role: 'assistant', content: 'First answer' });
+    manager.addMessage({ role: 'user', content: 'Second prompt' });
+    manager.addMessage({
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 'tool_1', name: 'Read', input: {} }],
+    });
+    manager.addMessage({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'tool_1', content: 'file' }],
+    });
+    manager.setTodos([{ content: 'Plan', status: 'pending', activeForm: 'Planning' }]);
+    await manager.saveSession();
+
+    const messages = manager.getMessages();
+    expect(messageIndexForTurn(messages, 2)).toBe(2);
+    expect(messageIndexForTurn(messages, 3)).toBe(5);
+
+    const fork = await manager.fork(session.id, messageIndexForTurn(messages, 2));
+    expect(fork.parentId).toBe(session.id);
+    expect(fork.forkedAt).toBe(2);
+    expect(fork.title).toBe('First prompt (fork)');
+    expect(fork.messages).toEqual(messages.slice(0, 2));
+    expect(fork.todos).toEqual(session.todos);
+    expect(manager.getCurrentSession()?.id).toBe(session.id);
+
+    const summaries = await new SessionManager(dir).getSessionSummaries();
+    expect(summaries.find((s) => s.id === fork.id)?.parentId).toBe(session.id);
+
+    await expect(manager.fork(session.id, 4)).rejects.toThrow('separates a tool call');
+    await expect(manager.fork(session.id, 9)).rejects.toThrow('outside the session');
+  });
+
+  it('should append new events instead of rewriting the transcript', async () => {
+    const manager = new SessionManager(dir);
+    const session = manager.createSession();
+    const path = join(dir, `${session.id}.jsonl`);
+
+    await manager.saveSession();
+    expect(existsSync(path)).toBe(false);
+
+    manager.addMessage({ role: 'user', content: 'Hello' });
+    manager.addMessage({ role: 'assistant', content: 'Hi' });
+    await manager.saveSession();
+    const first = readFileSync(path, 'utf-8');
+
+    manager.addMessage({
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 'tool_1', name: 'Read', input: {} }],
+    });
+    manager.addMessage({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'tool_1', content: 'file' }],
+    });
+    manager.setTodos([{ content: 'Plan', status: 'pending', activeForm: 'Planning' }]);
+    await manager.saveSession();
+    await manager.saveSession();
+    const second = readFileSync(path, 'utf-8');
+
+    expect(second.startsWith(first)).toBe(true);
+    const types = second
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line).type);
+    expect(types).toEqual([
+      'session',
+      'message',
+      'message',
+      'tool_call',
+      'tool_result',
+      'metadata',
+    ]);
+  });
+
+  it('should tolerate a truncated last line and repair it on the next save', async () => {
+    const manager = new SessionManager(dir);
+    const session = manager.createSession();
+    manager.addMessage({ role: 'user', content: 'Hello' });
+    await manager.saveSession();
+    const path = join(dir, `${session.id}.jsonl`);
+    appendFileSync(path, '{"type":"message","message":{"role":"assis');
+
+    const resumed = new SessionManager(dir);
+    const loaded = await resumed.loadSession(session.id);
+    expect(loaded?.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+    expect(loaded?.createdAt).toBeInstanceOf(Date);
+    expect(loaded?.updatedAt).toBeInstanceOf(Date);
+
+    resumed.addMessage({ role: 'assistant', content: 'Hi' });
+    await resumed.saveSession();
+
+    const lines = readFileSync(path, 'utf-8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).type)).toEqual(['session', 'message', 'message']);
+  });
+
+  it('should answer tool calls whose results were lost in a crash', async () => {
+    const manager = new SessionManager(dir);
+    const session = manager.createSession();
+    manager.addMessage({ role: 'user', content: 'List files' });
+    manager.addMessage({
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Looking' },
+        { type: 'tool_use', id: 'tool_1', name: 'Bash', input: { command: 'ls' } },
+      ],
+    });
+    await manager.saveSession();
+
+    const resumed = new SessionManager(dir);
+    const loaded = await resumed.loadSession(session.id);
+    const lost = {
+      role: 'user',
+      content: [
+        {
+          type: 'tool_result',
+          tool_use_id: 'tool_1',
+          content: 'The session ended before this tool call finished. It may or may not have run.',
+          is_error: true,
+        },
+      ],
+    };
+    expect(loaded?.messages[2]).toEqual(lost);
+
+    resumed.addMessage({ role: 'user', content: 'Try again' });
+    await resumed.saveSession();
+    const reloaded = await new SessionManager(dir).loadSession(session.id);
+    expect(reloaded?.messages.slice(2)).toEqual([lost, { role: 'user', content: 'Try again' }]);
+  });
+
+  it('should rewrite the transcript after history is replaced', async () => {
+    const manager = new SessionManager(dir);
+    const session = manager.createSession();
+    manager.addMessage({ role: 'user', content: 'One' });
+    manager.addMessage({ role: 'assistant', content: 'Two' });
+    await manager.saveSession();
+
+    manager.replaceMessages([{ role: 'user', content: 'Summary' }]);
+    await manager.saveSession();
+
+    const reloaded = await new SessionManager(dir).loadSession(session.id);
+    expect(reloaded?.messages).toEqual([{ role: 'user', content: 'Summary' }]);
+    expect(reloaded?.title).toBe('One');
+  });
+
+  it('should migrate legacy JSON sessions with their dates', async () => {
+    writeFileSync(
+      join(dir, 'session_legacy.json'),
+      JSON.stringify({
+        id: 'session_legacy',
+        messages: [{ role: 'user', content: 'From before' }],
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-02T00:00:00.000Z',
+      })
+    );
+
+    const manager = new SessionManager(dir);
+    await manager.initialize();
+
+    expect(existsSync(join(dir, 'session_legacy.jsonl'))).toBe(true);
+    expect(existsSync(join(dir, 'session_legacy.json.bak'))).toBe(true);
+
+    const session = await manager.loadSession('session_legacy');
+    expect(session?.messages).toEqual([{ role: 'user', content: 'From before' }]);
+    expect(session?.createdAt).toEqual(new Date('2026-01-01T00:00:00.000Z'));
+  });
+});
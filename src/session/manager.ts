@@ -2,13 +2,79 @@
  * Session manager - Handle conversation persistence
  */
 
-import { Session, Message } from '../types/index.js';
+import { Session, SessionSummary, Message, Todo } from '../types/index.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { logger } from '../utils/logger.js';
+import {
+  LEGACY_EXTENSION,
+  TRANSCRIPT_EXTENSION,
+  TranscriptEvent,
+  appendTranscript,
+  messageEvent,
+  parseLegacySession,
+  readTranscript,
+  writeTranscript,
+} from './transcript.js';
+
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * A one-line title from the first line of a prompt
+ */
+export function deriveSessionTitle(prompt: string): string {
+  const firstLine = prompt
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .find((line) => line.length > 0);
+  if (!firstLine) {
+    return 'Untitled session';
+  }
+
+  return firstLine.length > MAX_TITLE_LENGTH
+    ? `${firstLine.substring(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : firstLine;
+}
+
+function isPrompt(message: Message): boolean {
+  return message.role === 'user' && typeof message.content === 'string';
+}
+
+function firstPrompt(messages: Message[]): string | undefined {
+  return messages.find(isPrompt)?.content as string | undefined;
+}
+
+/**
+ * Message index just before the prompt that starts the given turn (1-based),
+ * i.e. where to fork to keep the first `turns - 1` exchanges. Past the last
+ * turn, the end of the conversation.
+ */
+export function messageIndexForTurn(messages: Message[], turn: number): number {
+  let seen = 0;
+  for (let index = 0; index < messages.length; index++) {
+    if (isPrompt(messages[index]) && ++seen === turn) {
+      return index;
+    }
+  }
+  return messages.length;
+}
+
+/**
+ * What the session's transcript file already contains
+ */
+interface PersistedState {
+  exists: boolean;
+  messages: number;
+  title?: string;
+  todos?: string;
+  /** The file must be rewritten rather than appended to */
+  rewrite: boolean;
+}
 
 export class SessionManager {
   private currentSession: Session | null = null;
+  private persisted: PersistedState = { exists: false, messages: 0, rewrite: false };
+  private saving: Promise<void> = Promise.resolve();
 
   constructor(private sessionDir: string) {}
 
@@ -18,15 +84,19 @@ export class SessionManager {
     } catch (error) {
       logger.error(`Failed to create session directory: ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    await this.migrateLegacySessions();
   }
 
   createSession(): Session {
     this.currentSession = {
       id: this.generateSessionId(),
+      cwd: process.cwd(),
       messages: [],
       createdAt: new Date(),
       updatedAt: new Date(),
     };
+    this.persisted = { exists: false, messages: 0, rewrite: false };
 
     logger.debug(`Created session: ${this.currentSession.id}`);
     return this.currentSession;
@@ -34,9 +104,15 @@ export class SessionManager {
 
   async loadSession(sessionId: string): Promise<Session | null> {
     try {
-      const sessionPath = join(this.sessionDir, `${sessionId}.json`);
-      const content = await fs.readFile(sessionPath, 'utf-8');
-      this.currentSession = JSON.parse(content);
+      const { session, rewrite } = await this.readSession(sessionId);
+      this.currentSession = session;
+      this.persisted = {
+        exists: true,
+        messages: session.messages.length,
+        title: session.title,
+        todos: JSON.stringify(session.todos ?? []),
+        rewrite,
+      };
 
       logger.debug(`Loaded session: ${sessionId}`);
       return this.currentSession;
@@ -46,18 +122,63 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Append what changed since the last save to the transcript. The whole
+   * file is only rewritten (atomically) for a new session or after history
+   * was replaced. Saves are serialized.
+   */
   async saveSession(): Promise<void> {
-    if (!this.currentSession) {
+    this.saving = this.saving.then(() => this.flush());
+    await this.saving;
+  }
+
+  private async flush(): Promise<void> {
+    const session = this.currentSession;
+    if (!session) {
+      return;
+    }
+
+    // Nothing worth keeping until the first message or todo
+    if (!this.persisted.exists && session.messages.length === 0 && !session.todos?.length) {
       return;
     }
 
     try {
-      const sessionPath = join(this.sessionDir, `${this.currentSession.id}.json`);
-      this.currentSession.updatedAt = new Date();
-      const content = JSON.stringify(this.currentSession, null, 2);
-      await fs.writeFile(sessionPath, content, 'utf-8');
+      const path = this.transcriptPath(session.id);
+      const now = new Date();
+      const todos = JSON.stringify(session.todos ?? []);
+
+      if (!this.persisted.exists || this.persisted.rewrite) {
+        session.updatedAt = now;
+        await writeTranscript(path, session);
+      } else {
+        const events: TranscriptEvent[] = session.messages
+          .slice(this.persisted.messages)
+          .map((message) => messageEvent(message, now));
+        if (session.title !== this.persisted.title || todos !== this.persisted.todos) {
+          events.push({
+            type: 'metadata',
+            title: session.title !== this.persisted.title ? session.title : undefined,
+            todos: todos !== this.persisted.todos ? session.todos : undefined,
+            timestamp: now.toISOString(),
+          });
+        }
+        if (events.length === 0) {
+          return;
+        }
 
-      logger.debug(`Saved session: ${this.currentSession.id}`);
+        session.updatedAt = now;
+        await appendTranscript(path, events);
+      }
+
+      this.persisted = {
+        exists: true,
+        messages: session.messages.length,
+        title: session.title,
+        todos,
+        rewrite: false,
+      };
+      logger.debug(`Saved session: ${session.id}`);
     } catch (error) {
       logger.error(`Failed to save session: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -68,7 +189,36 @@ export class SessionManager {
       this.createSession();
     }
 
-    this.currentSession!.messages.push(message);
+    const session = this.currentSession!;
+    session.messages.push(message);
+
+    if (!session.title && message.role === 'user' && typeof message.content === 'string') {
+      session.title = deriveSessionTitle(message.content);
+    }
+  }
+
+  /**
+   * Replace the conversation history, e.g. after compaction
+   */
+  replaceMessages(messages: Message[]): void {
+    if (!this.currentSession) {
+      this.createSession();
+    }
+
+    this.currentSession!.messages = messages;
+    this.persisted.rewrite = true;
+  }
+
+  getTodos(): Todo[] {
+    return this.currentSession?.todos || [];
+  }
+
+  setTodos(todos: Todo[]): void {
+    if (!this.currentSession) {
+      this.createSession();
+    }
+
+    this.currentSession!.todos = todos;
   }
 
   getMessages(): Message[] {
@@ -82,14 +232,176 @@ export class SessionManager {
   async listSessions(): Promise<string[]> {
     try {
       const files = await fs.readdir(this.sessionDir);
-      return files
-        .filter((f) => f.endsWith('.json'))
-        .map((f) => f.replace('.json', ''));
+      const ids = files
+        .filter((f) => f.endsWith(TRANSCRIPT_EXTENSION) || f.endsWith(LEGACY_EXTENSION))
+        .map((f) => f.replace(/\.jsonl?$/, ''));
+      return [...new Set(ids)];
     } catch (error) {
       return [];
     }
   }
 
+  /**
+   * Saved sessions with at least one message, most recently updated first.
+   * Sessions from before titles were recorded are titled from their first
+   * prompt.
+   */
+  async getSessionSummaries(): Promise<SessionSummary[]> {
+    const summaries: SessionSummary[] = [];
+
+    for (const id of await this.listSessions()) {
+      try {
+        const { session } = await this.readSession(id);
+        if (!session.messages?.length) {
+          continue;
+        }
+
+        const prompt = firstPrompt(session.messages);
+        summaries.push({
+          id: session.id ?? id,
+          title: session.title ?? (prompt ? deriveSessionTitle(prompt) : 'Untitled session'),
+          cwd: session.cwd,
+          parentId: session.parentId,
+          messageCount: session.messages.length,
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt,
+        });
+      } catch (error) {
+        logger.debug(`Skipping unreadable session ${id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return summaries.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * The most recently updated session started in a directory
+   */
+  async findLatestSession(cwd: string): Promise<SessionSummary | undefined> {
+    const summaries = await this.getSessionSummaries();
+    return summaries.find((summary) => summary.cwd === cwd);
+  }
+
+  /**
+   * Start a new session from a copy of another's history up to (not
+   * including) atMessageIndex, or all of it. The fork is saved but does not
+   * become the current session.
+   */
+  async fork(sessionId: string, atMessageIndex?: number): Promise<Session> {
+    const source =
+      this.currentSession?.id === sessionId
+        ? this.currentSession
+        : (await this.readSession(sessionId)).session;
+
+    const index = atMessageIndex ?? source.messages.length;
+    if (!Number.isInteger(index) || index < 0 || index > source.messages.length) {
+      throw new Error(
+        `Message index ${index} is outside the session (0-${source.messages.length})`
+      );
+    }
+
+    // A tool call must stay paired with its result
+    const last = source.messages[index - 1];
+    if (
+      last?.role === 'assistant' &&
+      Array.isArray(last.content) &&
+      last.content.some((block) => block.type === 'tool_use')
+    ) {
+      throw new Error(`Cannot fork at message ${index}: it separates a tool call from its result`);
+    }
+
+    const now = new Date();
+    const prompt = firstPrompt(source.messages);
+    const title = source.title ?? (prompt ? deriveSessionTitle(prompt) : undefined);
+    const fork: Session = {
+      id: this.generateSessionId(),
+      title: title ? `${title} (fork)` : undefined,
+      cwd: process.cwd(),
+      parentId: source.id,
+      forkedAt: index,
+      messages: structuredClone(source.messages.slice(0, index)),
+      todos: source.todos ? structuredClone(source.todos) : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await writeTranscript(this.transcriptPath(fork.id), fork);
+    logger.debug(`Forked session ${source.id} at message ${index}: ${fork.id}`);
+    return fork;
+  }
+
+  /**
+   * Convert whole-file JSON sessions from earlier versions to transcripts.
+   * The original is kept alongside with a .bak suffix.
+   */
+  async migrateLegacySessions(): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.sessionDir);
+    } catch {
+      return 0;
+    }
+
+    let migrated = 0;
+    for (const file of files.filter((f) => f.endsWith(LEGACY_EXTENSION))) {
+      const id = file.slice(0, -LEGACY_EXTENSION.length);
+      if (files.includes(`${id}${TRANSCRIPT_EXTENSION}`)) {
+        continue;
+      }
+      try {
+        await this.migrateLegacySession(id);
+        migrated++;
+      } catch (error) {
+        logger.warn(`Could not migrate session ${id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (migrated > 0) {
+      logger.debug(`Migrated ${migrated} session(s) to JSONL transcripts`);
+    }
+    return migrated;
+  }
+
+  private async migrateLegacySession(sessionId: string): Promise<Session> {
+    const legacyPath = join(this.sessionDir, `${sessionId}${LEGACY_EXTENSION}`);
+    const session = parseLegacySession(await fs.readFile(legacyPath, 'utf-8'), sessionId);
+
+    await writeTranscript(this.transcriptPath(sessionId), session);
+    await fs.rename(legacyPath, `${legacyPath}.bak`);
+    return session;
+  }
+
+  /**
+   * Read a transcript, migrating a legacy JSON session on first access.
+   * `rewrite` is set when the file no longer matches the session it holds.
+   */
+  private async readSession(sessionId: string): Promise<{ session: Session; rewrite: boolean }> {
+    try {
+      const { session, skippedLines, truncated, lostToolResults } = await readTranscript(
+        this.transcriptPath(sessionId),
+        sessionId
+      );
+      if (skippedLines > (truncated ? 1 : 0)) {
+        logger.warn(`Skipped ${skippedLines} unreadable line(s) in session ${sessionId}`);
+      }
+      if (lostToolResults > 0) {
+        logger.warn(
+          `${lostToolResults} tool call(s) in session ${sessionId} lost their results and were marked as failed`
+        );
+      }
+      return { session, rewrite: truncated || lostToolResults > 0 };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      return { session: await this.migrateLegacySession(sessionId), rewrite: false };
+    }
+  }
+
+  private transcriptPath(sessionId: string): string {
+    return join(this.sessionDir, `${sessionId}${TRANSCRIPT_EXTENSION}`);
+  }
+
   private generateSessionId(): string {
     return `session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
   }
@@ -0,0 +1,267 @@
+/**
+ * Transcript - Append-only JSONL storage for sessions
+ *
+ * A session file holds one event per line: a `session` header, then
+ * message, tool call and tool result events in conversation order, and
+ * metadata events when the title or todo list changes. Appending never
+ * touches earlier lines, so a crash can at worst leave a truncated last
+ * line, which the reader drops, or a tool call without its result, which
+ * the reader answers with an error.
+ */
+
+import { promises as fs } from 'fs';
+import { Message, Session, Todo, ToolResultBlock, ToolUseBlock } from '../types/index.js';
+import { writeFileAtomic } from '../utils/files.js';
+
+export const TRANSCRIPT_EXTENSION = '.jsonl';
+
+/** Whole-session JSON files written before transcripts existed */
+export const LEGACY_EXTENSION = '.json';
+
+export interface SessionHeaderEvent {
+  type: 'session';
+  id: string;
+  title?: string;
+  cwd?: string;
+  parentId?: string;
+  forkedAt?: number;
+  timestamp: string;
+}
+
+export interface MessageEvent {
+  type: 'message' | 'tool_call' | 'tool_result';
+  message: Message;
+  timestamp: string;
+}
+
+export interface MetadataEvent {
+  type: 'metadata';
+  title?: string;
+  todos?: Todo[];
+  timestamp: string;
+}
+
+export type TranscriptEvent = SessionHeaderEvent | MessageEvent | MetadataEvent;
+
+export interface ParsedTranscript {
+  session: Session;
+  /** Lines that could not be parsed and were skipped */
+  skippedLines: number;
+  /** The last line was cut off, so the file must be rewritten before appending */
+  truncated: boolean;
+  /**
+   * Tool calls whose results were lost, now answered with errors. The file
+   * must then be rewritten too, to match the session.
+   */
+  lostToolResults: number;
+}
+
+const LOST_TOOL_RESULT =
+  'The session ended before this tool call finished. It may or may not have run.';
+
+/**
+ * Answer tool calls whose results never reached the transcript, as when the
+ * process died while appending them, since the API rejects unanswered calls.
+ * Returns how many were answered.
+ */
+function answerLostToolCalls(messages: Message[]): number {
+  let answered = 0;
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    if (message.role !== 'assistant' || !Array.isArray(message.content)) {
+      continue;
+    }
+
+    const next = messages[i + 1];
+    const nextBlocks = next?.role === 'user' && Array.isArray(next.content) ? next.content : [];
+    const lost: ToolResultBlock[] = message.content
+      .filter((block): block is ToolUseBlock => block.type === 'tool_use')
+      .filter(
+        (block) =>
+          !nextBlocks.some(
+            (other) => other.type === 'tool_result' && other.tool_use_id === block.id
+          )
+      )
+      .map((block) => ({
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: LOST_TOOL_RESULT,
+        is_error: true,
+      }));
+    if (lost.length === 0) {
+      continue;
+    }
+
+    if (nextBlocks.length > 0) {
+      next.content = [...lost, ...nextBlocks];
+    } else {
+      messages.splice(i + 1, 0, { role: 'user', content: lost });
+    }
+    answered += lost.length;
+  }
+  return answered;
+}
+
+/**
+ * An event for one message, classified by what it carries
+ */
+export function messageEvent(message: Message, timestamp: Date = new Date()): MessageEvent {
+  let type: MessageEvent['type'] = 'message';
+  if (Array.isArray(message.content)) {
+    if (message.content.some((block) => block.type === 'tool_use')) {
+      type = 'tool_call';
+    } else if (message.content.some((block) => block.type === 'tool_result')) {
+      type = 'tool_result';
+    }
+  }
+
+  return { type, message, timestamp: timestamp.toISOString() };
+}
+
+/**
+ * The full event list for a session, as written when a file is (re)created
+ */
+export function sessionToEvents(session: Session): TranscriptEvent[] {
+  const timestamp = session.updatedAt.toISOString();
+  const events: TranscriptEvent[] = [
+    {
+      type: 'session',
+      id: session.id,
+      title: session.title,
+      cwd: session.cwd,
+      parentId: session.parentId,
+      forkedAt: session.forkedAt,
+      timestamp: session.createdAt.toISOString(),
+    },
+    ...session.messages.map((message) => messageEvent(message, session.updatedAt)),
+  ];
+
+  if (session.todos?.length) {
+    events.push({ type: 'metadata', todos: session.todos, timestamp });
+  }
+
+  return events;
+}
+
+export function serializeEvents(events: TranscriptEvent[]): string {
+  return events.map((event) => `${JSON.stringify(event)}\n`).join('');
+}
+
+/**
+ * Rebuild a session from transcript text. Unparsable lines are skipped; an
+ * unparsable or unterminated last line, or a tool call without its result,
+ * is the expected result of a crash mid-append.
+ */
+export function parseTranscript(content: string, fallbackId: string): ParsedTranscript {
+  const lines = content.split('\n');
+  const terminated = lines[lines.length - 1] === '';
+  if (terminated) {
+    lines.pop();
+  }
+
+  const session: Session = {
+    id: fallbackId,
+    messages: [],
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+  let skippedLines = 0;
+  let truncated = false;
+  let sawHeader = false;
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let event: TranscriptEvent;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      skippedLines++;
+      if (index === lines.length - 1) {
+        truncated = true;
+      }
+      return;
+    }
+
+    const timestamp = new Date(event.timestamp);
+    if (!Number.isNaN(timestamp.getTime())) {
+      session.updatedAt = timestamp;
+    }
+
+    switch (event.type) {
+      case 'session':
+        sawHeader = true;
+        session.id = event.id ?? fallbackId;
+        session.title = event.title;
+        session.cwd = event.cwd;
+        session.parentId = event.parentId;
+        session.forkedAt = event.forkedAt;
+        session.createdAt = timestamp;
+        break;
+      case 'message':
+      case 'tool_call':
+      case 'tool_result':
+        session.messages.push(event.message);
+        break;
+      case 'metadata':
+        if (event.title !== undefined) {
+          session.title = event.title;
+        }
+        if (event.todos !== undefined) {
+          session.todos = event.todos;
+        }
+        break;
+      default:
+        skippedLines++;
+    }
+  });
+
+  if (!sawHeader && session.messages.length === 0) {
+    throw new Error('Not a session transcript');
+  }
+
+  // A complete last event without its newline still needs one before appending
+  if (!terminated && lines.length > 0) {
+    truncated = true;
+  }
+
+  const lostToolResults = answerLostToolCalls(session.messages);
+
+  return { session, skippedLines, truncated, lostToolResults };
+}
+
+/**
+ * A session from a legacy whole-file JSON document, with dates revived
+ */
+export function parseLegacySession(content: string, fallbackId: string): Session {
+  const raw = JSON.parse(content);
+  if (!raw || !Array.isArray(raw.messages)) {
+    throw new Error('Not a session file');
+  }
+
+  return {
+    ...raw,
+    id: raw.id ?? fallbackId,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
+
+export async function readTranscript(path: string, fallbackId: string): Promise<ParsedTranscript> {
+  return parseTranscript(await fs.readFile(path, 'utf-8'), fallbackId);
+}
+
+/**
+ * Replace a transcript in one step, e.g. after compaction rewrote history
+ */
+export async function writeTranscript(path: string, session: Session): Promise<void> {
+  await writeFileAtomic(path, serializeEvents(sessionToEvents(session)));
+}
+
+export async function appendTranscript(path: string, events: TranscriptEvent[]): Promise<void> {
+  if (events.length > 0) {
+    await fs.appendFile(path, serializeEvents(events), 'utf-8');
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Tests for background Bash commands
+ */
+
+import { BackgroundJobManager } from '../background-jobs.js';
+import { BashTool } from '../bash.js';
+import { BashOutputTool } from '../bash-output.js';
+import { KillShellTool } from '../kill-shell.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('background commands', () => {
+  let jobs: BackgroundJobManager;
+  let bash: BashTool;
+  let bashOutput: BashOutputTool;
+  let killShell: KillShellTool;
+
+  beforeEach(() => {
+    jobs = new BackgroundJobManager();
+    bash = new BashTool(undefined, jobs);
+    bashOutput = new BashOutputTool(jobs);
+    killShell = new KillShellTool(jobs);
+  });
+
+  afterEach(async () => {
+    await bash.dispose();
+  });
+
+  it('should return a shell ID immediately', async () => {
+    const started = Date.now();
+    const result = await bash.execute({ command: 'sleep 10', run_in_background: true });
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toContain('bash_1');
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it('should return only new output on each read', async () => {
+    await bash.execute({
+      command: 'echo first; sleep 0.3; echo second',
+      description: 'Print two lines',
+      run_in_background: true,
+    });
+
+    await sleep(150);
+    const first = await bashOutput.execute({ bash_id: 'bash_1' });
+    expect(first.content).toContain('running');
+    expect(first.content).toContain('first');
+    expect(first.content).not.toContain('second');
+
+    await sleep(500);
+    const second = await bashOutput.execute({ bash_id: 'bash_1' });
+    expect(second.content).toContain('completed (exit code 0)');
+    expect(second.content).toContain('second');
+    expect(second.content).not.toContain('first');
+  });
+
+  it('should start in the shell working directory', async () => {
+    await bash.execute({ command: 'cd /tmp' });
+    await bash.execute({ command: 'pwd', run_in_background: true });
+
+    await sleep(200);
+    const result = await bashOutput.execute({ bash_id: 'bash_1' });
+    expect(result.content).toContain('/tmp');
+  });
+
+  it('should kill a job and its children', async () => {
+    await bash.execute({ command: 'sleep 30 | cat', run_in_background: true });
+
+    const result = await killShell.execute({ shell_id: 'bash_1' });
+
+    expect(result.is_error).toBe(false);
+    expect(jobs.get('bash_1')?.status).toBe('killed');
+  });
+
+  it('should report unknown IDs', async () => {
+    const output = await bashOutput.execute({ bash_id: 'bash_99' });
+    const kill = await killShell.execute({ shell_id: 'bash_99' });
+
+    expect(output.is_error).toBe(true);
+    expect(kill.is_error).toBe(true);
+  });
+
+  it('should return only the tail of a long backlog', async () => {
+    jobs.start('seq 1 200000; sleep 10', process.cwd());
+
+    await sleep(1000);
+    const output = jobs.readOutput('bash_1');
+
+    expect(output?.truncated).toBe(true);
+    expect(output?.stdout.length).toBeLessThanOrEqual(30000);
+    expect(output?.stdout.endsWith('199999\n200000\n')).toBe(true);
+    expect(jobs.readOutput('bash_1')?.stdout).toBe('');
+  });
+
+  it('should return an unfinished line once it has waited a while', async () => {
+    jobs.start(`printf 'Continue? [y/N] '; sleep 10`, process.cwd());
+
+    await sleep(300);
+    expect(jobs.readOutput('bash_1')?.stdout).toBe('');
+
+    await sleep(1200);
+    expect(jobs.readOutput('bash_1')?.stdout).toBe('Continue? [y/N] ');
+    expect(jobs.readOutput('bash_1')?.stdout).toBe('');
+  });
+});
@@ -2,7 +2,10 @@
  * Tests for Bash tool
  */
 
+import { existsSync } from 'fs';
 import { BashTool } from '../bash.js';
+import { BackgroundJobManager } from '../background-jobs.js';
+import { readProcTable } from '../shell-session.js';
 
 describe('BashTool', () => {
   let tool: BashTool;
@@ -11,6 +14,10 @@ describe('BashTool', () => {
     tool = new BashTool();
   });
 
+  afterEach(async () => {
+    await tool.dispose();
+  });
+
   it('should have correct name', () => {
     expect(tool.name).toBe('Bash');
   });
@@ -42,4 +49,92 @@ describe('BashTool', () => {
     expect(result.is_error).toBe(true);
     expect(result.content).toContain('timed out');
   }, 10000);
+
+  it('should kill the command when aborted', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 100);
+
+    const result = await tool.execute({ command: 'sleep 10' }, { signal: controller.signal });
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('interrupted');
+    expect(Date.now() - started).toBeLessThan(5000);
+  }, 10000);
+
+  it('should keep directory and environment between calls', async () => {
+    await tool.execute({ command: 'cd /tmp && export TAURUS_TEST_VAR=kept' });
+
+    const result = await tool.execute({ command: 'pwd && echo $TAURUS_TEST_VAR' });
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toContain('/tmp');
+    expect(result.content).toContain('kept');
+  });
+
+  it('should keep the shell alive after a timeout', async () => {
+    await tool.execute({ command: 'export TAURUS_TEST_VAR=survived' });
+    await tool.execute({ command: 'sleep 10', timeout: 100 });
+
+    const result = await tool.execute({ command: 'echo $TAURUS_TEST_VAR' });
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toContain('survived');
+  }, 10000);
+
+  it('should start a fresh shell on restart', async () => {
+    await tool.execute({ command: 'export TAURUS_TEST_VAR=stale' });
+
+    const result = await tool.execute({
+      command: 'echo "value:$TAURUS_TEST_VAR"',
+      restart: true,
+    });
+
+    expect(result.content).toContain('value:');
+    expect(result.content).not.toContain('stale');
+  });
+
+  it('should recover after the shell exits', async () => {
+    await tool.execute({ command: 'exit 3' });
+
+    const result = await tool.execute({ command: 'echo "still here"' });
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toContain('still here');
+  });
+
+  it('should not let commands read the framing from stdin', async () => {
+    const result = await tool.execute({ command: 'cat; echo done' });
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toBe('done\n');
+  });
+
+  it('should give a fork its own shell but share background jobs', async () => {
+    const jobs = new BackgroundJobManager();
+    const parent = new BashTool(undefined, jobs);
+    const fork = parent.fork();
+    try {
+      await parent.execute({ command: 'cd /tmp && export TAURUS_TEST_VAR=parent' });
+      await fork.execute({ command: 'cd / && export TAURUS_TEST_VAR=child' });
+      await fork.execute({ command: 'sleep 10', run_in_background: true });
+      await fork.dispose();
+
+      const result = await parent.execute({ command: 'pwd && echo $TAURUS_TEST_VAR' });
+      expect(result.content).toBe('/tmp\nparent\n');
+      expect(jobs.get('bash_1')?.status).toBe('running');
+    } finally {
+      await parent.dispose();
+    }
+  });
+});
+
+describe('readProcTable', () => {
+  // Used to find a command's processes where ps is not installed
+  (existsSync('/proc/self/stat') ? it : it.skip)(
+    'should list each process with its parent',
+    async () => {
+      expect(await readProcTable()).toContainEqual({ pid: process.pid, ppid: process.ppid });
+    }
+  );
 });
@@ -0,0 +1,170 @@
+/**
+ * Tests for read-before-write enforcement
+ */
+
+import { mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStateTracker } from '../file-state.js';
+import { ReadTool } from '../read.js';
+import { WriteTool } from '../write.js';
+import { EditTool } from '../edit.js';
+import { MultiEditTool } from '../multiedit.js';
+
+describe('read-before-write enforcement', () => {
+  let dir: string;
+  let file: string;
+  let read: ReadTool;
+  let write: WriteTool;
+  let edit: EditTool;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'taurus-file-state-'));
+    file = join(dir, 'notes.txt');
+    writeFileSync(file, 'hello world\n');
+
+    const fileState = new FileStateTracker();
+    read = new ReadTool(fileState);
+    write = new WriteTool(fileState);
+    edit = new EditTool(fileState);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should refuse to edit or overwrite a file that was never read', async () => {
+    const edited = await edit.execute({ file_path: file, old_string: 'hello', new_string: 'bye' });
+    const written = await write.execute({ file_path: file, content: 'replaced' });
+
+    expect(edited.is_error).toBe(true);
+    expect(edited.content).toContain('has not been read');
+    expect(written.is_error).toBe(true);
+  });
+
+  it('should allow creating new files without reading', async () => {
+    const result = await write.execute({ file_path: join(dir, 'new.txt'), content: 'new' });
+
+    expect(result.is_error).toBe(false);
+  });
+
+  it('should allow consecutive edits after a read', async () => {
+    await read.execute({ file_path: file });
+
+    const first = await edit.execute({ file_path: file, old_string: 'hello', new_string: 'bye' });
+    const second = await edit.execute({ file_path: file, old_string: 'world', new_string: 'all' });
+
+    expect(first.is_error).toBe(false);
+    expect(second.is_error).toBe(false);
+  });
+
+  it('should refuse to edit a file modified since it was read', async () => {
+    await read.execute({ file_path: file });
+    writeFileSync(file, 'hello from the user\n');
+    utimesSync(file, new Date(), new Date(Date.now() + 5000));
+
+    const result = await edit.execute({ file_path: file, old_string: 'hello', new_string: 'bye' });
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('modified since it was last read');
+  });
+
+  it('should ignore a changed timestamp when the content is unchanged', async () => {
+    await read.execute({ file_path: file });
+    utimesSync(file, new Date(), new Date(Date.now() + 5000));
+
+    const result = await edit.execute({ file_path: file, old_string: 'hello', new_string: 'bye' });
+
+    expect(result.is_error).toBe(false);
+  });
+
+  describe('file encodings', () => {
+    it('should keep a UTF-16LE file and its BOM through Edit and MultiEdit', async () => {
+      const fileState = new FileStateTracker();
+      const multiEdit = new MultiEditTool(fileState);
+      edit = new EditTool(fileState);
+      const original = Buffer.concat([
+        Buffer.from([0xff, 0xfe]),
+        Buffer.from('naïve café\r\nline 2\r\n', 'utf16le'),
+      ]);
+      writeFileSync(file, original);
+
+      await new ReadTool(fileState).execute({ file_path: file });
+      const edited = await edit.execute({
+        file_path: file,
+        old_string: 'café',
+        new_string: 'crème',
+      });
+      const multi = await multiEdit.execute({
+        file_path: file,
+        edits: [{ old_string: 'line 2', new_string: 'ligne 2 — fin' }],
+      });
+
+      expect(edited.is_error).toBe(false);
+      expect(multi.is_error).toBe(false);
+      expect(readFileSync(file)).toEqual(
+        Buffer.concat([
+          Buffer.from([0xff, 0xfe]),
+          Buffer.from('naïve crème\r\nligne 2 — fin\r\n', 'utf16le'),
+        ])
+      );
+    });
+
+    it('should keep a Latin-1 file in Latin-1 through Edit', async () => {
+      writeFileSync(file, Buffer.from('Grüße aus Köln\n', 'latin1'));
+
+      await read.execute({ file_path: file });
+      const edited = await edit.execute({
+        file_path: file,
+        old_string: 'Köln',
+        new_string: 'Zürich',
+      });
+
+      expect(edited.is_error).toBe(false);
+      expect(readFileSync(file)).toEqual(Buffer.from('Grüße aus Zürich\n', 'latin1'));
+    });
+
+    it('should refuse edits a Latin-1 file cannot represent', async () => {
+      writeFileSync(file, Buffer.from('Grüße\n', 'latin1'));
+
+      await read.execute({ file_path: file });
+      const edited = await edit.execute({
+        file_path: file,
+        old_string: 'Grüße',
+        new_string: '你好',
+      });
+
+      expect(edited.is_error).toBe(true);
+      expect(edited.content).toContain('WINDOWS-1252');
+      expect(readFileSync(file)).toEqual(Buffer.from('Grüße\n', 'latin1'));
+    });
+
+    it('should refuse to edit a file with invalid UTF-8 past the sample', async () => {
+      const original = Buffer.concat([
+        Buffer.from(`hello\n${'x'.repeat(70 * 1024)}\n`),
+        Buffer.from('café\n', 'latin1'),
+      ]);
+      writeFileSync(file, original);
+
+      await read.execute({ file_path: file });
+      const edited = await edit.execute({
+        file_path: file,
+        old_string: 'hello',
+        new_string: 'bye',
+      });
+
+      expect(edited.is_error).toBe(true);
+      expect(edited.content).toContain('not valid UTF-8');
+      expect(readFileSync(file)).toEqual(original);
+    });
+
+    it('should keep a UTF-8 BOM when overwriting with Write', async () => {
+      writeFileSync(file, '\ufeffhello\n');
+
+      await read.execute({ file_path: file });
+      await write.execute({ file_path: file, content: 'bye\n' });
+
+      expect(readFileSync(file)).toEqual(Buffer.from('\ufeffbye\n', 'utf-8'));
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for Glob tool
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GlobTool } from '../glob.js';
+
+describe('GlobTool', () => {
+  let dir: string;
+  let tool: GlobTool;
+
+  const write = (relativePath: string, content = '', mtime?: number) => {
+    const path = join(dir, relativePath);
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, content);
+    if (mtime !== undefined) {
+      utimesSync(path, mtime, mtime);
+    }
+  };
+
+  const files = (content: string) => content.split('\n').slice(1);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'taurus-glob-'));
+    tool = new GlobTool();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should skip files ignored by .gitignore and .taurusignore', async () => {
+    write('.gitignore', 'node_modules/\ndist/\n');
+    write('.taurusignore', 'fixtures/\n');
+    write('src/index.ts', '', 1000);
+    write('src/nested/.taurusignore', 'generated.ts\n');
+    write('src/nested/generated.ts', '', 1000);
+    write('src/nested/kept.ts', '', 1000);
+    write('node_modules/pkg/index.ts');
+    write('dist/index.ts');
+    write('fixtures/sample.ts');
+    write('.hidden/secret.ts');
+
+    const result = await tool.execute({ pattern: '**/*.ts', path: dir });
+
+    expect(result.is_error).toBeFalsy();
+    expect(files(result.content as string).sort()).toEqual([
+      join(dir, 'src/index.ts'),
+      join(dir, 'src/nested/kept.ts'),
+    ]);
+    expect(result.content).toMatch(/^Found 2 files:/);
+  });
+
+  it('should match hidden files when the pattern names them', async () => {
+    write('.github/workflows/ci.yml');
+    write('src/ci.yml');
+
+    const result = await tool.execute({ pattern: '.github/**/*.yml', path: dir });
+
+    expect(files(result.content as string)).toEqual([join(dir, '.github/workflows/ci.yml')]);
+  });
+
+  it('should sort by modification time, newest first', async () => {
+    write('old.ts', '', 1000);
+    write('new.ts', '', 3000);
+    write('middle.ts', '', 2000);
+
+    const result = await tool.execute({ pattern: '*.ts', path: dir });
+
+    expect(files(result.content as string)).toEqual([
+      join(dir, 'new.ts'),
+      join(dir, 'middle.ts'),
+      join(dir, 'old.ts'),
+    ]);
+  });
+
+  it('should cap the number of results', async () => {
+    for (let i = 0; i < 105; i++) {
+      write(`file${i}.txt`, '', 1000 + i);
+    }
+
+    const result = await tool.execute({ pattern: '*.txt', path: dir });
+    const lines = (result.content as string).split('\n');
+
+    expect(lines[0]).toBe('Found 105 files:');
+    expect(lines[1]).toBe(join(dir, 'file104.txt'));
+    expect(lines).toHaveLength(102);
+    expect(lines[101]).toMatch(/^\(5 more files not shown/);
+  });
+
+  it('should accept absolute patterns', async () => {
+    write('src/a.ts');
+
+    const result = await tool.execute({ pattern: join(dir, 'src/*.ts') });
+
+    expect(files(result.content as string)).toEqual([join(dir, 'src/a.ts')]);
+  });
+
+  it('should report no matches and missing directories', async () => {
+    const empty = await tool.execute({ pattern: '*.ts', path: dir });
+    expect(empty.content).toBe('No files matched the pattern');
+
+    const missing = await tool.execute({ pattern: '*.ts', path: join(dir, 'missing') });
+    expect(missing.is_error).toBe(true);
+    expect(missing.content).toContain('Directory does not exist');
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Tests for Grep tool
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GrepTool } from '../grep.js';
+import {
+  formatGrepResults,
+  parseRipgrepJson,
+  RipgrepJsonParser,
+  searchNative,
+} from '../grep-search.js';
+
+describe('GrepTool (native engine)', () => {
+  let dir: string;
+  let tool: GrepTool;
+
+  const write = (relativePath: string, content: string) => {
+    const path = join(dir, relativePath);
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, content);
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'taurus-grep-'));
+    tool = new GrepTool('native');
+
+    write('.gitignore', 'dist/\n*.log\n!keep.log\n');
+    write('src/app.ts', 'const a = 1;\n// TODO: fix "quoted" thing\nconst b = 2;\n');
+    write('src/util.js', 'export function helper() {\n  return 1;\n}\n');
+    write('src/nested/.gitignore', 'generated.ts\n');
+    write('src/nested/generated.ts', '// TODO: generated\n');
+    write('dist/app.js', '// TODO: built\n');
+    write('debug.log', 'TODO in log\n');
+    write('keep.log', 'TODO kept\n');
+    write('.hidden/secret.ts', '// TODO: hidden\n');
+    write('image.bin', 'TODO\0binary');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should honour .gitignore, hidden and binary files', async () => {
+    const result = await tool.execute({ pattern: 'TODO', path: dir });
+
+    expect(result.content).toBe([join(dir, 'keep.log'), join(dir, 'src/app.ts')].join('\n'));
+  });
+
+  it('should handle patterns with quotes and filter with globs', async () => {
+    const result = await tool.execute({
+      pattern: '"quoted"',
+      path: dir,
+      glob: '*.{ts,tsx}',
+      output_mode: 'content',
+    });
+
+    expect(result.content).toBe(`${join(dir, 'src/app.ts')}:2:// TODO: fix "quoted" thing`);
+  });
+
+  it('should exclude with negated globs', async () => {
+    const result = await tool.execute({ pattern: 'TODO', path: dir, glob: '!src/**' });
+
+    expect(result.content).toBe(join(dir, 'keep.log'));
+  });
+
+  it('should show context lines', async () => {
+    const result = await tool.execute({
+      pattern: 'TODO',
+      path: join(dir, 'src'),
+      output_mode: 'content',
+      '-C': 1,
+    });
+
+    const file = join(dir, 'src/app.ts');
+    expect(result.content).toBe(
+      [
+        `${file}-1-const a = 1;`,
+        `${file}:2:// TODO: fix "quoted" thing`,
+        `${file}-3-const b = 2;`,
+      ].join('\n')
+    );
+  });
+
+  it('should match across lines in multiline mode', async () => {
+    const result = await tool.execute({
+      pattern: 'helper\\(\\) \\{.*return',
+      path: dir,
+      multiline: true,
+      output_mode: 'count',
+    });
+
+    expect(result.content).toBe(`${join(dir, 'src/util.js')}:2`);
+  });
+
+  it('should apply head_limit and report no matches', async () => {
+    const limited = await tool.execute({
+      pattern: 'const',
+      path: dir,
+      output_mode: 'content',
+      head_limit: 1,
+    });
+    const none = await tool.execute({ pattern: 'nothing-matches-this', path: dir });
+
+    expect(limited.content).toBe(`${join(dir, 'src/app.ts')}:1:const a = 1;`);
+    expect(none.content).toBe('No matches found');
+  });
+
+  it('should stop walking once head_limit is covered', async () => {
+    for (let i = 0; i < 20; i++) {
+      write(`many/file${String(i).padStart(2, '0')}.txt`, 'needle\n');
+    }
+
+    const results = await searchNative({
+      pattern: 'needle',
+      path: join(dir, 'many'),
+      headLimit: 3,
+      mode: 'files_with_matches',
+    });
+
+    expect(results.map((result) => result.path)).toEqual(
+      ['file00.txt', 'file01.txt', 'file02.txt'].map((name) => join(dir, 'many', name))
+    );
+  });
+
+  it('should list results in the order they were searched', async () => {
+    write('order/b.txt', 'needle\n');
+    write('order/a.txt', 'needle\n');
+    write('order/a-c.txt', 'needle\n');
+    write('order/a/b.txt', 'needle\n');
+
+    const result = await tool.execute({
+      pattern: 'needle',
+      path: join(dir, 'order'),
+      head_limit: 2,
+    });
+
+    // Like `rg --sort path`: a directory's contents come where its name sorts
+    expect(result.content).toBe(
+      [join(dir, 'order/a/b.txt'), join(dir, 'order/a-c.txt')].join('\n')
+    );
+  });
+
+  it('should search an explicitly named ignored file', async () => {
+    const result = await tool.execute({ pattern: 'TODO', path: join(dir, 'debug.log') });
+
+    expect(result.content).toBe(join(dir, 'debug.log'));
+  });
+});
+
+describe('parseRipgrepJson', () => {
+  it('should produce the same output as the native engine', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'taurus-grep-'));
+    const file = join(dir, 'a.txt');
+    writeFileSync(file, 'one\ntwo match\nthree\nfour\nfive match\n');
+
+    try {
+      const rgOutput = [
+        { type: 'begin', data: { path: { text: file } } },
+        {
+          type: 'context',
+          data: { path: { text: file }, lines: { text: 'one\n' }, line_number: 1 },
+        },
+        {
+          type: 'match',
+          data: { path: { text: file }, lines: { text: 'two match\n' }, line_number: 2 },
+        },
+        {
+          type: 'context',
+          data: { path: { text: file }, lines: { text: 'three\n' }, line_number: 3 },
+        },
+        {
+          type: 'context',
+          data: { path: { text: file }, lines: { text: 'four\n' }, line_number: 4 },
+        },
+        {
+          type: 'match',
+          data: { path: { text: file }, lines: { text: 'five match\n' }, line_number: 5 },
+        },
+        { type: 'end', data: { path: { text: file } } },
+        { type: 'summary', data: {} },
+      ]
+        .map((message) => JSON.stringify(message))
+        .join('\n');
+
+      const native = await searchNative({ pattern: 'match', path: dir, before: 1, after: 1 });
+      const options = { context: true };
+
+      expect(formatGrepResults(parseRipgrepJson(rgOutput), 'content', options)).toBe(
+        formatGrepResults(native, 'content', options)
+      );
+      expect(formatGrepResults(parseRipgrepJson(rgOutput), 'count')).toBe(`${file}:2`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should split multiline matches and decode byte paths', () => {
+    const rgOutput = JSON.stringify({
+      type: 'match',
+      data: {
+        path: { bytes: Buffer.from('/tmp/caf\xe9.txt', 'latin1').toString('base64') },
+        lines: { text: 'first\nsecond\n' },
+        line_number: 7,
+      },
+    });
+
+    const [result] = parseRipgrepJson(rgOutput);
+
+    expect(result.path).toBe('/tmp/caf\xe9.txt');
+    expect(result.matchedLines).toBe(2);
+    expect(result.lines.map((line) => line.number)).toEqual([7, 8]);
+  });
+
+  it('should count output lines as rg reports them', () => {
+    const parser = new RipgrepJsonParser();
+    const message = (type: string, path: string, lineNumber = 1) =>
+      JSON.stringify({
+        type,
+        data: { path: { text: path }, lines: { text: 'needle\n' }, line_number: lineNumber },
+      });
+
+    parser.push(message('begin', '/a.ts'));
+    parser.push(message('match', '/a.ts'));
+    parser.push(message('match', '/a.ts', 5));
+    expect(parser.countOutputLines('content')).toBe(2);
+    expect(parser.countOutputLines('count')).toBe(0);
+
+    parser.push(message('end', '/a.ts'));
+    parser.push(message('begin', '/b.ts'));
+    parser.push(message('end', '/b.ts'));
+    expect(parser.countOutputLines('count')).toBe(1);
+    expect(parser.countOutputLines('files_with_matches')).toBe(1);
+  });
+});
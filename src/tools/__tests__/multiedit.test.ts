@@ -0,0 +1,89 @@
+/**
+ * Tests for MultiEdit tool
+ */
+
+import {
+  chmodSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStateTracker } from '../file-state.js';
+import { MultiEditTool } from '../multiedit.js';
+import { ReadTool } from '../read.js';
+
+describe('MultiEditTool', () => {
+  let dir: string;
+  let file: string;
+  let tool: MultiEditTool;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'taurus-multiedit-'));
+    file = join(dir, 'app.ts');
+    writeFileSync(file, 'const a = oldName();\nconst b = oldName();\nconst c = 1;\n');
+
+    const fileState = new FileStateTracker();
+    tool = new MultiEditTool(fileState);
+    await new ReadTool(fileState).execute({ file_path: file });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should apply edits in order', async () => {
+    const result = await tool.execute({
+      file_path: file,
+      edits: [
+        { old_string: 'oldName', new_string: 'newName', replace_all: true },
+        { old_string: 'const c = 1', new_string: 'const c = newName.length' },
+      ],
+    });
+
+    expect(result.is_error).toBe(false);
+    expect(readFileSync(file, 'utf-8')).toBe(
+      'const a = newName();\nconst b = newName();\nconst c = newName.length;\n'
+    );
+  });
+
+  it('should apply nothing when any edit fails', async () => {
+    const result = await tool.execute({
+      file_path: file,
+      edits: [
+        { old_string: 'const c = 1', new_string: 'const c = 2' },
+        { old_string: 'oldName', new_string: 'newName' },
+      ],
+    });
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('Edit 2 of 2');
+    expect(result.content).toContain('appears 2 times');
+    expect(readFileSync(file, 'utf-8')).toContain('const c = 1');
+  });
+
+  it('should keep file permissions and leave no temp files', async () => {
+    chmodSync(file, 0o755);
+
+    await tool.execute({
+      file_path: file,
+      edits: [{ old_string: 'const c = 1', new_string: 'const c = 2' }],
+    });
+
+    expect(statSync(file).mode & 0o777).toBe(0o755);
+    expect(readdirSync(dir)).toEqual(['app.ts']);
+  });
+
+  it('should keep replacement patterns literal', async () => {
+    await tool.execute({
+      file_path: file,
+      edits: [{ old_string: 'const c = 1', new_string: "const c = '$&'" }],
+    });
+
+    expect(readFileSync(file, 'utf-8')).toContain("const c = '$&'");
+  });
+});
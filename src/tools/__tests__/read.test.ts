@@ -0,0 +1,201 @@
+/**
+ * Tests for Read tool
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ReadTool } from '../read.js';
+import { parsePageRange } from '../file-readers.js';
+
+// 1x1 transparent PNG
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+/**
+ * Build a minimal PDF with one line of text per page
+ */
+function buildPdf(pageTexts: string[]): Buffer {
+  const objects: string[] = [];
+  const pageIds = pageTexts.map((_, i) => 4 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageTexts.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  pageTexts.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects[pageIds[i]] =
+      '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] ' +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('ReadTool', () => {
+  let dir: string;
+  let tool: ReadTool;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'taurus-read-'));
+    tool = new ReadTool();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read text files with line numbers', async () => {
+    const file = join(dir, 'notes.txt');
+    writeFileSync(file, 'first\nsecond\n');
+
+    const result = await tool.execute({ file_path: file });
+
+    expect(result.content).toContain('1\tfirst');
+    expect(result.content).toContain('2\tsecond');
+  });
+
+  it('should report the total line count when more lines remain', async () => {
+    const file = join(dir, 'big.log');
+    writeFileSync(file, Array.from({ length: 5000 }, (_, i) => `line ${i + 1}`).join('\n') + '\n');
+
+    const result = await tool.execute({ file_path: file, offset: 10, limit: 3 });
+
+    expect(result.content).toBe(
+      '11\tline 11\n12\tline 12\n13\tline 13\n\n' +
+        '[Showing lines 11-13 of 5000. Use offset and limit to read more.]'
+    );
+  });
+
+  it('should strip carriage returns and cut long lines', async () => {
+    const file = join(dir, 'windows.txt');
+    writeFileSync(file, `short\r\n${'x'.repeat(3000)}\r\n`);
+
+    const result = await tool.execute({ file_path: file });
+
+    expect(result.content).toBe(`1\tshort\n2\t${'x'.repeat(2000)}...`);
+  });
+
+  it('should refuse binary files', async () => {
+    const file = join(dir, 'data.bin');
+    writeFileSync(file, Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x00, 0x00, 0x00]));
+
+    const result = await tool.execute({ file_path: file });
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('binary file');
+  });
+
+  it('should decode UTF-16 and Latin-1 files', async () => {
+    const utf16 = join(dir, 'utf16.txt');
+    const latin1 = join(dir, 'latin1.txt');
+    writeFileSync(
+      utf16,
+      Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('héllo\n', 'utf16le')])
+    );
+    writeFileSync(latin1, Buffer.from('café\n', 'latin1'));
+
+    const utf16Result = await tool.execute({ file_path: utf16 });
+    const latin1Result = await tool.execute({ file_path: latin1 });
+
+    expect(utf16Result.content).toBe('1\théllo\n\n[Decoded as UTF-16LE.]');
+    expect(latin1Result.content).toBe('1\tcafé\n\n[Decoded as WINDOWS-1252.]');
+  });
+
+  it('should return images as image blocks', async () => {
+    const file = join(dir, 'pixel.png');
+    writeFileSync(file, Buffer.from(PNG_BASE64, 'base64'));
+
+    const result = await tool.execute({ file_path: file });
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toEqual([
+      {
+        type: 'image',
+        source: { type: 'base64', media_type: 'image/png', data: PNG_BASE64 },
+      },
+    ]);
+  });
+
+  it('should extract PDF text page by page', async () => {
+    const file = join(dir, 'doc.pdf');
+    writeFileSync(file, buildPdf(['Alpha page', 'Beta page', 'Gamma page']));
+
+    const all = await tool.execute({ file_path: file });
+    const some = await tool.execute({ file_path: file, pages: '2-3' });
+
+    expect(all.is_error).toBe(false);
+    expect(all.content).toContain('--- Page 1 of 3 ---\nAlpha page');
+    expect(some.content).not.toContain('Alpha page');
+    expect(some.content).toContain('--- Page 2 of 3 ---\nBeta page');
+    expect(some.content).toContain('Gamma page');
+  });
+
+  it('should reject out-of-range PDF pages', async () => {
+    const file = join(dir, 'doc.pdf');
+    writeFileSync(file, buildPdf(['Only page']));
+
+    const result = await tool.execute({ file_path: file, pages: '2' });
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('out of range');
+  });
+
+  it('should render notebooks as cells with outputs', async () => {
+    const file = join(dir, 'analysis.ipynb');
+    writeFileSync(
+      file,
+      JSON.stringify({
+        metadata: { kernelspec: { language: 'python' } },
+        cells: [
+          { cell_type: 'markdown', source: ['# Title\n', 'Intro'] },
+          {
+            cell_type: 'code',
+            source: 'print(1 + 1)',
+            outputs: [{ output_type: 'stream', text: ['2\n'] }],
+          },
+          {
+            cell_type: 'code',
+            source: 'plot()',
+            outputs: [{ output_type: 'display_data', data: { 'image/png': PNG_BASE64 } }],
+          },
+        ],
+      })
+    );
+
+    const result = await tool.execute({ file_path: file });
+
+    expect(Array.isArray(result.content)).toBe(true);
+    const [text, image] = result.content as any[];
+    expect(text.text).toContain('<cell index="1" type="markdown">\n# Title\nIntro\n</cell>');
+    expect(text.text).toContain('print(1 + 1)\n</cell>\n<outputs index="2">\n2\n</outputs>');
+    expect(image.type).toBe('image');
+  });
+});
+
+describe('parsePageRange', () => {
+  it('should parse single pages, ranges and lists', () => {
+    expect(parsePageRange('3', 10)).toEqual([3]);
+    expect(parsePageRange('1-3', 10)).toEqual([1, 2, 3]);
+    expect(parsePageRange('5, 1-2, 2', 10)).toEqual([1, 2, 5]);
+  });
+
+  it('should reject malformed ranges', () => {
+    expect(() => parsePageRange('a-b', 10)).toThrow('Invalid page range');
+    expect(() => parsePageRange('4-2', 10)).toThrow('Invalid page range');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for Task tool
+ */
+
+import { TaskTool } from '../task.js';
+import { ToolRegistry } from '../base.js';
+import { BashTool } from '../bash.js';
+import { ReadTool } from '../read.js';
+import { SubagentRequest } from '../../types/index.js';
+
+describe('TaskTool', () => {
+  let tool: TaskTool;
+
+  beforeEach(() => {
+    tool = new TaskTool();
+  });
+
+  it('should reject unknown agent types', async () => {
+    const result = await tool.execute({
+      subagent_type: 'nonexistent',
+      prompt: 'Do something',
+      description: 'Test task',
+    });
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('Unknown agent type');
+  });
+
+  it('should report an error when no runner is configured', async () => {
+    const result = await tool.execute({
+      subagent_type: 'Explore',
+      prompt: 'Find files',
+      description: 'Find files',
+    });
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('not available');
+  });
+
+  it('should return the subagent answer with usage', async () => {
+    const requests: SubagentRequest[] = [];
+    tool.setSubagentRunner(async (request) => {
+      requests.push(request);
+      return {
+        content: 'Found 3 files',
+        usage: { inputTokens: 120, outputTokens: 30 },
+        toolUses: 2,
+      };
+    });
+
+    const result = await tool.execute({
+      subagent_type: 'Explore',
+      prompt: 'Find config files',
+      description: 'Find config files',
+      model: 'haiku',
+    });
+
+    expect(result.is_error).toBe(false);
+    expect(result.content).toContain('Found 3 files');
+    expect(result.content).toContain('input_tokens: 120');
+    expect(result.content).toContain('tool_uses: 2');
+    expect(requests[0]).toEqual({
+      agentType: 'Explore',
+      prompt: 'Find config files',
+      description: 'Find config files',
+      model: 'haiku',
+    });
+  });
+
+  it('should surface runner failures as tool errors', async () => {
+    tool.setSubagentRunner(async () => {
+      throw new Error('rate limited');
+    });
+
+    const result = await tool.execute({
+      subagent_type: 'Plan',
+      prompt: 'Plan the change',
+      description: 'Plan change',
+    });
+
+    expect(result.is_error).toBe(true);
+    expect(result.content).toContain('rate limited');
+  });
+});
+
+describe('ToolRegistry.subset', () => {
+  it('should keep only whitelisted tools and drop exclusions', () => {
+    const registry = new ToolRegistry();
+    registry.register(new BashTool());
+    registry.register(new ReadTool());
+    registry.register(new TaskTool());
+
+    expect(registry.subset(['Read']).getAll().map((t) => t.name)).toEqual(['Read']);
+    expect(
+      registry
+        .subset(['*'], ['Task'])
+        .getAll()
+        .map((t) => t.name)
+    ).toEqual(['Bash', 'Read']);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tests for WebFetch tool
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ClaudeClient } from '../../api/claude.js';
+import { htmlToMarkdown } from '../html-to-markdown.js';
+import { WebFetchTool } from '../webfetch.js';
+
+class MockClaudeClient {
+  prompts: string[] = [];
+
+  async generateText(prompt: string) {
+    this.prompts.push(prompt);
+    return 'Install with npm install example';
+  }
+}
+
+const PAGE = `<!doctype html>
+<html>
+  <head><title>Example Docs</title><style>body { color: red; }</style></head>
+  <body>
+    <nav><a href="/">Home</a> <a href="/about">About</a></nav>
+    <main>
+      <h1>Getting started</h1>
+      <p>Read the <a href="/guide">guide</a> first.</p>
+      <pre><code class="language-sh">npm install example</code></pre>
+      <img src="data:image/png;base64,AAAA" alt="logo">
+    </main>
+    <script>console.log('tracking');</script>
+    <footer>Copyright</footer>
+  </body>
+</html>`;
+
+describe('WebFetchTool', () => {
+  let server: Server;
+  let baseUrl: string;
+  let hits: Record<string, number>;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      hits[req.url!] = (hits[req.url!] ?? 0) + 1;
+      switch (req.url) {
+        case '/docs':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(PAGE);
+          break;
+        case '/moved':
+          res.writeHead(301, { Location: '/docs' });
+          res.end();
+          break;
+        case '/elsewhere':
+          res.writeHead(302, { Location: 'https://example.org/new' });
+          res.end();
+          break;
+        case '/large':
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          res.end('x'.repeat(6 * 1024 * 1024));
+          break;
+        case '/binary':
+          res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+          res.end(Buffer.from([0, 1, 2]));
+          break;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    hits = {};
+  });
+
+  it('should convert HTML to markdown without navigation, scripts or styles', async () => {
+    const tool = new WebFetchTool();
+
+    const result = await tool.execute({ url: `${baseUrl}/docs` });
+    const content = result.content as string;
+
+    expect(result.is_error).toBeFalsy();
+    expect(content).toContain(`Content fetched from ${baseUrl}/docs (Example Docs):`);
+    expect(content).toContain('# Getting started');
+    expect(content).toContain(`[guide](${baseUrl}/guide)`);
+    expect(content).toContain('```sh\nnpm install example\n```');
+    expect(content).not.toMatch(/About|tracking|color: red|Copyright|base64/);
+  });
+
+  it('should run the prompt over the page through the client', async () => {
+    const client = new MockClaudeClient();
+    const tool = new WebFetchTool(client as unknown as ClaudeClient);
+
+    const result = await tool.execute({ url: `${baseUrl}/docs`, prompt: 'How do I install it?' });
+
+    expect(result.content).toBe('Install with npm install example');
+    expect(client.prompts).toHaveLength(1);
+    expect(client.prompts[0]).toContain('# Getting started');
+    expect(client.prompts[0]).toContain('How do I install it?');
+  });
+
+  it('should cache pages across calls', async () => {
+    const tool = new WebFetchTool();
+
+    await tool.execute({ url: `${baseUrl}/docs` });
+    await tool.execute({ url: `${baseUrl}/docs` });
+
+    expect(hits['/docs']).toBe(1);
+  });
+
+  it('should follow same-host redirects and report cross-host ones', async () => {
+    const tool = new WebFetchTool();
+
+    const moved = await tool.execute({ url: `${baseUrl}/moved` });
+    expect(moved.content).toContain(`Content fetched from ${baseUrl}/docs`);
+
+    const elsewhere = await tool.execute({ url: `${baseUrl}/elsewhere` });
+    expect(elsewhere.is_error).toBeFalsy();
+    expect(elsewhere.content).toContain('REDIRECT DETECTED');
+    expect(elsewhere.content).toContain('Redirect URL: https://example.org/new');
+  });
+
+  it('should cap the response size and the returned text', async () => {
+    const tool = new WebFetchTool();
+
+    const result = await tool.execute({ url: `${baseUrl}/large` });
+    const content = result.content as string;
+
+    expect(content).toContain('[Response exceeded 5242880 bytes and was truncated]');
+    expect(content).toContain('[Content truncated to 30000 characters]');
+    expect(content.length).toBeLessThan(31000);
+  });
+
+  it('should reject unsupported content and failed requests', async () => {
+    const tool = new WebFetchTool();
+
+    const binary = await tool.execute({ url: `${baseUrl}/binary` });
+    expect(binary.is_error).toBe(true);
+    expect(binary.content).toContain('Unsupported content type: application/octet-stream');
+
+    const missing = await tool.execute({ url: `${baseUrl}/missing` });
+    expect(missing.is_error).toBe(true);
+    expect(missing.content).toContain('HTTP 404');
+
+    const invalid = await tool.execute({ url: 'ftp://example.com/file' });
+    expect(invalid.content).toContain('Unsupported URL scheme');
+  });
+});
+
+describe('htmlToMarkdown', () => {
+  it('should resolve relative images and drop fragment links', () => {
+    const markdown = htmlToMarkdown(
+      '<p><img src="/a.png" alt="A"> <a href="#top">Top</a></p>',
+      'https://example.com/docs/'
+    );
+
+    expect(markdown).toBe('![A](https://example.com/a.png) Top');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for WebSearch tool and search providers
+ */
+
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createToolRegistry } from '../index.js';
+import { createSearchProvider } from '../search-providers.js';
+import { matchesDomain, WebSearchTool } from '../websearch.js';
+
+describe('WebSearchTool', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: IncomingMessage[];
+  let respond: (url: URL) => { status?: number; body: unknown };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req);
+      const { status = 200, body } = respond(new URL(req.url!, baseUrl));
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should query SearXNG and format results', async () => {
+    respond = (url) => ({
+      body: {
+        query: url.searchParams.get('q'),
+        results: [
+          { title: 'TypeScript', url: 'https://www.typescriptlang.org/', content: 'Typed JS' },
+          { title: 'No URL', content: 'skipped' },
+        ],
+      },
+    });
+    const tool = new WebSearchTool(createSearchProvider({ provider: 'searxng', url: baseUrl })!);
+
+    const result = await tool.execute({ query: 'typescript' });
+
+    expect(result.is_error).toBeFalsy();
+    expect(result.content).toBe(
+      'Search results for "typescript" (via SearXNG):\n\n' +
+        '1. TypeScript\n   https://www.typescriptlang.org/\n   Typed JS'
+    );
+    expect(requests[0].url).toBe('/search?q=typescript&format=json');
+  });
+
+  it('should send the Brave API key and read web results', async () => {
+    respond = () => ({
+      body: { web: { results: [{ title: 'Brave', url: 'https://brave.com', description: 'd' }] } },
+    });
+    const tool = new WebSearchTool(
+      createSearchProvider({ provider: 'brave', apiKey: 'secret', url: `${baseUrl}/brave` })!,
+      5
+    );
+
+    const result = await tool.execute({ query: 'browser' });
+
+    expect(result.content).toContain('1. Brave\n   https://brave.com\n   d');
+    expect(requests[0].headers['x-subscription-token']).toBe('secret');
+    expect(requests[0].url).toBe('/brave?q=browser&count=5');
+  });
+
+  it('should map fields of a generic JSON endpoint', async () => {
+    respond = () => ({
+      body: { data: { hits: [{ name: 'Hit', link: 'https://example.com/a', summary: 's' }] } },
+    });
+    const tool = new WebSearchTool(
+      createSearchProvider({
+        provider: 'json',
+        url: `${baseUrl}/api`,
+        queryParam: 'term',
+        resultsPath: 'data.hits',
+        fields: { title: 'name', url: 'link', snippet: 'summary' },
+        headers: { Authorization: 'Bearer token' },
+      })!
+    );
+
+    const result = await tool.execute({ query: 'anything' });
+
+    expect(result.content).toContain('1. Hit\n   https://example.com/a\n   s');
+    expect(requests[0].url).toBe('/api?term=anything');
+    expect(requests[0].headers.authorization).toBe('Bearer token');
+  });
+
+  it('should apply domain filters and cache results per query', async () => {
+    respond = () => ({
+      body: {
+        results: [
+          { title: 'Docs', url: 'https://docs.example.com/page', content: '' },
+          { title: 'Spam', url: 'https://spam.net/x', content: '' },
+          { title: 'Other', url: 'https://other.org/', content: '' },
+        ],
+      },
+    });
+    const tool = new WebSearchTool(createSearchProvider({ provider: 'searxng', url: baseUrl })!);
+
+    const allowed = await tool.execute({ query: 'docs', allowed_domains: ['example.com'] });
+    const blocked = await tool.execute({ query: 'docs', blocked_domains: ['spam.net'] });
+    await tool.execute({ query: 'docs', blocked_domains: ['other.org'] });
+
+    expect(allowed.content).toContain('1. Docs');
+    expect(allowed.content).not.toContain('Other');
+    expect(blocked.content).toContain('2. Other');
+    expect(blocked.content).not.toContain('Spam');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should narrow the query to allowed domains where the backend supports it', async () => {
+    respond = () => ({ body: { results: [], web: { results: [] } } });
+    const searxng = new WebSearchTool(createSearchProvider({ provider: 'searxng', url: baseUrl })!);
+    const brave = new WebSearchTool(
+      createSearchProvider({ provider: 'brave', apiKey: 'secret', url: `${baseUrl}/brave` })!,
+      5
+    );
+
+    await searxng.execute({ query: 'docs', allowed_domains: ['https://docs.python.org/3/'] });
+    await brave.execute({ query: 'docs', allowed_domains: ['a.com', '*.b.org'] });
+
+    const query = (index: number) => new URL(requests[index].url!, baseUrl).searchParams;
+    expect(query(0).get('q')).toBe('docs site:docs.python.org');
+    expect(query(1).get('q')).toBe('docs (site:a.com OR site:b.org)');
+    expect(query(1).get('count')).toBe('15');
+  });
+
+  it('should over-fetch when filtering results the backend cannot narrow', async () => {
+    const hit = (host: string, n: number) => ({
+      title: `${host} ${n}`,
+      url: `https://${host}/${n}`,
+    });
+    respond = () => ({
+      body: [1, 2, 3, 4]
+        .map((n) => hit('other.org', n))
+        .concat([5, 6, 7].map((n) => hit('example.com', n))),
+    });
+    const tool = new WebSearchTool(
+      createSearchProvider({ provider: 'json', url: `${baseUrl}/api` })!,
+      2
+    );
+
+    const result = await tool.execute({ query: 'docs', allowed_domains: ['example.com'] });
+
+    expect(requests[0].url).toBe('/api?q=docs');
+    expect(result.content).toContain('1. example.com 5');
+    expect(result.content).toContain('2. example.com 6');
+    expect(result.content).not.toContain('example.com 7');
+  });
+
+  it('should report provider errors without caching them', async () => {
+    respond = () => ({ status: 500, body: {} });
+    const tool = new WebSearchTool(createSearchProvider({ provider: 'searxng', url: baseUrl })!);
+
+    const failed = await tool.execute({ query: 'broken' });
+    expect(failed.is_error).toBe(true);
+    expect(failed.content).toContain('Search failed (SearXNG): HTTP 500');
+
+    respond = () => ({ body: { results: [] } });
+    const empty = await tool.execute({ query: 'broken' });
+    expect(empty.content).toBe('No results found for "broken"');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should only be registered when a provider is configured', () => {
+    expect(createToolRegistry().get('WebSearch')).toBeUndefined();
+    expect(
+      createToolRegistry({ webSearch: { provider: 'searxng', url: baseUrl } }).get('WebSearch')
+    ).toBeDefined();
+    expect(() => createSearchProvider({ provider: 'brave' })).toThrow('apiKey is required');
+  });
+
+  it('should match domains and their subdomains', () => {
+    expect(matchesDomain('https://a.b.example.com/x', 'example.com')).toBe(true);
+    expect(matchesDomain('https://example.com', 'https://example.com/')).toBe(true);
+    expect(matchesDomain('https://notexample.com', 'example.com')).toBe(false);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Background jobs - Process table for commands started with run_in_background
+ */
+
+import { spawn } from 'child_process';
+import { appendFileSync, closeSync, mkdtempSync, openSync, readSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Sandbox } from '../sandbox/index.js';
+
+export type BackgroundJobStatus = 'running' | 'completed' | 'failed' | 'killed';
+
+export interface BackgroundJob {
+  id: string;
+  command: string;
+  description?: string;
+  pid?: number;
+  status: BackgroundJobStatus;
+  exitCode: number | null;
+  startedAt: Date;
+  endedAt?: Date;
+  stdoutPath: string;
+  stderrPath: string;
+}
+
+export interface BackgroundJobOutput {
+  job: BackgroundJob;
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+}
+
+interface JobState extends BackgroundJob {
+  stdoutOffset: number;
+  stderrOffset: number;
+  /** When an unfinished last line was first held back, per stream */
+  pendingSince: { stdout?: number; stderr?: number };
+  exited: Promise<void>;
+}
+
+// Largest chunk of new output returned per stream by a single read
+const MAX_READ_CHARS = 30000;
+
+// Bytes read from the end of the unread output; enough for MAX_READ_CHARS
+// characters of any UTF-8 text
+const MAX_READ_BYTES = MAX_READ_CHARS * 4;
+
+// An unfinished line (a prompt, a progress bar redrawn with \r) is returned
+// anyway once it is this long or has been waiting this long
+const MAX_PARTIAL_LINE_BYTES = 4096;
+const PARTIAL_LINE_FLUSH_MS = 1000;
+
+const KILL_GRACE_MS = 2000;
+
+/**
+ * Length of the first `end` bytes without a UTF-8 character that is cut
+ * off at the end
+ */
+function withoutPartialCharacter(buffer: Buffer, end: number): number {
+  let lead = end - 1;
+  while (lead >= 0 && end - lead < 4 && (buffer[lead] & 0xc0) === 0x80) {
+    lead--;
+  }
+  if (lead < 0 || buffer[lead] < 0xc0) {
+    return end;
+  }
+  const size = buffer[lead] >= 0xf0 ? 4 : buffer[lead] >= 0xe0 ? 3 : 2;
+  return end - lead < size ? lead : end;
+}
+
+/**
+ * Starts commands detached from the Bash tool's shell, in their own process
+ * group, with stdout and stderr written to files so output survives between
+ * polls. Each read returns only output produced since the previous read.
+ */
+export class BackgroundJobManager {
+  private jobs: Map<string, JobState> = new Map();
+  private nextId = 1;
+  private outputDir?: string;
+
+  constructor(private sandbox: Sandbox = new Sandbox()) {}
+
+  start(command: string, cwd: string, description?: string): BackgroundJob {
+    const id = `bash_${this.nextId++}`;
+    const dir = this.getOutputDir();
+    const stdoutPath = join(dir, `${id}.stdout`);
+    const stderrPath = join(dir, `${id}.stderr`);
+    const stdoutFd = openSync(stdoutPath, 'w');
+    const stderrFd = openSync(stderrPath, 'w');
+
+    const invocation = this.sandbox.wrap(['-c', command], cwd);
+    const child = spawn(invocation.file, invocation.args, {
+      cwd,
+      env: invocation.env,
+      stdio: ['ignore', stdoutFd, stderrFd],
+      detached: true,
+    });
+    closeSync(stdoutFd);
+    closeSync(stderrFd);
+
+    let onExited: () => void = () => {};
+    const job: JobState = {
+      id,
+      command,
+      description,
+      pid: child.pid,
+      status: 'running',
+      exitCode: null,
+      startedAt: new Date(),
+      stdoutPath,
+      stderrPath,
+      stdoutOffset: 0,
+      stderrOffset: 0,
+      pendingSince: {},
+      exited: new Promise((resolve) => (onExited = resolve)),
+    };
+    this.jobs.set(id, job);
+
+    child.on('error', (error) => {
+      job.status = 'failed';
+      job.endedAt = new Date();
+      const message =
+        (error as NodeJS.ErrnoException).code === 'ENOENT' && this.sandbox.isEnabled()
+          ? this.sandbox.unavailableMessage()
+          : `Failed to start: ${error.message}`;
+      appendFileSync(stderrPath, `${message}\n`);
+      onExited();
+    });
+    child.on('exit', (code) => {
+      if (job.status === 'running') {
+        job.status = code === 0 ? 'completed' : 'failed';
+      }
+      job.exitCode = code;
+      job.endedAt = new Date();
+      onExited();
+    });
+
+    // A running job must not keep the process alive on its own
+    child.unref();
+
+    return this.snapshot(job);
+  }
+
+  get(id: string): BackgroundJob | undefined {
+    const job = this.jobs.get(id);
+    return job ? this.snapshot(job) : undefined;
+  }
+
+  list(): BackgroundJob[] {
+    return Array.from(this.jobs.values()).map((job) => this.snapshot(job));
+  }
+
+  /**
+   * Output written since the previous read. While the job runs, an
+   * unfinished last line is held back until it is finished, grows long or
+   * has waited a while. An optional filter keeps matching lines.
+   */
+  readOutput(id: string, filter?: RegExp): BackgroundJobOutput | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+
+    const ended = job.status !== 'running';
+    const stdout = this.readNew(job, 'stdout', ended);
+    const stderr = this.readNew(job, 'stderr', ended);
+
+    const applyFilter = (text: string) =>
+      filter
+        ? text
+            .split('\n')
+            .filter((line) => filter.test(line))
+            .join('\n')
+        : text;
+
+    return {
+      job: this.snapshot(job),
+      stdout: applyFilter(stdout.text),
+      stderr: applyFilter(stderr.text),
+      truncated: stdout.truncated || stderr.truncated,
+    };
+  }
+
+  /**
+   * Terminate a job's process group, escalating to SIGKILL if it lingers
+   */
+  async kill(id: string): Promise<BackgroundJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    if (job.status !== 'running' || !job.pid) {
+      return this.snapshot(job);
+    }
+
+    job.status = 'killed';
+    this.signal(job.pid, 'SIGTERM');
+
+    const exited = await Promise.race([
+      job.exited.then(() => true),
+      new Promise<boolean>((resolve) => setTimeout(() => resolve(false), KILL_GRACE_MS)),
+    ]);
+    if (!exited) {
+      this.signal(job.pid, 'SIGKILL');
+      await job.exited;
+    }
+
+    return this.snapshot(job);
+  }
+
+  /**
+   * Kill every running job and remove the output files
+   */
+  async dispose(): Promise<void> {
+    await Promise.all(Array.from(this.jobs.keys()).map((id) => this.kill(id)));
+    this.jobs.clear();
+
+    if (this.outputDir) {
+      rmSync(this.outputDir, { recursive: true, force: true });
+      this.outputDir = undefined;
+    }
+  }
+
+  private readNew(
+    job: JobState,
+    stream: 'stdout' | 'stderr',
+    ended: boolean
+  ): { text: string; truncated: boolean } {
+    const path = stream === 'stdout' ? job.stdoutPath : job.stderrPath;
+    const offsetKey = stream === 'stdout' ? 'stdoutOffset' : 'stderrOffset';
+
+    let size: number;
+    try {
+      size = statSync(path).size;
+    } catch {
+      return { text: '', truncated: false };
+    }
+
+    const start = job[offsetKey];
+    if (size <= start) {
+      return { text: '', truncated: false };
+    }
+
+    // Only the tail of a large backlog is returned, so only the tail is read
+    const readStart = Math.max(start, size - MAX_READ_BYTES);
+    const buffer = Buffer.alloc(size - readStart);
+    const fd = openSync(path, 'r');
+    try {
+      readSync(fd, buffer, 0, buffer.length, readStart);
+    } finally {
+      closeSync(fd);
+    }
+
+    // Don't start in the middle of a multi-byte character
+    let first = 0;
+    if (readStart > start) {
+      while (first < buffer.length && (buffer[first] & 0xc0) === 0x80) {
+        first++;
+      }
+    }
+
+    let length = buffer.length;
+    if (!ended) {
+      const pending = buffer.length - (buffer.lastIndexOf(0x0a) + 1);
+      const pendingSince = job.pendingSince[stream] ?? Date.now();
+      if (
+        pending > 0 &&
+        pending < MAX_PARTIAL_LINE_BYTES &&
+        Date.now() - pendingSince < PARTIAL_LINE_FLUSH_MS
+      ) {
+        // Hold back the unfinished last line for now
+        length -= pending;
+        job.pendingSince[stream] = pendingSince;
+      } else {
+        length = withoutPartialCharacter(buffer, length);
+        delete job.pendingSince[stream];
+      }
+    }
+    if (length < first) {
+      length = first;
+    }
+    job[offsetKey] = readStart + length;
+
+    let text = buffer.subarray(first, length).toString('utf-8');
+    let truncated = readStart > start;
+    if (text.length > MAX_READ_CHARS) {
+      text = text.substring(text.length - MAX_READ_CHARS);
+      truncated = true;
+    }
+
+    return { text, truncated };
+  }
+
+  private signal(pid: number, signal: NodeJS.Signals): void {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // Process group already gone
+    }
+  }
+
+  private getOutputDir(): string {
+    if (!this.outputDir) {
+      this.outputDir = mkdtempSync(join(tmpdir(), 'taurus-jobs-'));
+    }
+    return this.outputDir;
+  }
+
+  private snapshot(job: JobState): BackgroundJob {
+    return {
+      id: job.id,
+      command: job.command,
+      description: job.description,
+      pid: job.pid,
+      status: job.status,
+      exitCode: job.exitCode,
+      startedAt: job.startedAt,
+      endedAt: job.endedAt,
+      stdoutPath: job.stdoutPath,
+      stderrPath: job.stderrPath,
+    };
+  }
+}
@@ -2,7 +2,72 @@
  * Base tool interface and registry
  */
 
-import { Tool, ToolExecutor, ToolResult } from '../types/index.js';
+import {
+  Tool,
+  ToolExecutionContext,
+  ToolExecutor,
+  ToolResult,
+  ToolResultContent,
+} from '../types/index.js';
+
+/**
+ * Result recorded for a tool call that was cancelled by the user
+ */
+export const INTERRUPTED_RESULT: ToolResult = {
+  content: 'Tool execution was interrupted by the user',
+  is_error: true,
+};
+
+/**
+ * Flatten tool output to text, with a placeholder for each image
+ */
+export function toolResultText(content: ToolResultContent): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .map((block) => (block.type === 'text' ? block.text : `[Image: ${block.source.media_type}]`))
+    .join('\n');
+}
+
+/**
+ * Add a paragraph of text to the end of a tool's output
+ */
+export function appendToolResultText(result: ToolResult, text: string): ToolResult {
+  const content: ToolResultContent =
+    typeof result.content === 'string'
+      ? `${result.content}\n\n${text}`
+      : [...result.content, { type: 'text', text }];
+  return { ...result, content };
+}
+
+/**
+ * Resolve with the tool's result, or with INTERRUPTED_RESULT as soon as the
+ * signal fires. Tools that honour the signal clean up on their own; others
+ * are left to finish in the background with their result discarded.
+ */
+function raceAbort(execution: Promise<ToolResult>, signal?: AbortSignal): Promise<ToolResult> {
+  if (!signal) {
+    return execution;
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(INTERRUPTED_RESULT);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    execution.then(
+      (result) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
 
 export abstract class BaseTool implements ToolExecutor {
   abstract name: string;
@@ -17,9 +82,14 @@ export abstract class BaseTool implements ToolExecutor {
     };
   }
 
-  abstract execute(input: Record<string, any>): Promise<ToolResult>;
+  abstract execute(input: Record<string, any>, context?: ToolExecutionContext): Promise<ToolResult>;
+
+  /**
+   * Release long-lived resources such as child processes
+   */
+  async dispose(): Promise<void> {}
 
-  protected success(content: string): ToolResult {
+  protected success(content: ToolResultContent): ToolResult {
     return { content, is_error: false };
   }
 
@@ -47,7 +117,32 @@ export class ToolRegistry {
     return this.getAll().map((tool) => tool.getDefinition());
   }
 
-  async execute(name: string, input: Record<string, any>): Promise<ToolResult> {
+  /**
+   * Create a registry containing only the named tools ('*' selects all),
+   * minus any explicitly excluded ones. Tool instances are shared.
+   */
+  subset(names: string[], exclude: string[] = []): ToolRegistry {
+    const registry = new ToolRegistry();
+    const includeAll = names.includes('*');
+
+    for (const tool of this.getAll()) {
+      if ((includeAll || names.includes(tool.name)) && !exclude.includes(tool.name)) {
+        registry.register(tool);
+      }
+    }
+
+    return registry;
+  }
+
+  async dispose(): Promise<void> {
+    await Promise.all(this.getAll().map((tool) => tool.dispose()));
+  }
+
+  async execute(
+    name: string,
+    input: Record<string, any>,
+    context: ToolExecutionContext = {}
+  ): Promise<ToolResult> {
     const tool = this.get(name);
     if (!tool) {
       return {
@@ -56,8 +151,12 @@ export class ToolRegistry {
       };
     }
 
+    if (context.signal?.aborted) {
+      return INTERRUPTED_RESULT;
+    }
+
     try {
-      return await tool.execute(input);
+      return await raceAbort(tool.execute(input, context), context.signal);
     } catch (error) {
       return {
         content: `Error executing tool "${name}": ${error instanceof Error ? error.message : String(error)}`,
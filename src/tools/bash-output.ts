@@ -0,0 +1,87 @@
+/**
+ * BashOutput tool - Read output from background shell commands
+ */
+
+import { BaseTool } from './base.js';
+import { BackgroundJob, BackgroundJobManager } from './background-jobs.js';
+
+/**
+ * One-line status used by BashOutput and KillShell
+ */
+export function describeJob(job: BackgroundJob): string {
+  const exit = job.exitCode !== null ? ` (exit code ${job.exitCode})` : '';
+  return `${job.id}: ${job.status}${exit} - ${job.description ?? job.command}`;
+}
+
+export class BashOutputTool extends BaseTool {
+  name = 'BashOutput';
+  description = `Retrieves output from a background shell command started with run_in_background.
+
+Usage notes:
+- Returns only the output produced since the last time this tool was called for the same shell
+- Always reports the current status: running, completed, failed or killed
+- Supports an optional regular expression to keep only matching lines
+- Omit bash_id to list all background shells and their status`;
+
+  schema = {
+    type: 'object' as const,
+    properties: {
+      bash_id: {
+        type: 'string',
+        description: 'The ID of the background shell to read output from',
+      },
+      filter: {
+        type: 'string',
+        description:
+          'Optional regular expression; only matching lines are returned. Non-matching lines are discarded and cannot be read again.',
+      },
+    },
+    required: [],
+  };
+
+  constructor(private jobs: BackgroundJobManager) {
+    super();
+  }
+
+  async execute(input: Record<string, any>) {
+    const { bash_id, filter } = input;
+
+    if (!bash_id) {
+      const jobs = this.jobs.list();
+      if (jobs.length === 0) {
+        return this.success('No background shells');
+      }
+      return this.success(jobs.map(describeJob).join('\n'));
+    }
+
+    let pattern: RegExp | undefined;
+    if (filter) {
+      try {
+        pattern = new RegExp(filter);
+      } catch (error: any) {
+        return this.error(`Invalid filter: ${error.message}`);
+      }
+    }
+
+    const output = this.jobs.readOutput(bash_id, pattern);
+    if (!output) {
+      return this.error(`No background shell with ID ${bash_id}`);
+    }
+
+    const sections = [`<status>${describeJob(output.job)}</status>`];
+    if (output.stdout) {
+      sections.push(`<stdout>\n${output.stdout.trimEnd()}\n</stdout>`);
+    }
+    if (output.stderr) {
+      sections.push(`<stderr>\n${output.stderr.trimEnd()}\n</stderr>`);
+    }
+    if (!output.stdout && !output.stderr) {
+      sections.push('No new output');
+    }
+    if (output.truncated) {
+      sections.push('[Earlier output was truncated]');
+    }
+
+    return this.success(sections.join('\n\n'));
+  }
+}
@@ -3,10 +3,10 @@
  */
 
 import { BaseTool } from './base.js';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { ToolExecutionContext } from '../types/index.js';
+import { Sandbox } from '../sandbox/index.js';
+import { ShellSession } from './shell-session.js';
+import { BackgroundJobManager } from './background-jobs.js';
 
 export class BashTool extends BaseTool {
   name = 'Bash';
@@ -16,7 +16,11 @@ Usage notes:
 - This tool is for terminal operations like git, npm, docker, etc.
 - Always quote file paths that contain spaces with double quotes
 - The command argument is required
-- Optional timeout in milliseconds (up to 600000ms / 10 minutes). Default: 120000ms (2 minutes)
+- The shell persists between calls: the working directory, environment variables and activated virtualenvs carry over
+- Commands do not read from stdin; interactive prompts receive end-of-file
+- Optional timeout in milliseconds (up to 600000ms / 10 minutes). Default: 120000ms (2 minutes). On timeout only the running command is killed
+- Set run_in_background to true for long-running commands such as dev servers and watch builds. The command returns immediately with a shell ID; read its output with BashOutput and stop it with KillShell. Do not append "&" to the command yourself
+- Set restart to true to start a fresh shell if the session is in a bad state
 - Avoid using Bash with find, grep, cat, head, tail, sed, awk, or echo commands - use dedicated tools instead`;
 
   schema = {
@@ -34,33 +38,112 @@ Usage notes:
         type: 'number',
         description: 'Optional timeout in milliseconds (max 600000)',
       },
+      run_in_background: {
+        type: 'boolean',
+        description:
+          'Run the command in the background and return immediately. Use BashOutput to read its output.',
+      },
+      restart: {
+        type: 'boolean',
+        description:
+          'Restart the shell session before running the command, discarding directory and environment changes',
+      },
     },
     required: ['command'],
   };
 
-  async execute(input: Record<string, any>) {
-    const { command, timeout = 120000 } = input;
+  private sandbox: Sandbox;
+  private shell: ShellSession;
+  private jobs: BackgroundJobManager;
+  private ownsJobs = true;
+
+  constructor(
+    sandbox: Sandbox = new Sandbox(),
+    jobs: BackgroundJobManager = new BackgroundJobManager(sandbox)
+  ) {
+    super();
+    this.sandbox = sandbox;
+    this.shell = new ShellSession(sandbox);
+    this.jobs = jobs;
+  }
+
+  /**
+   * A Bash tool with its own shell session, so a subagent's cd and export
+   * stay out of this one. Background jobs are shared, so BashOutput and
+   * KillShell see them; disposing the fork only stops its shell.
+   */
+  fork(): BashTool {
+    const bash = new BashTool(this.sandbox, this.jobs);
+    bash.ownsJobs = false;
+    return bash;
+  }
+
+  async execute(input: Record<string, any>, context: ToolExecutionContext = {}) {
+    const {
+      command,
+      description,
+      timeout = 120000,
+      run_in_background = false,
+      restart = false,
+    } = input;
     const maxTimeout = 600000;
     const actualTimeout = Math.min(timeout, maxTimeout);
 
+    if (restart) {
+      await this.shell.restart();
+      if (!command?.trim()) {
+        return this.success('Shell restarted');
+      }
+    }
+
+    if (run_in_background) {
+      const job = this.jobs.start(command, await this.shell.getCwd(), description);
+      return this.success(
+        `Command running in background with ID: ${job.id}. Use BashOutput to read its output and KillShell to stop it.`
+      );
+    }
+
+    let result;
     try {
-      const { stdout, stderr } = await execAsync(command, {
-        timeout: actualTimeout,
-        cwd: process.cwd(),
-        maxBuffer: 10 * 1024 * 1024, // 10MB
-      });
-
-      const output = stdout + (stderr ? `\n${stderr}` : '');
-      return this.success(output || 'Tool ran without output or errors');
+      result = await this.shell.run(command, { timeout: actualTimeout, signal: context.signal });
     } catch (error: any) {
-      if (error.killed) {
-        return this.error(`Command timed out after ${actualTimeout}ms`);
+      if (error.code === 'ENOENT' && this.sandbox.isEnabled()) {
+        return this.error(this.sandbox.unavailableMessage());
       }
-      const output = error.stdout || '';
-      const errorOutput = error.stderr || error.message;
+      return this.error(`Failed to start shell: ${error.message}`);
+    }
+
+    const output =
+      result.stdout +
+      (result.stderr ? `\n${result.stderr}` : '') +
+      (result.truncated ? '\n[Output truncated]' : '');
+    const shellNote = result.shellExited
+      ? '\n\nThe shell exited; the next command runs in a new shell session.'
+      : '';
+
+    if (result.interrupted) {
+      return this.error(`Command was interrupted by the user${output ? '\n' + output : ''}`);
+    }
+    if (result.timedOut) {
       return this.error(
-        `Exit code ${error.code}\n${output}${errorOutput ? '\n' + errorOutput : ''}`
+        `Command timed out after ${actualTimeout}ms${output ? '\n' + output : ''}${shellNote}`
       );
     }
+
+    if (result.exitCode !== 0) {
+      const sandboxNote = this.sandbox.explainFailure(output, this.shell.getStartDirectory());
+      return this.error(
+        `Exit code ${result.exitCode}\n${output}${sandboxNote ? '\n\n' + sandboxNote : ''}${shellNote}`
+      );
+    }
+
+    return this.success(output || 'Tool ran without output or errors');
+  }
+
+  async dispose(): Promise<void> {
+    if (this.ownsJobs) {
+      await this.jobs.dispose();
+    }
+    await this.shell.dispose();
   }
 }
@@ -3,14 +3,65 @@
  */
 
 import { BaseTool } from './base.js';
+import { FileStateTracker } from './file-state.js';
+import { TextFormat, decodeText, detectTextFormat, encodeText } from './file-readers.js';
 import { promises as fs } from 'fs';
 
+export type EditResult = { content: string } | { error: string };
+
+/**
+ * Replace old_string in content. Without replaceAll, old_string must occur
+ * exactly once.
+ */
+export function applyEdit(
+  content: string,
+  oldString: string,
+  newString: string,
+  replaceAll: boolean = false
+): EditResult {
+  if (!content.includes(oldString)) {
+    return { error: 'old_string not found in file' };
+  }
+
+  if (replaceAll) {
+    return { content: content.split(oldString).join(newString) };
+  }
+
+  // Check if old_string appears multiple times
+  const occurrences = content.split(oldString).length - 1;
+  if (occurrences > 1) {
+    return {
+      error: `old_string appears ${occurrences} times in the file. Either provide a larger unique string or use replace_all=true`,
+    };
+  }
+
+  // A replacer function keeps "$&" and friends in newString literal
+  return { content: content.replace(oldString, () => newString) };
+}
+
+/**
+ * Read a file to edit it, decoded with the encoding it was last read with.
+ * Write the result back with encodeText and the same format, so the
+ * encoding and BOM survive the edit.
+ */
+export async function readFileForEdit(
+  filePath: string,
+  fileState: FileStateTracker
+): Promise<{ content: string; format: TextFormat }> {
+  const data = await fs.readFile(filePath);
+  const format = fileState.getFormat(filePath) ?? detectTextFormat(data);
+  if (!format) {
+    throw new Error('This is a binary file and cannot be edited as text');
+  }
+  return { content: decodeText(data, format), format };
+}
+
 export class EditTool extends BaseTool {
   name = 'Edit';
   description = `Performs exact string replacements in files.
 
 Usage:
-- You must use the Read tool at least once before editing
+- You must use the Read tool at least once before editing. The edit will FAIL if the file has changed on disk since it was read; Read it again first
 - Preserve exact indentation as it appears in the file
 - ALWAYS prefer editing existing files over writing new ones
 - Only use emojis if the user explicitly requests it
@@ -41,6 +92,10 @@ Usage:
     required: ['file_path', 'old_string', 'new_string'],
   };
 
+  constructor(private fileState: FileStateTracker = new FileStateTracker()) {
+    super();
+  }
+
   async execute(input: Record<string, any>) {
     const { file_path, old_string, new_string, replace_all = false } = input;
 
@@ -49,27 +104,21 @@ Usage:
     }
 
     try {
-      const content = await fs.readFile(file_path, 'utf-8');
-
-      if (!content.includes(old_string)) {
-        return this.error('old_string not found in file');
+      const staleError = await this.fileState.checkWritable(file_path);
+      if (staleError) {
+        return this.error(staleError);
       }
 
-      let newContent: string;
-      if (replace_all) {
-        newContent = content.split(old_string).join(new_string);
-      } else {
-        // Check if old_string appears multiple times
-        const occurrences = content.split(old_string).length - 1;
-        if (occurrences > 1) {
-          return this.error(
-            `old_string appears ${occurrences} times in the file. Either provide a larger unique string or use replace_all=true`
-          );
-        }
-        newContent = content.replace(old_string, new_string);
+      const { content, format } = await readFileForEdit(file_path, this.fileState);
+
+      const result = applyEdit(content, old_string, new_string, replace_all);
+      if ('error' in result) {
+        return this.error(result.error);
       }
+      const data = encodeText(result.content, format);
 
-      await fs.writeFile(file_path, newContent, 'utf-8');
+      await fs.writeFile(file_path, data);
+      await this.fileState.recordWrite(file_path, data, format);
       return this.success(`File edited successfully: ${file_path}`);
     } catch (error: any) {
       if (error.code === 'ENOENT') {
@@ -0,0 +1,547 @@
+/**
+ * File readers - Turn images, PDFs and notebooks into tool output
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import { extname } from 'path';
+import { createContentHash } from './file-state.js';
+import { ImageBlock, ImageMediaType, TextBlock, ToolResultContent } from '../types/index.js';
+
+const IMAGE_EXTENSIONS: Record<string, ImageMediaType> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+// Largest image the API accepts
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const MAX_PDF_PAGES_PER_READ = 20;
+
+// Long cell outputs are cut to this many characters
+const MAX_NOTEBOOK_OUTPUT_CHARS = 10000;
+
+// Bytes inspected to detect binary content and the encoding
+const SAMPLE_BYTES = 64 * 1024;
+
+export type FileKind = 'image' | 'pdf' | 'notebook' | 'text';
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+/**
+ * How a text file is stored on disk, so edits can write it back the same way
+ */
+export interface TextFormat {
+  encoding: TextEncoding;
+  /** Whether the file starts with a byte order mark */
+  bom: boolean;
+}
+
+export const UTF8_FORMAT: TextFormat = { encoding: 'utf-8', bom: false };
+
+export interface TextReadOptions {
+  offset: number;
+  limit: number;
+  maxLineChars: number;
+}
+
+export interface TextReadResult {
+  /** Selected lines, without line terminators, cut to maxLineChars */
+  lines: string[];
+  /** Number of lines skipped before the first selected line */
+  offset: number;
+  totalLines: number;
+  format: TextFormat;
+  /** Content hash of the whole file, for the file state tracker */
+  digest: string;
+}
+
+export class BinaryFileError extends Error {
+  constructor(public size: number) {
+    super(
+      `This looks like a binary file (${size} bytes), so it was not read. Use Bash with file, xxd or strings to inspect it.`
+    );
+    this.name = 'BinaryFileError';
+  }
+}
+
+export function detectFileKind(filePath: string): FileKind {
+  const ext = extname(filePath).toLowerCase();
+  if (ext in IMAGE_EXTENSIONS) {
+    return 'image';
+  }
+  if (ext === '.pdf') {
+    return 'pdf';
+  }
+  if (ext === '.ipynb') {
+    return 'notebook';
+  }
+  return 'text';
+}
+
+/**
+ * Checked before an image is loaded, so oversized files are never read
+ */
+export function assertImageSize(size: number): void {
+  if (size > MAX_IMAGE_BYTES) {
+    throw new Error(
+      `Image is too large (${(size / 1024 / 1024).toFixed(1)} MB). The maximum is 5 MB.`
+    );
+  }
+}
+
+export function readImage(filePath: string, data: Buffer): ImageBlock {
+  return {
+    type: 'image',
+    source: {
+      type: 'base64',
+      media_type: IMAGE_EXTENSIONS[extname(filePath).toLowerCase()],
+      data: data.toString('base64'),
+    },
+  };
+}
+
+/**
+ * Parse a page selection like "3", "1-5" or "1,3,7-9" into sorted,
+ * de-duplicated page numbers.
+ */
+export function parsePageRange(range: string, pageCount: number): number[] {
+  const pages = new Set<number>();
+
+  for (const part of range.split(',').map((p) => p.trim())) {
+    const match = part.match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid page range "${range}". Use forms like "3", "1-5" or "1,3,7-9".`);
+    }
+
+    const start = Number(match[1]);
+    const end = match[2] !== undefined ? Number(match[2]) : start;
+    if (start < 1 || end < start) {
+      throw new Error(`Invalid page range "${part}"`);
+    }
+    if (end > pageCount) {
+      throw new Error(`Page ${end} is out of range; the document has ${pageCount} pages`);
+    }
+
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Extract the text of a PDF page by page. Without a page range the first
+ * MAX_PDF_PAGES_PER_READ pages are returned.
+ */
+export async function readPdf(data: Buffer, pageRange?: string): Promise<string> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    useSystemFonts: true,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const pageCount = document.numPages;
+    let pages: number[];
+    let note = '';
+
+    if (pageRange) {
+      pages = parsePageRange(pageRange, pageCount);
+      if (pages.length > MAX_PDF_PAGES_PER_READ) {
+        throw new Error(
+          `Too many pages requested (${pages.length}). Read at most ${MAX_PDF_PAGES_PER_READ} pages at a time.`
+        );
+      }
+    } else {
+      const shown = Math.min(pageCount, MAX_PDF_PAGES_PER_READ);
+      pages = Array.from({ length: shown }, (_, i) => i + 1);
+      if (shown < pageCount) {
+        note = `\n\n[Showing pages 1-${shown} of ${pageCount}. Use the pages parameter to read more.]`;
+      }
+    }
+
+    const sections: string[] = [];
+    for (const pageNumber of pages) {
+      const page = await document.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const text = textContent.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .trim();
+      sections.push(
+        `--- Page ${pageNumber} of ${pageCount} ---\n${text || '[No text on this page]'}`
+      );
+      page.cleanup();
+    }
+
+    return sections.join('\n\n') + note;
+  } finally {
+    await document.destroy();
+  }
+}
+
+interface NotebookOutput {
+  output_type: 'stream' | 'execute_result' | 'display_data' | 'error';
+  text?: string | string[];
+  data?: Record<string, string | string[]>;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+}
+
+interface NotebookCell {
+  id?: string;
+  cell_type: 'code' | 'markdown' | 'raw';
+  source: string | string[];
+  execution_count?: number | null;
+  outputs?: NotebookOutput[];
+}
+
+function joinSource(source: string | string[] | undefined): string {
+  return Array.isArray(source) ? source.join('') : (source ?? '');
+}
+
+function stripAnsi(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\x1b\[[0-9;]*m/g, '');
+}
+
+function truncateOutput(text: string): string {
+  return text.length > MAX_NOTEBOOK_OUTPUT_CHARS
+    ? `${text.substring(0, MAX_NOTEBOOK_OUTPUT_CHARS)}\n... [output truncated]`
+    : text;
+}
+
+/**
+ * Render a Jupyter notebook as its cells in order, each followed by its
+ * outputs. Image outputs become image blocks.
+ */
+export function renderNotebook(json: string): ToolResultContent {
+  let notebook: { cells?: NotebookCell[]; metadata?: Record<string, any> };
+  try {
+    notebook = JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`Invalid notebook JSON: ${error.message}`);
+  }
+
+  const cells = notebook.cells ?? [];
+  if (cells.length === 0) {
+    return '[Notebook has no cells]';
+  }
+
+  const language =
+    notebook.metadata?.kernelspec?.language ?? notebook.metadata?.language_info?.name ?? 'python';
+
+  const blocks: Array<TextBlock | ImageBlock> = [];
+  let text = '';
+  const flushText = () => {
+    if (text) {
+      blocks.push({ type: 'text', text });
+      text = '';
+    }
+  };
+
+  cells.forEach((cell, index) => {
+    const id = cell.id ? ` id="${cell.id}"` : '';
+    const lang = cell.cell_type === 'code' ? ` language="${language}"` : '';
+    text += `<cell index="${index + 1}"${id} type="${cell.cell_type}"${lang}>\n`;
+    text += `${joinSource(cell.source)}\n</cell>\n`;
+
+    const outputs = cell.outputs ?? [];
+    if (outputs.length === 0) {
+      return;
+    }
+
+    text += `<outputs index="${index + 1}">\n`;
+    for (const output of outputs) {
+      switch (output.output_type) {
+        case 'stream':
+          text += truncateOutput(joinSource(output.text)).replace(/\n?$/, '\n');
+          break;
+        case 'execute_result':
+        case 'display_data': {
+          const data = output.data ?? {};
+          const imageType = (['image/png', 'image/jpeg'] as const).find((t) => data[t]);
+          if (imageType) {
+            flushText();
+            blocks.push({
+              type: 'image',
+              source: {
+                type: 'base64',
+                media_type: imageType,
+                data: joinSource(data[imageType]).replace(/\s/g, ''),
+              },
+            });
+          } else if (data['text/plain']) {
+            text += truncateOutput(joinSource(data['text/plain'])).replace(/\n?$/, '\n');
+          }
+          break;
+        }
+        case 'error':
+          text += truncateOutput(
+            stripAnsi([`${output.ename}: ${output.evalue}`, ...(output.traceback ?? [])].join('\n'))
+          ).replace(/\n?$/, '\n');
+          break;
+      }
+    }
+    text += '</outputs>\n';
+  });
+  flushText();
+
+  if (blocks.every((block) => block.type === 'text')) {
+    return blocks.map((block) => (block as TextBlock).text).join('');
+  }
+  return blocks;
+}
+
+/**
+ * Pick a text encoding from a sample of the file, or return null if the
+ * sample looks binary. A BOM wins; UTF-16 without a BOM is recognised by
+ * its zero bytes, and anything that is not valid UTF-8 is read as
+ * Windows-1252 (a superset of Latin-1).
+ */
+export function detectEncoding(sample: Buffer): TextEncoding | null {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (sample[0] === 0xfe && sample[1] === 0xff) {
+    return 'utf-16be';
+  }
+  if (sample.length === 0) {
+    return 'utf-8';
+  }
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  let controls = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const byte = sample[i];
+    if (byte === 0) {
+      if (i % 2 === 0) {
+        evenZeros++;
+      } else {
+        oddZeros++;
+      }
+    } else if (byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b, 0x08].includes(byte)) {
+      controls++;
+    }
+  }
+
+  const pairs = sample.length / 2;
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) {
+    return 'utf-16le';
+  }
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) {
+    return 'utf-16be';
+  }
+  if (evenZeros + oddZeros > 0 || controls > sample.length * 0.1) {
+    return null;
+  }
+
+  try {
+    // stream: true tolerates a character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+function hasBom(sample: Buffer, encoding: TextEncoding): boolean {
+  switch (encoding) {
+    case 'utf-8':
+      return sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf;
+    case 'utf-16le':
+      return sample[0] === 0xff && sample[1] === 0xfe;
+    case 'utf-16be':
+      return sample[0] === 0xfe && sample[1] === 0xff;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Detect the format of a whole file's contents, or return null if it
+ * looks binary. Unlike the sample, the whole file must be valid UTF-8 to be
+ * read as UTF-8.
+ */
+export function detectTextFormat(data: Buffer): TextFormat | null {
+  let encoding = detectEncoding(data.subarray(0, SAMPLE_BYTES));
+  if (encoding === 'utf-8' && data.length > SAMPLE_BYTES && !isValidText(data, encoding)) {
+    encoding = 'windows-1252';
+  }
+  return encoding ? { encoding, bom: hasBom(data, encoding) } : null;
+}
+
+function isValidText(data: Buffer, encoding: TextEncoding): boolean {
+  try {
+    new TextDecoder(encoding, { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decode file contents in the given format. The BOM is not part of the text.
+ * Throws if any bytes are invalid in that encoding, as writing the text back
+ * would replace them.
+ */
+export function decodeText(data: Buffer, format: TextFormat): string {
+  try {
+    return new TextDecoder(format.encoding, { fatal: true }).decode(data);
+  } catch {
+    throw new Error(
+      `The file is not valid ${format.encoding.toUpperCase()} throughout, so editing it would corrupt it`
+    );
+  }
+}
+
+let windows1252Bytes: Map<string, number> | undefined;
+
+/**
+ * Encode text the way a file was stored. Throws if the text has characters
+ * the encoding cannot represent.
+ */
+export function encodeText(text: string, format: TextFormat): Buffer {
+  switch (format.encoding) {
+    case 'utf-8':
+      return Buffer.concat([
+        Buffer.from(format.bom ? [0xef, 0xbb, 0xbf] : []),
+        Buffer.from(text, 'utf-8'),
+      ]);
+    case 'utf-16le':
+      return Buffer.concat([
+        Buffer.from(format.bom ? [0xff, 0xfe] : []),
+        Buffer.from(text, 'utf16le'),
+      ]);
+    case 'utf-16be':
+      return Buffer.concat([
+        Buffer.from(format.bom ? [0xfe, 0xff] : []),
+        Buffer.from(text, 'utf16le').swap16(),
+      ]);
+    case 'windows-1252': {
+      // The inverse of whatever the decoder maps each byte to
+      if (!windows1252Bytes) {
+        const decoder = new TextDecoder('windows-1252');
+        windows1252Bytes = new Map();
+        for (let byte = 0; byte < 256; byte++) {
+          windows1252Bytes.set(decoder.decode(Buffer.from([byte])), byte);
+        }
+      }
+      const bytes: number[] = [];
+      for (const char of text) {
+        const byte = windows1252Bytes.get(char);
+        if (byte === undefined) {
+          throw new Error(`The file is encoded as WINDOWS-1252, which cannot represent "${char}"`);
+        }
+        bytes.push(byte);
+      }
+      return Buffer.from(bytes);
+    }
+  }
+}
+
+async function readSample(filePath: string): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SAMPLE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SAMPLE_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Stream a text file and keep only the requested window of lines, while
+ * counting every line and hashing the whole file. Memory use depends on
+ * the window, not the file size.
+ */
+export async function readTextLines(
+  filePath: string,
+  options: TextReadOptions
+): Promise<TextReadResult> {
+  const { size } = await fs.stat(filePath);
+  const sample = await readSample(filePath);
+  const encoding = detectEncoding(sample);
+  if (!encoding) {
+    throw new BinaryFileError(size);
+  }
+
+  const start = Math.max(0, Math.floor(options.offset));
+  const end = start + Math.max(0, Math.floor(options.limit));
+  const decoder = new TextDecoder(encoding);
+  const hash = createContentHash();
+
+  const lines: string[] = [];
+  let lineIndex = 0;
+  let current = '';
+  let partial = false;
+
+  const inWindow = () => lineIndex >= start && lineIndex < end;
+  const keep = (piece: string) => {
+    if (current.length <= options.maxLineChars) {
+      current += piece.substring(0, options.maxLineChars + 1 - current.length);
+    }
+  };
+  const finishLine = () => {
+    const line = current.replace(/\r$/, '');
+    lines.push(
+      line.length > options.maxLineChars ? `${line.substring(0, options.maxLineChars)}...` : line
+    );
+    current = '';
+  };
+
+  const consume = (text: string) => {
+    let pos = 0;
+    while (pos < text.length) {
+      const newline = text.indexOf('\n', pos);
+      if (newline === -1) {
+        if (inWindow()) {
+          keep(text.substring(pos));
+        }
+        partial = true;
+        return;
+      }
+
+      if (inWindow()) {
+        keep(text.substring(pos, newline));
+        finishLine();
+      }
+      lineIndex++;
+      partial = false;
+      pos = newline + 1;
+    }
+  };
+
+  for await (const chunk of createReadStream(filePath, { highWaterMark: SAMPLE_BYTES })) {
+    hash.update(chunk as Buffer);
+    consume(decoder.decode(chunk as Buffer, { stream: true }));
+  }
+  consume(decoder.decode());
+
+  if (partial) {
+    if (inWindow()) {
+      finishLine();
+    }
+    lineIndex++;
+  }
+
+  return {
+    lines,
+    offset: start,
+    totalLines: lineIndex,
+    format: { encoding, bom: hasBom(sample, encoding) },
+    digest: hash.digest('hex'),
+  };
+}
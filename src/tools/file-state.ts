@@ -0,0 +1,108 @@
+/**
+ * File state - Tracks what the model has seen of each file
+ */
+
+import { createHash, Hash } from 'crypto';
+import { promises as fs } from 'fs';
+import { resolve } from 'path';
+import type { TextFormat } from './file-readers.js';
+
+interface FileState {
+  mtimeMs: number;
+  hash: string;
+  /** Encoding and BOM of text files, to write them back unchanged */
+  format?: TextFormat;
+}
+
+/**
+ * Hash used for file contents; callers that stream a file can feed it
+ * chunk by chunk and pass the digest to recordReadDigest
+ */
+export function createContentHash(): Hash {
+  return createHash('sha256');
+}
+
+function hashContent(content: string | Buffer): string {
+  return createContentHash().update(content).digest('hex');
+}
+
+/**
+ * Records the modification time and content hash of files when they are
+ * read or written, so that Edit and Write can refuse to touch a file the
+ * model has not seen or that changed on disk since it last looked.
+ */
+export class FileStateTracker {
+  private files: Map<string, FileState> = new Map();
+
+  async recordRead(filePath: string, content: string | Buffer): Promise<void> {
+    await this.record(filePath, content);
+  }
+
+  async recordReadDigest(filePath: string, digest: string, format?: TextFormat): Promise<void> {
+    const path = resolve(filePath);
+    const { mtimeMs } = await fs.stat(path);
+    this.files.set(path, { mtimeMs, hash: digest, format });
+  }
+
+  /**
+   * Record the bytes just written to a file, and the format they use
+   */
+  async recordWrite(filePath: string, content: Buffer, format?: TextFormat): Promise<void> {
+    await this.recordReadDigest(filePath, hashContent(content), format);
+  }
+
+  /**
+   * The text format the file had when it was last read or written
+   */
+  getFormat(filePath: string): TextFormat | undefined {
+    return this.files.get(resolve(filePath))?.format;
+  }
+
+  /**
+   * Return an error message if the file may not be written, or undefined.
+   * New files can always be written.
+   */
+  async checkWritable(filePath: string): Promise<string | undefined> {
+    const path = resolve(filePath);
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(path)).mtimeMs;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const state = this.files.get(path);
+    if (!state) {
+      return 'File has not been read yet. Read it first before writing to it.';
+    }
+
+    if (mtimeMs === state.mtimeMs) {
+      return undefined;
+    }
+
+    // Only the timestamp changed (e.g. touch or a no-op save)
+    const hash = hashContent(await fs.readFile(path));
+    if (hash === state.hash) {
+      state.mtimeMs = mtimeMs;
+      return undefined;
+    }
+
+    return 'File has been modified since it was last read, either by the user or by another process. Read it again before writing to it.';
+  }
+
+  has(filePath: string): boolean {
+    return this.files.has(resolve(filePath));
+  }
+
+  clear(): void {
+    this.files.clear();
+  }
+
+  private async record(filePath: string, content: string | Buffer): Promise<void> {
+    await this.recordReadDigest(filePath, hashContent(content));
+  }
+}
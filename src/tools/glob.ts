@@ -3,8 +3,33 @@
  */
 
 import { BaseTool } from './base.js';
-import { glob } from 'glob';
+import { ToolExecutionContext } from '../types/index.js';
+import { DEFAULT_IGNORE_FILES, TAURUS_IGNORE_FILE, walkFiles } from '../utils/file-walker.js';
+import { minimatch } from 'minimatch';
 import { stat } from 'fs/promises';
+import { isAbsolute, resolve } from 'path';
+
+// Most paths returned by one call
+const MAX_RESULTS = 100;
+
+// Files stat-ed at once when sorting by modification time
+const STAT_CONCURRENCY = 64;
+
+/**
+ * Split an absolute pattern into the directory to walk and the remaining
+ * pattern, at the first segment containing glob syntax
+ */
+function splitAbsolutePattern(pattern: string): { root: string; pattern: string } {
+  const segments = pattern.split('/');
+  const magic = segments.findIndex((segment) => /[*?[\]{}()!]/.test(segment));
+  if (magic === -1) {
+    return { root: segments.slice(0, -1).join('/') || '/', pattern: segments[segments.length - 1] };
+  }
+  return {
+    root: segments.slice(0, magic).join('/') || '/',
+    pattern: segments.slice(magic).join('/'),
+  };
+}
 
 export class GlobTool extends BaseTool {
   name = 'Glob';
@@ -12,7 +37,10 @@ export class GlobTool extends BaseTool {
 
 Usage:
 - Supports glob patterns like "**/*.js" or "src/**/*.ts"
-- Returns matching file paths sorted by modification time
+- Returns matching file paths sorted by modification time (newest first)
+- Files ignored by .gitignore or .taurusignore are always skipped
+- Hidden files are skipped unless the pattern names them explicitly (e.g. ".github/**")
+- At most ${MAX_RESULTS} paths are returned; narrow the pattern or path if there are more
 - Use this tool when you need to find files by name patterns
 - When doing an open-ended search that may require multiple rounds, use the Task tool instead`;
 
@@ -32,33 +60,72 @@ Usage:
     required: ['pattern'],
   };
 
-  async execute(input: Record<string, any>) {
-    const { pattern, path = process.cwd() } = input;
+  async execute(input: Record<string, any>, context: ToolExecutionContext = {}) {
+    let root = resolve(process.cwd(), input.path ?? '.');
+    let pattern: string = input.pattern;
+    if (isAbsolute(pattern)) {
+      ({ root, pattern } = splitAbsolutePattern(pattern));
+    }
 
     try {
-      const files = await glob(pattern, {
-        cwd: path,
-        nodir: true,
-        absolute: true,
-      });
+      const stats = await stat(root);
+      if (!stats.isDirectory()) {
+        return this.error(`Path is not a directory: ${root}`);
+      }
+
+      const options = { dot: false };
+      const files: string[] = [];
+      for await (const entry of walkFiles(root, {
+        ignoreFiles: [...DEFAULT_IGNORE_FILES, TAURUS_IGNORE_FILE],
+        includeHidden: true,
+        // Skip directories that cannot contain a match
+        exclude: (relativePath, isDirectory) =>
+          isDirectory && !minimatch(relativePath, pattern, { ...options, partial: true }),
+        signal: context.signal,
+      })) {
+        if (minimatch(entry.relativePath, pattern, options)) {
+          files.push(entry.path);
+        }
+      }
 
       if (files.length === 0) {
         return this.success('No files matched the pattern');
       }
 
+      // Only matches are stat-ed, a batch at a time
+      const filesWithTimes: Array<{ file: string; mtime: number }> = [];
+      for (let i = 0; i < files.length; i += STAT_CONCURRENCY) {
+        const batch = await Promise.all(
+          files.slice(i, i + STAT_CONCURRENCY).map(async (file) => {
+            try {
+              return { file, mtime: (await stat(file)).mtimeMs };
+            } catch {
+              return undefined;
+            }
+          })
+        );
+        for (const entry of batch) {
+          if (entry) {
+            filesWithTimes.push(entry);
+          }
+        }
+      }
+
       // Sort by modification time (newest first)
-      const filesWithStats = await Promise.all(
-        files.map(async (file) => {
-          const stats = await stat(file);
-          return { file, mtime: stats.mtime };
-        })
-      );
+      filesWithTimes.sort((a, b) => b.mtime - a.mtime || (a.file < b.file ? -1 : 1));
 
-      filesWithStats.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
+      const shown = filesWithTimes.slice(0, MAX_RESULTS).map((f) => f.file);
+      const remaining = filesWithTimes.length - shown.length;
+      const note =
+        remaining > 0
+          ? `\n(${remaining} more files not shown. Use a more specific pattern or path to narrow the results.)`
+          : '';
 
-      const result = filesWithStats.map((f) => f.file).join('\n');
-      return this.success(`Found ${files.length} files:\n${result}`);
+      return this.success(`Found ${filesWithTimes.length} files:\n${shown.join('\n')}${note}`);
     } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return this.error(`Directory does not exist: ${root}`);
+      }
       return this.error(`Error globbing files: ${error.message}`);
     }
   }
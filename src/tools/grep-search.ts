@@ -0,0 +1,457 @@
+/**
+ * Grep search - ripgrep runner and in-process fallback with shared output
+ */
+
+import { execFile, spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import { minimatch } from 'minimatch';
+import { resolve } from 'path';
+import { promisify } from 'util';
+import { walkFiles } from '../utils/file-walker.js';
+
+const execFileAsync = promisify(execFile);
+
+// Files with a NUL byte in this prefix are treated as binary and skipped
+const BINARY_SNIFF_BYTES = 8192;
+
+export type GrepOutputMode = 'content' | 'files_with_matches' | 'count';
+
+export interface GrepSearchOptions {
+  pattern: string;
+  /** Absolute file or directory to search */
+  path: string;
+  glob?: string;
+  caseInsensitive?: boolean;
+  multiline?: boolean;
+  before?: number;
+  after?: number;
+  /**
+   * Stop searching once the results fill this many lines of `mode` output.
+   * Files are searched in path order, so the results don't vary between runs.
+   */
+  headLimit?: number;
+  mode?: GrepOutputMode;
+  signal?: AbortSignal;
+}
+
+export interface GrepLine {
+  number: number;
+  text: string;
+  match: boolean;
+}
+
+export interface GrepFileResult {
+  path: string;
+  /** Matching lines and their context lines, in order */
+  lines: GrepLine[];
+  /** Number of lines that are part of a match */
+  matchedLines: number;
+}
+
+export interface GrepFormatOptions {
+  lineNumbers?: boolean;
+  /** Separate non-adjacent groups of lines with "--", as when context was requested */
+  context?: boolean;
+  headLimit?: number;
+}
+
+/**
+ * Lines a result adds to the output, not counting "--" separators
+ */
+function outputLineCount(result: GrepFileResult, mode: GrepOutputMode | undefined): number {
+  return mode === 'content' ? result.lines.length : 1;
+}
+
+/**
+ * Order results the way both engines walk: directory by directory, by name,
+ * so the files before a head_limit are the ones listed first
+ */
+function comparePaths(a: GrepFileResult, b: GrepFileResult): number {
+  const left = a.path.split(/[\\/]/);
+  const right = b.path.split(/[\\/]/);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+  return left.length - right.length;
+}
+
+/**
+ * Render results the same way regardless of the engine that produced them
+ */
+export function formatGrepResults(
+  results: GrepFileResult[],
+  mode: GrepOutputMode,
+  options: GrepFormatOptions = {}
+): string {
+  const { lineNumbers = true, context = false, headLimit } = options;
+  const sorted = [...results].sort(comparePaths);
+  const output: string[] = [];
+
+  if (mode === 'files_with_matches') {
+    output.push(...sorted.map((result) => result.path));
+  } else if (mode === 'count') {
+    output.push(...sorted.map((result) => `${result.path}:${result.matchedLines}`));
+  } else {
+    for (const result of sorted) {
+      let previous: number | undefined;
+      for (const line of result.lines) {
+        const startsGroup =
+          previous === undefined ? output.length > 0 : line.number !== previous + 1;
+        if (context && startsGroup) {
+          output.push('--');
+        }
+        const separator = line.match ? ':' : '-';
+        output.push(
+          lineNumbers
+            ? `${result.path}${separator}${line.number}${separator}${line.text}`
+            : `${result.path}${separator}${line.text}`
+        );
+        previous = line.number;
+      }
+    }
+  }
+
+  return (headLimit !== undefined && headLimit > 0 ? output.slice(0, headLimit) : output).join(
+    '\n'
+  );
+}
+
+/**
+ * ripgrep's glob filter: patterns without a slash match the file name at
+ * any depth, others match the path relative to the search root. A leading
+ * "!" excludes instead.
+ */
+export function createGlobFilter(glob: string): (relativePath: string) => boolean {
+  const negated = glob.startsWith('!');
+  const pattern = negated ? glob.slice(1) : glob;
+  const options = { dot: true, matchBase: !pattern.includes('/') };
+
+  return (relativePath) => minimatch(relativePath, pattern, options) !== negated;
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines.map((line) => line.replace(/\r$/, ''));
+}
+
+/**
+ * Matched line numbers (1-based) plus surrounding context, as GrepLines
+ */
+function collectLines(
+  lines: string[],
+  matched: Set<number>,
+  before: number,
+  after: number
+): GrepLine[] {
+  const shown = new Set<number>(matched);
+  for (const number of matched) {
+    for (let n = number - before; n <= number + after; n++) {
+      if (n >= 1 && n <= lines.length) {
+        shown.add(n);
+      }
+    }
+  }
+
+  return [...shown]
+    .sort((a, b) => a - b)
+    .map((number) => ({ number, text: lines[number - 1], match: matched.has(number) }));
+}
+
+async function searchFile(
+  path: string,
+  regex: RegExp,
+  options: GrepSearchOptions
+): Promise<GrepFileResult | undefined> {
+  let data: Buffer;
+  try {
+    data = await fs.readFile(path);
+  } catch {
+    return undefined;
+  }
+  if (data.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+    return undefined;
+  }
+
+  const text = data.toString('utf-8');
+  const lines = splitLines(text);
+  const matched = new Set<number>();
+
+  if (options.multiline) {
+    // Map each match's character range back to the lines it spans
+    const lineStarts = [0];
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+      lineStarts.push(i + 1);
+    }
+    const lineAt = (offset: number) => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (lineStarts[mid] <= offset) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return low + 1;
+    };
+
+    regex.lastIndex = 0;
+    for (let match = regex.exec(text); match; match = regex.exec(text)) {
+      const first = lineAt(match.index);
+      const last = lineAt(match.index + Math.max(match[0].length - 1, 0));
+      for (let n = first; n <= Math.min(last, lines.length); n++) {
+        matched.add(n);
+      }
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+      }
+    }
+  } else {
+    lines.forEach((line, index) => {
+      if (regex.test(line)) {
+        matched.add(index + 1);
+      }
+    });
+  }
+
+  if (matched.size === 0) {
+    return undefined;
+  }
+
+  return {
+    path,
+    lines: collectLines(lines, matched, options.before ?? 0, options.after ?? 0),
+    matchedLines: matched.size,
+  };
+}
+
+/**
+ * Search in-process with JavaScript regular expressions, honouring
+ * .gitignore files, hidden-file rules and glob filters like ripgrep
+ */
+export async function searchNative(options: GrepSearchOptions): Promise<GrepFileResult[]> {
+  const flags = `${options.caseInsensitive ? 'i' : ''}${options.multiline ? 'gms' : ''}`;
+  let regex: RegExp;
+  try {
+    regex = new RegExp(options.pattern, flags);
+  } catch (error: any) {
+    throw new Error(`Invalid regular expression: ${error.message}`);
+  }
+
+  const root = resolve(options.path);
+  const stats = await fs.stat(root);
+
+  // An explicitly named file is searched even if it would be ignored
+  if (!stats.isDirectory()) {
+    const result = await searchFile(root, regex, options);
+    return result ? [result] : [];
+  }
+
+  const globFilter = options.glob ? createGlobFilter(options.glob) : undefined;
+  const excludeDirectory =
+    options.glob?.startsWith('!') && globFilter
+      ? (relativePath: string, isDirectory: boolean) => isDirectory && !globFilter(relativePath)
+      : undefined;
+
+  const results: GrepFileResult[] = [];
+  let outputLines = 0;
+  for await (const entry of walkFiles(root, {
+    exclude: excludeDirectory,
+    signal: options.signal,
+  })) {
+    if (globFilter && !globFilter(entry.relativePath)) {
+      continue;
+    }
+    const result = await searchFile(entry.path, regex, options);
+    if (result) {
+      results.push(result);
+      outputLines += outputLineCount(result, options.mode);
+      if (options.headLimit && outputLines >= options.headLimit) {
+        break;
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Whether an `rg` binary is on the PATH
+ */
+export async function isRipgrepAvailable(): Promise<boolean> {
+  try {
+    await execFileAsync('rg', ['--version']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function decodeRipgrepText(value: { text?: string; bytes?: string } | undefined): string {
+  if (!value) {
+    return '';
+  }
+  return value.text ?? Buffer.from(value.bytes ?? '', 'base64').toString('latin1');
+}
+
+/**
+ * Builds results from `rg --json` output one line at a time. Match messages
+ * may span several lines in multiline mode; each of those lines counts as
+ * matched.
+ */
+export class RipgrepJsonParser {
+  private results = new Map<string, GrepFileResult>();
+  private finishedFiles = 0;
+
+  push(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    // A file is only counted once rg has finished with it, so counts are whole
+    if (message.type === 'end') {
+      if (this.results.has(decodeRipgrepText(message.data.path))) {
+        this.finishedFiles++;
+      }
+      return;
+    }
+    if (message.type !== 'match' && message.type !== 'context') {
+      return;
+    }
+
+    const path = decodeRipgrepText(message.data.path);
+    let result = this.results.get(path);
+    if (!result) {
+      result = { path, lines: [], matchedLines: 0 };
+      this.results.set(path, result);
+    }
+
+    const isMatch = message.type === 'match';
+    splitLines(decodeRipgrepText(message.data.lines)).forEach((text, index) => {
+      const number = message.data.line_number + index;
+      const existing = result!.lines.find((l) => l.number === number);
+      if (existing) {
+        if (isMatch && !existing.match) {
+          existing.match = true;
+          result!.matchedLines++;
+        }
+        return;
+      }
+      result!.lines.push({ number, text, match: isMatch });
+      if (isMatch) {
+        result!.matchedLines++;
+      }
+    });
+  }
+
+  /**
+   * Output lines found so far: content lines in content mode, otherwise
+   * finished files
+   */
+  countOutputLines(mode: GrepOutputMode | undefined): number {
+    if (mode !== 'content') {
+      return this.finishedFiles;
+    }
+    let lines = 0;
+    for (const result of this.results.values()) {
+      lines += outputLineCount(result, mode);
+    }
+    return lines;
+  }
+
+  getResults(): GrepFileResult[] {
+    for (const result of this.results.values()) {
+      result.lines.sort((a, b) => a.number - b.number);
+    }
+    return [...this.results.values()];
+  }
+}
+
+/**
+ * Turn complete `rg --json` output into results
+ */
+export function parseRipgrepJson(output: string): GrepFileResult[] {
+  const parser = new RipgrepJsonParser();
+  for (const line of output.split('\n')) {
+    parser.push(line);
+  }
+  return parser.getResults();
+}
+
+/**
+ * Run ripgrep directly (no shell) and parse its JSON output
+ */
+export function searchRipgrep(options: GrepSearchOptions): Promise<GrepFileResult[]> {
+  // Sorted, so stopping at head_limit keeps the same files as the native search
+  const args = ['--json', '--no-config', '--no-require-git', '--sort', 'path'];
+  if (options.caseInsensitive) {
+    args.push('-i');
+  }
+  if (options.multiline) {
+    args.push('-U', '--multiline-dotall');
+  }
+  if (options.before) {
+    args.push('-B', String(options.before));
+  }
+  if (options.after) {
+    args.push('-A', String(options.after));
+  }
+  if (options.glob) {
+    args.push('--glob', options.glob);
+  }
+  args.push('-e', options.pattern, '--', options.path);
+
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn('rg', args, { signal: options.signal });
+    const parser = new RipgrepJsonParser();
+    let pending = Buffer.alloc(0);
+    let limitReached = false;
+    let stderr = '';
+
+    // Parse as output arrives, and stop rg once head_limit is covered
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (limitReached) {
+        return;
+      }
+      pending = Buffer.concat([pending, chunk]);
+      let newline = pending.indexOf(0x0a);
+      while (newline !== -1) {
+        parser.push(pending.subarray(0, newline).toString('utf-8'));
+        pending = pending.subarray(newline + 1);
+        newline = pending.indexOf(0x0a);
+      }
+
+      if (options.headLimit && parser.countOutputLines(options.mode) >= options.headLimit) {
+        limitReached = true;
+        child.kill();
+      }
+    });
+    child.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString()));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (!limitReached) {
+        parser.push(pending.toString('utf-8'));
+      }
+      // 1 means no matches; 2 means errors, possibly alongside matches
+      const results = parser.getResults();
+      if (code === 2 && results.length === 0) {
+        reject(new Error(stderr.trim() || 'ripgrep failed'));
+        return;
+      }
+      resolvePromise(results);
+    });
+  });
+}
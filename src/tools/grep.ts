@@ -1,12 +1,23 @@
 /**
- * Grep tool - Search tool built on grep/ripgrep
+ * Grep tool - Search tool built on ripgrep with an in-process fallback
  */
 
 import { BaseTool } from './base.js';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { ToolExecutionContext } from '../types/index.js';
+import {
+  GrepOutputMode,
+  GrepSearchOptions,
+  formatGrepResults,
+  isRipgrepAvailable,
+  searchNative,
+  searchRipgrep,
+} from './grep-search.js';
+import { resolve } from 'path';
 
-const execAsync = promisify(exec);
+/**
+ * Which search engine to use; 'auto' prefers ripgrep when it is installed
+ */
+export type GrepEngine = 'auto' | 'ripgrep' | 'native';
 
 export class GrepTool extends BaseTool {
   name = 'Grep';
@@ -17,7 +28,9 @@ Usage:
 - Supports full regex syntax (e.g., "log.*Error", "function\\s+\\w+")
 - Filter files with glob parameter (e.g., "*.js", "**/*.tsx")
 - Output modes: "content" shows matching lines, "files_with_matches" shows only file paths (default), "count" shows match counts
-- Pattern syntax: Uses ripgrep (not grep) - literal braces need escaping`;
+- Pattern syntax: Uses ripgrep (not grep) - literal braces need escaping
+- Respects .gitignore and skips hidden and binary files
+- Results are sorted by path. Content lines look like "path:line:text"; context lines use "-" instead of ":"`;
 
   schema = {
     type: 'object' as const,
@@ -72,88 +85,78 @@ Usage:
     required: ['pattern'],
   };
 
-  async execute(input: Record<string, any>) {
+  private ripgrepAvailable?: Promise<boolean>;
+
+  constructor(private engine: GrepEngine = 'auto') {
+    super();
+  }
+
+  async execute(input: Record<string, any>, context: ToolExecutionContext = {}) {
     const {
       pattern,
-      path = process.cwd(),
-      glob: globPattern,
+      path,
+      glob,
       output_mode = 'files_with_matches',
       '-i': caseInsensitive,
       '-n': lineNumbers = true,
       '-A': after,
       '-B': before,
-      '-C': context,
+      '-C': contextLines,
       multiline,
       head_limit,
     } = input;
 
-    try {
-      // Check if rg (ripgrep) is available, fallback to grep
-      let command = 'rg';
-      try {
-        await execAsync('which rg');
-      } catch {
-        command = 'grep';
-      }
-
-      const args: string[] = [];
-
-      // Output mode
-      if (output_mode === 'files_with_matches') {
-        args.push('-l');
-      } else if (output_mode === 'count') {
-        args.push('-c');
-      }
-
-      // Case insensitive
-      if (caseInsensitive) {
-        args.push('-i');
-      }
-
-      // Line numbers (for content mode)
-      if (output_mode === 'content' && lineNumbers) {
-        args.push('-n');
-      }
-
-      // Context lines
-      if (context !== undefined) {
-        args.push(`-C${context}`);
-      } else {
-        if (after !== undefined) args.push(`-A${after}`);
-        if (before !== undefined) args.push(`-B${before}`);
-      }
-
-      // Multiline
-      if (multiline && command === 'rg') {
-        args.push('-U', '--multiline-dotall');
-      }
-
-      // Glob pattern
-      if (globPattern) {
-        args.push(`--glob=${globPattern}`);
-      }
-
-      // Pattern and path
-      args.push(JSON.stringify(pattern));
-      args.push(path);
+    if (!['content', 'files_with_matches', 'count'].includes(output_mode)) {
+      return this.error(`Invalid output_mode: ${output_mode}`);
+    }
+    const mode = output_mode as GrepOutputMode;
 
-      const fullCommand = `${command} ${args.join(' ')}${head_limit ? ` | head -n ${head_limit}` : ''}`;
+    // Context lines only apply to content mode
+    const showContext = mode === 'content';
+    const options: GrepSearchOptions = {
+      pattern,
+      path: resolve(process.cwd(), path ?? '.'),
+      glob,
+      caseInsensitive: Boolean(caseInsensitive),
+      multiline: Boolean(multiline),
+      before: showContext ? (contextLines ?? before ?? 0) : 0,
+      after: showContext ? (contextLines ?? after ?? 0) : 0,
+      headLimit: head_limit > 0 ? head_limit : undefined,
+      mode,
+      signal: context.signal,
+    };
 
-      const { stdout, stderr } = await execAsync(fullCommand, {
-        maxBuffer: 10 * 1024 * 1024,
-      });
+    try {
+      const results = (await this.useRipgrep())
+        ? await searchRipgrep(options)
+        : await searchNative(options);
 
-      if (!stdout && !stderr) {
+      if (results.length === 0) {
         return this.success('No matches found');
       }
 
-      return this.success(stdout || stderr);
+      return this.success(
+        formatGrepResults(results, mode, {
+          lineNumbers,
+          context: Boolean(options.before || options.after),
+          headLimit: head_limit,
+        })
+      );
     } catch (error: any) {
-      // Exit code 1 means no matches found
-      if (error.code === 1) {
-        return this.success('No matches found');
+      if (error.code === 'ENOENT' && error.syscall === 'stat') {
+        return this.error(`Path does not exist: ${options.path}`);
       }
       return this.error(`Error searching: ${error.message}`);
     }
   }
+
+  private useRipgrep(): Promise<boolean> {
+    if (this.engine !== 'auto') {
+      return Promise.resolve(this.engine === 'ripgrep');
+    }
+    if (!this.ripgrepAvailable) {
+      this.ripgrepAvailable = isRipgrepAvailable();
+    }
+    return this.ripgrepAvailable;
+  }
 }
@@ -0,0 +1,83 @@
+/**
+ * HTML to markdown - Page conversion for WebFetch
+ */
+
+import TurndownService from 'turndown';
+
+// Elements that carry no readable content, or only site chrome
+const REMOVED_ELEMENTS: TurndownService.Filter = [
+  'head',
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'iframe',
+  'svg',
+  'canvas',
+  'nav',
+  'footer',
+  'aside',
+  'form',
+  'button',
+  'select',
+];
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * The page's <title>, if it has one
+ */
+export function extractTitle(html: string): string | undefined {
+  const match = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  const title = match?.[1].replace(/\s+/g, ' ').trim();
+  return title || undefined;
+}
+
+/**
+ * Convert an HTML document to markdown, dropping navigation, scripts and
+ * styles. Links and images are made absolute against baseUrl; inline
+ * (data:) images are reduced to their alt text.
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const turndown = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+  });
+  turndown.remove(REMOVED_ELEMENTS);
+
+  turndown.addRule('absoluteLinks', {
+    filter: (node) => node.nodeName === 'A' && !!node.getAttribute('href'),
+    replacement: (content, node) => {
+      const href = node.getAttribute('href')!;
+      if (href.startsWith('#') || href.startsWith('javascript:')) {
+        return content;
+      }
+      return content.trim() ? `[${content.trim()}](${resolveUrl(href, baseUrl)})` : '';
+    },
+  });
+
+  turndown.addRule('images', {
+    filter: 'img',
+    replacement: (_content, node) => {
+      const alt = (node.getAttribute('alt') ?? '').replace(/\s+/g, ' ').trim();
+      const src = node.getAttribute('src') ?? '';
+      if (!src || src.startsWith('data:')) {
+        return alt;
+      }
+      return `![${alt}](${resolveUrl(src, baseUrl)})`;
+    },
+  });
+
+  return turndown
+    .turndown(html)
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
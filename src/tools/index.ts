@@ -4,46 +4,76 @@
 
 export * from './base.js';
 export * from './bash.js';
+export * from './bash-output.js';
+export * from './kill-shell.js';
+export * from './background-jobs.js';
+export * from './file-state.js';
 export * from './read.js';
 export * from './write.js';
 export * from './edit.js';
+export * from './multiedit.js';
 export * from './glob.js';
 export * from './grep.js';
 export * from './todo.js';
 export * from './task.js';
 export * from './webfetch.js';
 export * from './websearch.js';
+export * from './search-providers.js';
 export * from './skill.js';
 export * from './slashcommand.js';
 
 import { ToolRegistry } from './base.js';
 import { BashTool } from './bash.js';
+import { BashOutputTool } from './bash-output.js';
+import { KillShellTool } from './kill-shell.js';
+import { BackgroundJobManager } from './background-jobs.js';
+import { FileStateTracker } from './file-state.js';
 import { ReadTool } from './read.js';
 import { WriteTool } from './write.js';
 import { EditTool } from './edit.js';
+import { MultiEditTool } from './multiedit.js';
 import { GlobTool } from './glob.js';
 import { GrepTool } from './grep.js';
 import { TodoWriteTool } from './todo.js';
 import { TaskTool } from './task.js';
 import { WebFetchTool } from './webfetch.js';
 import { WebSearchTool } from './websearch.js';
+import { createSearchProvider, WebSearchConfig } from './search-providers.js';
 import { SkillTool } from './skill.js';
 import { SlashCommandTool } from './slashcommand.js';
+import { Sandbox } from '../sandbox/index.js';
+import { ClaudeClient } from '../api/claude.js';
 
-export function createToolRegistry(): ToolRegistry {
+export interface ToolRegistryOptions {
+  sandbox?: Sandbox;
+  /** Used by WebFetch to run extraction prompts over fetched pages */
+  client?: ClaudeClient;
+  /** WebSearch is only registered when a provider is configured */
+  webSearch?: Partial<WebSearchConfig>;
+}
+
+export function createToolRegistry(options: ToolRegistryOptions = {}): ToolRegistry {
   const registry = new ToolRegistry();
+  const jobs = new BackgroundJobManager(options.sandbox);
+  const fileState = new FileStateTracker();
 
   // Register all tools
-  registry.register(new BashTool());
-  registry.register(new ReadTool());
-  registry.register(new WriteTool());
-  registry.register(new EditTool());
+  registry.register(new BashTool(options.sandbox, jobs));
+  registry.register(new BashOutputTool(jobs));
+  registry.register(new KillShellTool(jobs));
+  registry.register(new ReadTool(fileState));
+  registry.register(new WriteTool(fileState));
+  registry.register(new EditTool(fileState));
+  registry.register(new MultiEditTool(fileState));
   registry.register(new GlobTool());
   registry.register(new GrepTool());
   registry.register(new TodoWriteTool());
   registry.register(new TaskTool());
-  registry.register(new WebFetchTool());
-  registry.register(new WebSearchTool());
+  registry.register(new WebFetchTool(options.client));
+  const searchProvider = createSearchProvider(options.webSearch);
+  if (searchProvider) {
+    registry.register(new WebSearchTool(searchProvider, options.webSearch?.maxResults));
+  }
   registry.register(new SkillTool());
   registry.register(new SlashCommandTool());
 
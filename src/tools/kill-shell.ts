@@ -0,0 +1,46 @@
+/**
+ * KillShell tool - Stop a background shell command
+ */
+
+import { BaseTool } from './base.js';
+import { BackgroundJobManager } from './background-jobs.js';
+import { describeJob } from './bash-output.js';
+
+export class KillShellTool extends BaseTool {
+  name = 'KillShell';
+  description = `Kills a background shell command started with run_in_background.
+
+Usage notes:
+- Terminates the command and every process it started
+- Output produced before the kill can still be read with BashOutput`;
+
+  schema = {
+    type: 'object' as const,
+    properties: {
+      shell_id: {
+        type: 'string',
+        description: 'The ID of the background shell to kill',
+      },
+    },
+    required: ['shell_id'],
+  };
+
+  constructor(private jobs: BackgroundJobManager) {
+    super();
+  }
+
+  async execute(input: Record<string, any>) {
+    const { shell_id } = input;
+
+    const before = this.jobs.get(shell_id);
+    if (!before) {
+      return this.error(`No background shell with ID ${shell_id}`);
+    }
+    if (before.status !== 'running') {
+      return this.error(`Shell ${shell_id} is not running (${before.status})`);
+    }
+
+    const job = await this.jobs.kill(shell_id);
+    return this.success(`Killed ${describeJob(job!)}`);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * MultiEdit tool - Apply several replacements to one file atomically
+ */
+
+import { BaseTool } from './base.js';
+import { applyEdit, readFileForEdit } from './edit.js';
+import { FileStateTracker } from './file-state.js';
+import { encodeText } from './file-readers.js';
+import { writeFileAtomic } from '../utils/files.js';
+
+export class MultiEditTool extends BaseTool {
+  name = 'MultiEdit';
+  description = `Makes multiple exact string replacements in a single file in one operation.
+
+Usage:
+- Prefer this tool over Edit when making several changes to the same file
+- You must use the Read tool at least once before editing; the same rules as Edit apply
+- Edits are applied in order, each to the result of the previous one. Make sure earlier edits do not change text that later edits look for
+- Each edit follows Edit semantics: old_string must be unique in the file unless replace_all is true
+- All edits are validated before anything is written. If any edit fails, none are applied
+- The file is written atomically`;
+
+  schema = {
+    type: 'object' as const,
+    properties: {
+      file_path: {
+        type: 'string',
+        description: 'The absolute path to the file to modify',
+      },
+      edits: {
+        type: 'array',
+        description: 'Edits to apply in order',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            old_string: {
+              type: 'string',
+              description: 'The text to replace',
+            },
+            new_string: {
+              type: 'string',
+              description: 'The text to replace it with (must be different from old_string)',
+            },
+            replace_all: {
+              type: 'boolean',
+              description: 'Replace all occurrences of old_string (default false)',
+              default: false,
+            },
+          },
+          required: ['old_string', 'new_string'],
+        },
+      },
+    },
+    required: ['file_path', 'edits'],
+  };
+
+  constructor(private fileState: FileStateTracker = new FileStateTracker()) {
+    super();
+  }
+
+  async execute(input: Record<string, any>) {
+    const { file_path, edits } = input;
+
+    if (!Array.isArray(edits) || edits.length === 0) {
+      return this.error('edits must be a non-empty array');
+    }
+
+    try {
+      const staleError = await this.fileState.checkWritable(file_path);
+      if (staleError) {
+        return this.error(staleError);
+      }
+
+      const original = await readFileForEdit(file_path, this.fileState);
+
+      // Validate every edit against the in-memory content before writing
+      let content = original.content;
+      for (const [index, edit] of edits.entries()) {
+        const { old_string, new_string, replace_all = false } = edit ?? {};
+        const label = `Edit ${index + 1} of ${edits.length}`;
+
+        if (typeof old_string !== 'string' || typeof new_string !== 'string') {
+          return this.error(`${label}: old_string and new_string are required`);
+        }
+        if (old_string === '') {
+          return this.error(`${label}: old_string must not be empty`);
+        }
+        if (old_string === new_string) {
+          return this.error(`${label}: old_string and new_string must be different`);
+        }
+
+        const result = applyEdit(content, old_string, new_string, replace_all);
+        if ('error' in result) {
+          return this.error(`${label}: ${result.error}. No edits were applied.`);
+        }
+        content = result.content;
+      }
+
+      const data = encodeText(content, original.format);
+      await writeFileAtomic(file_path, data);
+      await this.fileState.recordWrite(file_path, data, original.format);
+      return this.success(`Applied ${edits.length} edits to ${file_path}`);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return this.error('File does not exist.');
+      }
+      return this.error(`Error editing file: ${error.message}`);
+    }
+  }
+}
@@ -3,8 +3,21 @@
  */
 
 import { BaseTool } from './base.js';
+import { FileStateTracker } from './file-state.js';
+import {
+  BinaryFileError,
+  assertImageSize,
+  detectFileKind,
+  readImage,
+  readPdf,
+  readTextLines,
+  renderNotebook,
+} from './file-readers.js';
 import { promises as fs } from 'fs';
 
+// Longer lines are cut off
+const MAX_LINE_CHARS = 2000;
+
 export class ReadTool extends BaseTool {
   name = 'Read';
   description = `Reads a file from the local filesystem.
@@ -16,7 +29,12 @@ Usage:
 - Lines longer than 2000 characters will be truncated
 - Results are returned using cat -n format, with line numbers starting at 1
 - Can read text files, images, PDFs, and Jupyter notebooks
-- Cannot read directories (use Bash ls instead)`;
+- Images (PNG, JPEG, GIF, WebP) are shown to you visually
+- PDFs are returned as text page by page. Use the pages parameter (e.g. "1-5") for long documents; at most 20 pages per call
+- Jupyter notebooks (.ipynb) are returned as their cells in order, with outputs
+- Cannot read directories (use Bash ls instead)
+- Large files are read in windows: the result reports the total line count when more lines remain
+- Binary files are refused; non-UTF-8 text (UTF-16, Latin-1) is decoded automatically`;
 
   schema = {
     type: 'object' as const,
@@ -33,34 +51,42 @@ Usage:
         type: 'number',
         description: 'The number of lines to read',
       },
+      pages: {
+        type: 'string',
+        description: 'Page range for PDF files (e.g. "1-5", "3", "1,4-6"). Only applies to PDFs',
+      },
     },
     required: ['file_path'],
   };
 
+  constructor(private fileState: FileStateTracker = new FileStateTracker()) {
+    super();
+  }
+
   async execute(input: Record<string, any>) {
-    const { file_path, offset = 0, limit = 2000 } = input;
+    const { file_path, offset = 0, limit = 2000, pages } = input;
 
     try {
-      const content = await fs.readFile(file_path, 'utf-8');
-      const lines = content.split('\n');
-
-      // Apply offset and limit
-      const selectedLines = lines.slice(offset, offset + limit);
-
-      // Format with line numbers
-      const formatted = selectedLines
-        .map((line, idx) => {
-          const lineNum = offset + idx + 1;
-          const truncated = line.length > 2000 ? line.substring(0, 2000) + '...' : line;
-          return `${lineNum}\t${truncated}`;
-        })
-        .join('\n');
-
-      if (formatted.trim() === '') {
-        return this.success('[File is empty]');
+      const kind = detectFileKind(file_path);
+      if (kind === 'text') {
+        return await this.readText(file_path, offset, limit);
       }
 
-      return this.success(formatted);
+      if (kind === 'image') {
+        assertImageSize((await fs.stat(file_path)).size);
+      }
+
+      const data = await fs.readFile(file_path);
+      await this.fileState.recordRead(file_path, data);
+
+      switch (kind) {
+        case 'image':
+          return this.success([readImage(file_path, data)]);
+        case 'pdf':
+          return this.success(await readPdf(data, pages));
+        case 'notebook':
+          return this.success(renderNotebook(data.toString('utf-8')));
+      }
     } catch (error: any) {
       if (error.code === 'ENOENT') {
         return this.error('File does not exist.');
@@ -68,7 +94,43 @@ Usage:
       if (error.code === 'EISDIR') {
         return this.error('Path is a directory, not a file.');
       }
+      if (error instanceof BinaryFileError) {
+        return this.error(error.message);
+      }
       return this.error(`Error reading file: ${error.message}`);
     }
   }
+
+  private async readText(filePath: string, offset: number, limit: number) {
+    const result = await readTextLines(filePath, { offset, limit, maxLineChars: MAX_LINE_CHARS });
+    await this.fileState.recordReadDigest(filePath, result.digest, result.format);
+
+    if (result.totalLines === 0) {
+      return this.success('[File is empty]');
+    }
+    if (result.lines.length === 0) {
+      return this.error(
+        `offset ${result.offset} is past the end of the file, which has ${result.totalLines} lines`
+      );
+    }
+
+    // Format with line numbers
+    const formatted = result.lines
+      .map((line, idx) => `${result.offset + idx + 1}\t${line}`)
+      .join('\n');
+
+    const notes: string[] = [];
+    const first = result.offset + 1;
+    const last = result.offset + result.lines.length;
+    if (first > 1 || last < result.totalLines) {
+      notes.push(
+        `Showing lines ${first}-${last} of ${result.totalLines}. Use offset and limit to read more.`
+      );
+    }
+    if (result.format.encoding !== 'utf-8') {
+      notes.push(`Decoded as ${result.format.encoding.toUpperCase()}.`);
+    }
+
+    return this.success(notes.length > 0 ? `${formatted}\n\n[${notes.join(' ')}]` : formatted);
+  }
 }
@@ -0,0 +1,254 @@
+/**
+ * Search providers - Backends for the WebSearch tool
+ */
+
+export type WebSearchProviderName = 'searxng' | 'brave' | 'json';
+
+export interface WebSearchConfig {
+  provider: WebSearchProviderName;
+  /** Base URL (SearXNG), API endpoint override (Brave) or endpoint (json) */
+  url?: string;
+  apiKey?: string;
+  maxResults: number;
+  /** Request timeout in milliseconds */
+  timeout: number;
+  /** json provider: query string parameter carrying the query */
+  queryParam?: string;
+  /** json provider: dot-separated path to the results array */
+  resultsPath?: string;
+  /** json provider: field names within each result */
+  fields?: {
+    title?: string;
+    url?: string;
+    snippet?: string;
+  };
+  /** json provider: extra request headers, e.g. for authentication */
+  headers?: Record<string, string>;
+}
+
+export const DEFAULT_WEB_SEARCH_CONFIG: Omit<WebSearchConfig, 'provider'> = {
+  maxResults: 10,
+  timeout: 15000,
+};
+
+const BRAVE_ENDPOINT = 'https://api.search.brave.com/res/v1/web/search';
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  maxResults: number;
+  /** Domains to search within, for backends that can narrow the query */
+  allowedDomains?: string[];
+  signal?: AbortSignal;
+}
+
+/**
+ * The bare host of a domain filter, e.g. "docs.example.com" for
+ * "https://*.docs.example.com/path"
+ */
+export function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/\/.*$/, '')
+    .replace(/^\*?\./, '');
+}
+
+/**
+ * Narrow a query with the site: operator understood by SearXNG's engines
+ * and Brave
+ */
+export function withSiteFilter(query: string, domains: string[] = []): string {
+  const sites = domains.map(normalizeDomain).filter(Boolean);
+  if (sites.length === 0) {
+    return query;
+  }
+  const filter = sites.map((site) => `site:${site}`).join(' OR ');
+  return sites.length === 1 ? `${query} ${filter}` : `${query} (${filter})`;
+}
+
+export interface SearchProvider {
+  /** Display name, shown alongside results */
+  readonly name: string;
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>;
+}
+
+/**
+ * GET a JSON document, failing on non-2xx responses and after the timeout
+ */
+async function getJson(
+  url: URL,
+  headers: Record<string, string>,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<any> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = setTimeout(abort, timeout);
+  signal?.addEventListener('abort', abort, { once: true });
+
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json', 'User-Agent': 'Taurus-CLI/1.0', ...headers },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.json();
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw new Error(signal?.aborted ? 'Search was aborted' : `Timed out after ${timeout}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+function getPath(value: any, path: string): any {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+/**
+ * Keep entries with a URL, normalising missing titles and snippets
+ */
+function toResults(
+  items: unknown,
+  fields: { title: string; url: string; snippet: string }
+): SearchResult[] {
+  if (!Array.isArray(items)) {
+    throw new Error('Response did not contain a list of results');
+  }
+
+  return items
+    .filter((item) => item && typeof getPath(item, fields.url) === 'string')
+    .map((item) => ({
+      title: String(getPath(item, fields.title) ?? '').trim(),
+      url: getPath(item, fields.url),
+      snippet: String(getPath(item, fields.snippet) ?? '').trim(),
+    }));
+}
+
+/**
+ * A SearXNG instance with the JSON output format enabled
+ */
+export class SearxngProvider implements SearchProvider {
+  readonly name = 'SearXNG';
+
+  constructor(private config: WebSearchConfig) {
+    if (!config.url) {
+      throw new Error('webSearch.url is required for the searxng provider');
+    }
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const url = new URL('search', this.config.url!.replace(/\/?$/, '/'));
+    url.searchParams.set('q', withSiteFilter(query, options.allowedDomains));
+    url.searchParams.set('format', 'json');
+
+    const data = await getJson(url, {}, this.config.timeout, options.signal);
+    return toResults(data?.results, { title: 'title', url: 'url', snippet: 'content' }).slice(
+      0,
+      options.maxResults
+    );
+  }
+}
+
+/**
+ * The Brave Search web search API
+ */
+export class BraveProvider implements SearchProvider {
+  readonly name = 'Brave Search';
+
+  constructor(private config: WebSearchConfig) {
+    if (!config.apiKey) {
+      throw new Error('webSearch.apiKey is required for the brave provider');
+    }
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const url = new URL(this.config.url ?? BRAVE_ENDPOINT);
+    url.searchParams.set('q', withSiteFilter(query, options.allowedDomains));
+    url.searchParams.set('count', String(Math.min(options.maxResults, 20)));
+
+    const data = await getJson(
+      url,
+      { 'X-Subscription-Token': this.config.apiKey! },
+      this.config.timeout,
+      options.signal
+    );
+    return toResults(data?.web?.results ?? [], {
+      title: 'title',
+      url: 'url',
+      snippet: 'description',
+    }).slice(0, options.maxResults);
+  }
+}
+
+/**
+ * Any endpoint that takes the query as a URL parameter and answers with a
+ * JSON list of results; the list location and field names are configurable.
+ * Its query syntax is unknown, so allowed domains are left to the caller.
+ */
+export class JsonEndpointProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private config: WebSearchConfig) {
+    if (!config.url) {
+      throw new Error('webSearch.url is required for the json provider');
+    }
+    this.name = new URL(config.url).host;
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const url = new URL(this.config.url!);
+    url.searchParams.set(this.config.queryParam ?? 'q', query);
+
+    const data = await getJson(url, this.config.headers ?? {}, this.config.timeout, options.signal);
+    const items = this.config.resultsPath ? getPath(data, this.config.resultsPath) : data;
+    return toResults(items, {
+      title: this.config.fields?.title ?? 'title',
+      url: this.config.fields?.url ?? 'url',
+      snippet: this.config.fields?.snippet ?? 'snippet',
+    }).slice(0, options.maxResults);
+  }
+}
+
+/**
+ * Provider for the configured backend, or undefined when web search is not
+ * configured
+ */
+export function createSearchProvider(
+  config?: Partial<WebSearchConfig>
+): SearchProvider | undefined {
+  if (!config?.provider) {
+    return undefined;
+  }
+
+  const resolved: WebSearchConfig = {
+    ...DEFAULT_WEB_SEARCH_CONFIG,
+    ...config,
+    provider: config.provider,
+  };
+
+  switch (resolved.provider) {
+    case 'searxng':
+      return new SearxngProvider(resolved);
+    case 'brave':
+      return new BraveProvider(resolved);
+    case 'json':
+      return new JsonEndpointProvider(resolved);
+    default:
+      throw new Error(`Unknown web search provider: ${resolved.provider}`);
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * Shell session - A long-lived bash process shared by Bash tool calls
+ */
+
+import { ChildProcess, execFile, spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { promisify } from 'util';
+import { Sandbox } from '../sandbox/index.js';
+
+const execFileAsync = promisify(execFile);
+
+// Output kept per stream; the middle of longer output is dropped
+const MAX_OUTPUT_CHARS = 10 * 1024 * 1024;
+
+// How long a killed command gets to hand control back to the shell
+const KILL_GRACE_MS = 2000;
+
+const STARTUP_TIMEOUT_MS = 10000;
+
+export interface ShellRunOptions {
+  timeout: number;
+  signal?: AbortSignal;
+}
+
+export interface ShellResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  interrupted: boolean;
+  shellExited: boolean;
+  truncated: boolean;
+}
+
+interface ProcessEntry {
+  pid: number;
+  ppid: number;
+}
+
+/**
+ * Every running process with its parent, read from /proc
+ */
+export async function readProcTable(): Promise<ProcessEntry[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir('/proc');
+  } catch {
+    return [];
+  }
+
+  const table: ProcessEntry[] = [];
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) {
+      continue;
+    }
+    try {
+      // "pid (name) state ppid ...", where the name may contain spaces and ")"
+      const stat = await fs.readFile(`/proc/${entry}/stat`, 'utf-8');
+      const ppid = Number(stat.substring(stat.lastIndexOf(')') + 2).split(' ')[1]);
+      table.push({ pid: Number(entry), ppid });
+    } catch {
+      // Exited while we looked
+    }
+  }
+  return table;
+}
+
+/**
+ * Every running process with its parent, from ps or, where ps is missing
+ * (as in slim containers), from /proc
+ */
+async function readProcessTable(): Promise<ProcessEntry[]> {
+  let listing: string;
+  try {
+    ({ stdout: listing } = await execFileAsync('ps', ['-A', '-o', 'pid=,ppid=']));
+  } catch {
+    return readProcTable();
+  }
+
+  const table: ProcessEntry[] = [];
+  for (const line of listing.split('\n')) {
+    const [pid, ppid] = line.trim().split(/\s+/).map(Number);
+    if (pid && ppid !== undefined) {
+      table.push({ pid, ppid });
+    }
+  }
+  return table;
+}
+
+interface PendingCommand {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  stdoutDone: boolean;
+  stderrDone: boolean;
+  truncated: boolean;
+  resolve: () => void;
+}
+
+/**
+ * Runs commands one at a time in a single bash process so that `cd`,
+ * `export` and activated environments carry over between calls. Each
+ * command is framed by a per-session sentinel printed on stdout (with the
+ * exit code) and on stderr.
+ */
+export class ShellSession {
+  private child: ChildProcess | null = null;
+  private shellPid: number | null = null;
+  private starting: Promise<void> | null = null;
+  private pending: PendingCommand | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly sentinel = `__TAURUS_${randomBytes(8).toString('hex')}__`;
+
+  constructor(
+    private sandbox: Sandbox,
+    private cwd: string = process.cwd()
+  ) {}
+
+  /**
+   * Run a command in the shell. Calls are queued so only one command runs
+   * at a time.
+   */
+  run(command: string, options: ShellRunOptions): Promise<ShellResult> {
+    const result = this.queue.then(() => this.runNow(command, options));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Directory the shell starts in, and the one the sandbox keeps writable
+   */
+  getStartDirectory(): string {
+    return this.cwd;
+  }
+
+  /**
+   * Current working directory of the shell
+   */
+  async getCwd(): Promise<string> {
+    if (!this.child) {
+      return this.cwd;
+    }
+
+    const result = await this.run('pwd', { timeout: 5000 });
+    const cwd = result.stdout.trim();
+    return result.exitCode === 0 && cwd ? cwd : this.cwd;
+  }
+
+  /**
+   * Kill the shell; the next command starts a fresh one in the original
+   * working directory with a clean environment.
+   */
+  async restart(): Promise<void> {
+    await this.dispose();
+  }
+
+  async dispose(): Promise<void> {
+    const child = this.child;
+    if (!child) {
+      return;
+    }
+
+    await this.killCommandProcesses();
+    this.child = null;
+    this.shellPid = null;
+    this.starting = null;
+    child.kill('SIGKILL');
+  }
+
+  private async runNow(command: string, options: ShellRunOptions): Promise<ShellResult> {
+    await this.ensureStarted();
+
+    let timedOut = false;
+    let interrupted = false;
+    let shellExited = false;
+
+    const done = new Promise<void>((resolve) => {
+      this.pending = {
+        stdout: '',
+        stderr: '',
+        exitCode: null,
+        stdoutDone: false,
+        stderrDone: false,
+        truncated: false,
+        resolve,
+      };
+    });
+    const pending = this.pending!;
+
+    const onExit = (code: number | null) => {
+      shellExited = true;
+      pending.exitCode = code;
+      pending.resolve();
+    };
+    this.child!.once('exit', onExit);
+
+    // Stop the command but keep the shell; fall back to a restart if the
+    // shell itself is stuck (e.g. a builtin loop)
+    const stop = async () => {
+      await this.killCommandProcesses();
+      const settled = await Promise.race([
+        done.then(() => true),
+        new Promise<boolean>((resolve) => setTimeout(() => resolve(false), KILL_GRACE_MS)),
+      ]);
+      if (!settled) {
+        await this.dispose();
+        shellExited = true;
+        pending.resolve();
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, options.timeout);
+
+    const onAbort = () => {
+      interrupted = true;
+      stop();
+    };
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    const quoted = `'${command.replace(/'/g, `'\\''`)}'`;
+    this.child!.stdin!.write(
+      `eval ${quoted} < /dev/null\n` +
+        `__taurus_ec=$?\n` +
+        `printf '\\n%s %d\\n' '${this.sentinel}' "$__taurus_ec"\n` +
+        `printf '\\n%s\\n' '${this.sentinel}' >&2\n`
+    );
+
+    await done;
+
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+    this.child?.removeListener('exit', onExit);
+    this.pending = null;
+
+    if (shellExited) {
+      this.child = null;
+      this.shellPid = null;
+      this.starting = null;
+    }
+
+    return {
+      stdout: pending.stdout,
+      stderr: pending.stderr,
+      exitCode: pending.exitCode,
+      timedOut,
+      interrupted,
+      shellExited,
+      truncated: pending.truncated,
+    };
+  }
+
+  private ensureStarted(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.start().catch((error) => {
+        this.starting = null;
+        throw error;
+      });
+    }
+    return this.starting;
+  }
+
+  private start(): Promise<void> {
+    const invocation = this.sandbox.wrap(['--noprofile', '--norc'], this.cwd);
+    const child = spawn(invocation.file, invocation.args, {
+      cwd: this.cwd,
+      env: invocation.env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.child = child;
+
+    child.stdout!.setEncoding('utf-8');
+    child.stderr!.setEncoding('utf-8');
+    child.stdout!.on('data', (chunk: string) => this.onData('stdout', chunk));
+    child.stderr!.on('data', (chunk: string) => this.onData('stderr', chunk));
+    child.stdin!.on('error', () => {
+      // The shell went away; the exit handler reports it
+    });
+
+    return new Promise((resolve, reject) => {
+      const readyPattern = new RegExp(`${this.sentinel}_READY (\\d+)\\n`);
+      let banner = '';
+
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error('Shell did not start in time'));
+      }, STARTUP_TIMEOUT_MS);
+
+      const onReady = (chunk: string) => {
+        banner += chunk;
+        const match = banner.match(readyPattern);
+        if (match) {
+          this.shellPid = Number(match[1]);
+          cleanup();
+          resolve();
+        }
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        this.child = null;
+        reject(error);
+      };
+      const onExit = (code: number | null) => {
+        cleanup();
+        this.child = null;
+        reject(new Error(`Shell exited during startup with code ${code}`));
+      };
+      const cleanup = () => {
+        clearTimeout(timer);
+        child.stdout!.removeListener('data', onReady);
+        child.removeListener('error', onError);
+        child.removeListener('exit', onExit);
+      };
+
+      child.stdout!.on('data', onReady);
+      child.once('error', onError);
+      child.once('exit', onExit);
+      child.stdin!.write(`printf '%s %d\\n' '${this.sentinel}_READY' "$$"\n`);
+    });
+  }
+
+  private onData(stream: 'stdout' | 'stderr', chunk: string): void {
+    const pending = this.pending;
+    if (!pending) {
+      return;
+    }
+
+    let text = pending[stream] + chunk;
+    if (text.length > MAX_OUTPUT_CHARS * 2) {
+      text = text.substring(0, MAX_OUTPUT_CHARS) + text.substring(text.length - 1024);
+      pending.truncated = true;
+    }
+
+    if (stream === 'stdout') {
+      const match = text.match(new RegExp(`\\n${this.sentinel} (\\d+)\\n$`));
+      if (match) {
+        pending.exitCode = Number(match[1]);
+        pending.stdoutDone = true;
+        text = text.substring(0, match.index);
+      }
+    } else {
+      const marker = `\n${this.sentinel}\n`;
+      if (text.endsWith(marker)) {
+        pending.stderrDone = true;
+        text = text.substring(0, text.length - marker.length);
+      }
+    }
+
+    pending[stream] = text;
+    if (pending.stdoutDone && pending.stderrDone) {
+      pending.resolve();
+    }
+  }
+
+  /**
+   * Kill every descendant of the shell, leaving the shell itself running
+   */
+  private async killCommandProcesses(): Promise<void> {
+    if (!this.shellPid) {
+      return;
+    }
+
+    const children = new Map<number, number[]>();
+    for (const { pid, ppid } of await readProcessTable()) {
+      children.set(ppid, [...(children.get(ppid) ?? []), pid]);
+    }
+
+    const descendants: number[] = [];
+    const queue = [...(children.get(this.shellPid) ?? [])];
+    while (queue.length > 0) {
+      const pid = queue.shift()!;
+      descendants.push(pid);
+      queue.push(...(children.get(pid) ?? []));
+    }
+
+    for (const pid of descendants) {
+      try {
+        process.kill(pid, 'SIGKILL');
+      } catch {
+        // Already gone
+      }
+    }
+  }
+}
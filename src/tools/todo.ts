@@ -5,6 +5,27 @@
 import { BaseTool } from './base.js';
 import { Todo } from '../types/index.js';
 
+/**
+ * Where the todo list lives; the interactive session keeps it in the saved
+ * Session so it survives restarts
+ */
+export interface TodoStore {
+  getTodos(): Todo[];
+  setTodos(todos: Todo[]): void;
+}
+
+class MemoryTodoStore implements TodoStore {
+  private todos: Todo[] = [];
+
+  getTodos(): Todo[] {
+    return this.todos;
+  }
+
+  setTodos(todos: Todo[]): void {
+    this.todos = todos;
+  }
+}
+
 export class TodoWriteTool extends BaseTool {
   name = 'TodoWrite';
   description = `Create and manage a structured task list for your current coding session.
@@ -65,7 +86,14 @@ Skip using this tool when:
     required: ['todos'],
   };
 
-  private todos: Todo[] = [];
+  private store: TodoStore = new MemoryTodoStore();
+
+  /**
+   * Keep the list somewhere other than this instance, e.g. the session
+   */
+  setStore(store: TodoStore): void {
+    this.store = store;
+  }
 
   async execute(input: Record<string, any>) {
     const { todos } = input;
@@ -84,7 +112,9 @@ Skip using this tool when:
       }
     }
 
-    this.todos = todos;
+    this.store.setTodos(
+      todos.map(({ content, status, activeForm }: Todo) => ({ content, status, activeForm }))
+    );
 
     // Format the output
     const formatted = todos
@@ -105,6 +135,6 @@ Skip using this tool when:
   }
 
   getTodos(): Todo[] {
-    return this.todos;
+    return this.store.getTodos();
   }
 }
@@ -3,24 +3,80 @@
  */
 
 import { BaseTool } from './base.js';
+import { ToolExecutionContext } from '../types/index.js';
+import { ClaudeClient } from '../api/claude.js';
+import { extractTitle, htmlToMarkdown } from './html-to-markdown.js';
 import fetch from 'node-fetch';
 
+// Largest response body read; anything beyond is dropped
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+
+// Largest amount of page text handed to the extraction prompt
+const MAX_EXTRACT_CHARS = 100000;
+
+// Largest amount of page text returned when there is no extraction prompt
+const MAX_RESULT_CHARS = 30000;
+
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+const MAX_REDIRECTS = 10;
+
+const FETCH_TIMEOUT_MS = 30000;
+
+interface FetchedPage {
+  url: string;
+  contentType: string;
+  title?: string;
+  text: string;
+  truncated: boolean;
+}
+
+interface CrossHostRedirect {
+  redirect: { from: string; to: string; status: number };
+}
+
+function isLoopback(hostname: string): boolean {
+  return hostname === 'localhost' || hostname === '[::1]' || /^127\.\d+\.\d+\.\d+$/.test(hostname);
+}
+
+function sameHost(a: URL, b: URL): boolean {
+  const strip = (host: string) => host.replace(/^www\./, '');
+  return strip(a.hostname) === strip(b.hostname);
+}
+
+function charsetOf(contentType: string): string {
+  const match = /charset=["']?([^;"'\s]+)/i.exec(contentType);
+  const charset = match?.[1] ?? 'utf-8';
+  try {
+    new TextDecoder(charset);
+    return charset;
+  } catch {
+    return 'utf-8';
+  }
+}
+
+function truncate(text: string, limit: number): { text: string; truncated: boolean } {
+  return text.length > limit
+    ? { text: text.substring(0, limit), truncated: true }
+    : { text, truncated: false };
+}
+
 export class WebFetchTool extends BaseTool {
   name = 'WebFetch';
   description = `Fetches content from a specified URL and processes it using an AI model.
 
 Usage notes:
-- Takes a URL and a prompt as input
+- Takes a URL and an optional prompt as input
 - Fetches the URL content, converts HTML to markdown
-- Processes the content with the prompt using a small, fast model
-- Returns the model's response about the content
+- With a prompt, processes the content with the prompt using a small, fast model and returns the model's response about the content
+- Without a prompt, returns the page as markdown (truncated if it is very large)
 - The URL must be a fully-formed valid URL
 - HTTP URLs will be automatically upgraded to HTTPS
 - The prompt should describe what information you want to extract from the page
 - This tool is read-only and does not modify any files
 - Results may be summarized if the content is very large
 - Includes a self-cleaning 15-minute cache for faster responses
-- When a URL redirects to a different host, the tool will inform you and provide the redirect URL`;
+- When a URL redirects to a different host, the tool will inform you and provide the redirect URL. You should then make a new WebFetch request with the redirect URL`;
 
   schema = {
     type: 'object' as const,
@@ -35,59 +91,204 @@ Usage notes:
         description: 'The prompt to run on the fetched content',
       },
     },
-    required: ['url', 'prompt'],
+    required: ['url'],
   };
 
-  async execute(input: Record<string, any>) {
+  private cache: Map<string, { page: FetchedPage; expiresAt: number }> = new Map();
+
+  /**
+   * Without a client, prompts are ignored and the page itself is returned
+   */
+  constructor(private client?: ClaudeClient) {
+    super();
+  }
+
+  async execute(input: Record<string, any>, context: ToolExecutionContext = {}) {
     const { url, prompt } = input;
 
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return this.error(`Invalid URL: ${url}`);
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return this.error(`Unsupported URL scheme: ${target.protocol}`);
+    }
+
+    // Upgrade HTTP to HTTPS (local servers rarely speak TLS)
+    if (target.protocol === 'http:' && !isLoopback(target.hostname)) {
+      target.protocol = 'https:';
+    }
+
+    let page: FetchedPage;
     try {
-      // Upgrade HTTP to HTTPS
-      const fetchUrl = url.replace(/^http:\/\//i, 'https://');
-
-      const response = await fetch(fetchUrl, {
-        headers: {
-          'User-Agent': 'Taurus-CLI/1.0',
-        },
-        redirect: 'follow',
-      });
-
-      if (!response.ok) {
-        return this.error(`HTTP ${response.status}: ${response.statusText}`);
+      const fetched = await this.getPage(target, context.signal);
+      if ('redirect' in fetched) {
+        const { from, to, status } = fetched.redirect;
+        return this.success(`REDIRECT DETECTED: The URL redirects to a different host.
+
+Original URL: ${from}
+Redirect URL: ${to}
+Status: ${status}
+
+To fetch the content, make a new WebFetch request with the redirect URL.`);
       }
+      page = fetched;
+    } catch (error: any) {
+      return this.error(`Error fetching URL: ${error.message}`);
+    }
+
+    if (!page.text.trim()) {
+      return this.success(`The page at ${page.url} has no readable content`);
+    }
 
-      const contentType = response.headers.get('content-type') || '';
+    const notes: string[] = [];
+    if (page.truncated) {
+      notes.push(`[Response exceeded ${MAX_RESPONSE_BYTES} bytes and was truncated]`);
+    }
+
+    if (prompt && this.client) {
+      const { text, truncated } = truncate(page.text, MAX_EXTRACT_CHARS);
+      try {
+        const answer = await this.client.generateText(`Web page content from ${page.url}:
+---
+${text}${truncated ? '\n[Content truncated]' : ''}
+---
 
-      if (!contentType.includes('text/html') && !contentType.includes('text/plain')) {
-        return this.error(`Unsupported content type: ${contentType}`);
+${prompt}
+
+Answer using only the content above, as concisely as the request allows. Quote code, commands and exact values verbatim. If the content does not answer the request, say so.`);
+        return this.success([answer.trim(), ...notes].join('\n\n'));
+      } catch (error: any) {
+        return this.error(`Error processing content: ${error.message}`);
       }
+    }
 
-      const content = await response.text();
+    const { text, truncated } = truncate(page.text, MAX_RESULT_CHARS);
+    if (truncated) {
+      notes.push(`[Content truncated to ${MAX_RESULT_CHARS} characters]`);
+    }
+    const heading = page.title
+      ? `Content fetched from ${page.url} (${page.title}):`
+      : `Content fetched from ${page.url}:`;
+    return this.success([heading, text, ...notes].join('\n\n'));
+  }
 
-      // Simple HTML to text conversion (in production, use a proper HTML parser)
-      const text = content
-        .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-        .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '')
-        .replace(/<[^>]+>/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim();
+  clearCache(): void {
+    this.cache.clear();
+  }
 
-      // Truncate if too long
-      const maxLength = 10000;
-      const truncated = text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+  private async getPage(
+    target: URL,
+    signal?: AbortSignal
+  ): Promise<FetchedPage | CrossHostRedirect> {
+    const now = Date.now();
+    for (const [key, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(key);
+      }
+    }
 
-      const result = `Content fetched from ${url}:
+    const key = target.toString();
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached.page;
+    }
 
-${truncated}
+    const fetched = await this.fetchPage(target, signal);
+    if (!('redirect' in fetched)) {
+      this.cache.set(key, { page: fetched, expiresAt: now + CACHE_TTL_MS });
+    }
+    return fetched;
+  }
+
+  /**
+   * Follow same-host redirects; stop at the first redirect to another host
+   */
+  private async fetchPage(
+    target: URL,
+    signal?: AbortSignal
+  ): Promise<FetchedPage | CrossHostRedirect> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timer = setTimeout(abort, FETCH_TIMEOUT_MS);
+    signal?.addEventListener('abort', abort, { once: true });
 
-Prompt: ${prompt}
+    try {
+      let current = target;
+      for (let redirects = 0; ; redirects++) {
+        const response = await fetch(current.toString(), {
+          headers: {
+            'User-Agent': 'Taurus-CLI/1.0',
+            Accept: 'text/html, text/markdown, text/plain, application/json;q=0.9, */*;q=0.8',
+          },
+          redirect: 'manual',
+          signal: controller.signal,
+        });
 
-[In a full implementation, this would process the content with an AI model to answer the prompt]
-`;
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+          const next = new URL(location, current);
+          if (!sameHost(current, next)) {
+            return {
+              redirect: { from: current.toString(), to: next.toString(), status: response.status },
+            };
+          }
+          if (redirects >= MAX_REDIRECTS) {
+            throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+          }
+          current = next;
+          continue;
+        }
 
-      return this.success(result);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const contentType = response.headers.get('content-type') || '';
+        const isHtml = /text\/html|application\/xhtml\+xml/i.test(contentType);
+        if (!isHtml && !/^text\/|[/+](json|xml)\b|javascript/i.test(contentType)) {
+          throw new Error(`Unsupported content type: ${contentType || 'unknown'}`);
+        }
+
+        // Read at most MAX_RESPONSE_BYTES, then stop the download
+        const chunks: Buffer[] = [];
+        let size = 0;
+        let truncated = false;
+        for await (const chunk of response.body as AsyncIterable<Buffer>) {
+          const remaining = MAX_RESPONSE_BYTES - size;
+          if (chunk.length > remaining) {
+            chunks.push(chunk.subarray(0, remaining));
+            truncated = true;
+            break;
+          }
+          chunks.push(chunk);
+          size += chunk.length;
+        }
+        if (truncated) {
+          controller.abort();
+        }
+
+        const body = new TextDecoder(charsetOf(contentType)).decode(Buffer.concat(chunks));
+        return {
+          url: current.toString(),
+          contentType,
+          title: isHtml ? extractTitle(body) : undefined,
+          text: isHtml ? htmlToMarkdown(body, current.toString()) : body,
+          truncated,
+        };
+      }
     } catch (error: any) {
-      return this.error(`Error fetching URL: ${error.message}`);
+      if (error.name === 'AbortError') {
+        throw new Error(
+          signal?.aborted ? 'Request was aborted' : `Timed out after ${FETCH_TIMEOUT_MS}ms`
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
     }
   }
 }
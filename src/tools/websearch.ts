@@ -3,6 +3,34 @@
  */
 
 import { BaseTool } from './base.js';
+import { ToolExecutionContext } from '../types/index.js';
+import {
+  DEFAULT_WEB_SEARCH_CONFIG,
+  normalizeDomain,
+  SearchProvider,
+  SearchResult,
+} from './search-providers.js';
+
+/**
+ * With domain filters, ask for this many times the results shown, as some
+ * will be filtered out
+ */
+const FILTERED_OVERFETCH = 3;
+
+/**
+ * Whether a URL's host is the domain or one of its subdomains
+ */
+export function matchesDomain(url: string, domain: string): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  const target = normalizeDomain(domain);
+  return host === target || host.endsWith(`.${target}`);
+}
 
 export class WebSearchTool extends BaseTool {
   name = 'WebSearch';
@@ -10,11 +38,10 @@ export class WebSearchTool extends BaseTool {
 
 Usage notes:
 - Provides up-to-date information for current events and recent data
-- Returns search result information formatted as search result blocks
+- Returns a numbered list of results, each with a title, URL and snippet
 - Use this tool for accessing information beyond Claude's knowledge cutoff
-- Searches are performed automatically within a single API call
+- Use WebFetch on a result's URL to read the full page
 - Domain filtering is supported to include or block specific websites
-- Web search is only available in the US
 - Account for "Today's date" in context. For example, if today is 2025-07-01, and the user wants the latest docs, do not use 2024 in the search query. Use 2025.`;
 
   schema = {
@@ -43,22 +70,69 @@ Usage notes:
     required: ['query'],
   };
 
-  async execute(input: Record<string, any>) {
-    const { query, allowed_domains, blocked_domains } = input;
+  // Results by query, allowed domains and result count for the rest of the
+  // session; blocked domains are filtered afterwards
+  private cache: Map<string, SearchResult[]> = new Map();
+
+  constructor(
+    private provider: SearchProvider,
+    private maxResults = DEFAULT_WEB_SEARCH_CONFIG.maxResults
+  ) {
+    super();
+  }
+
+  async execute(input: Record<string, any>, context: ToolExecutionContext = {}) {
+    const query = String(input.query ?? '').trim();
+    const allowed: string[] = input.allowed_domains ?? [];
+    const blocked: string[] = input.blocked_domains ?? [];
 
-    // In a real implementation, this would call a search API
-    // For now, we'll simulate search results
-    const result = `Search results for: "${query}"
+    if (query.length < 2) {
+      return this.error('Query must be at least 2 characters long');
+    }
 
-${allowed_domains ? `Allowed domains: ${allowed_domains.join(', ')}\n` : ''}${blocked_domains ? `Blocked domains: ${blocked_domains.join(', ')}\n` : ''}
-[In a full implementation, this would return actual search results from a web search API]
+    const hasFilters = allowed.length > 0 || blocked.length > 0;
+    const maxResults = hasFilters ? this.maxResults * FILTERED_OVERFETCH : this.maxResults;
+    const cacheKey = JSON.stringify([query, [...allowed].sort(), maxResults]);
+    let results = this.cache.get(cacheKey);
+    if (!results) {
+      try {
+        results = await this.provider.search(query, {
+          maxResults,
+          allowedDomains: allowed.length > 0 ? allowed : undefined,
+          signal: context.signal,
+        });
+      } catch (error: any) {
+        return this.error(`Search failed (${this.provider.name}): ${error.message}`);
+      }
+      this.cache.set(cacheKey, results);
+    }
 
-Example results:
-1. Result 1 - Relevant content about ${query}
-2. Result 2 - More information on ${query}
-3. Result 3 - Additional details regarding ${query}
-`;
+    const filtered = results
+      .filter(
+        (result) =>
+          (allowed.length === 0 || allowed.some((domain) => matchesDomain(result.url, domain))) &&
+          !blocked.some((domain) => matchesDomain(result.url, domain))
+      )
+      .slice(0, this.maxResults);
+
+    if (filtered.length === 0) {
+      return this.success(`No results found for "${query}"`);
+    }
+
+    const lines = filtered.map((result, index) => {
+      const entry = [`${index + 1}. ${result.title || result.url}`, `   ${result.url}`];
+      if (result.snippet) {
+        entry.push(`   ${result.snippet.replace(/\s+/g, ' ')}`);
+      }
+      return entry.join('\n');
+    });
+
+    return this.success(
+      `Search results for "${query}" (via ${this.provider.name}):\n\n${lines.join('\n\n')}`
+    );
+  }
 
-    return this.success(result);
+  clearCache(): void {
+    this.cache.clear();
   }
 }
@@ -3,6 +3,8 @@
  */
 
 import { BaseTool } from './base.js';
+import { FileStateTracker } from './file-state.js';
+import { UTF8_FORMAT, encodeText } from './file-readers.js';
 import { promises as fs } from 'fs';
 import { dirname } from 'path';
 
@@ -12,7 +14,7 @@ export class WriteTool extends BaseTool {
 
 Usage:
 - This tool will overwrite the existing file if there is one at the provided path
-- If this is an existing file, you MUST use the Read tool first
+- If this is an existing file, you MUST use the Read tool first. The write will FAIL if the file was not read or has changed on disk since it was read
 - ALWAYS prefer editing existing files in the codebase
 - NEVER write new files unless explicitly required
 - NEVER proactively create documentation files (*.md) or README files
@@ -33,15 +35,29 @@ Usage:
     required: ['file_path', 'content'],
   };
 
+  constructor(private fileState: FileStateTracker = new FileStateTracker()) {
+    super();
+  }
+
   async execute(input: Record<string, any>) {
     const { file_path, content } = input;
 
     try {
+      const staleError = await this.fileState.checkWritable(file_path);
+      if (staleError) {
+        return this.error(staleError);
+      }
+
       // Ensure parent directory exists
       const dir = dirname(file_path);
       await fs.mkdir(dir, { recursive: true });
 
-      await fs.writeFile(file_path, content, 'utf-8');
+      // An existing file keeps the encoding it was read with; new files are UTF-8
+      const format = this.fileState.getFormat(file_path) ?? UTF8_FORMAT;
+      const data = encodeText(content, format);
+
+      await fs.writeFile(file_path, data);
+      await this.fileState.recordWrite(file_path, data, format);
       return this.success(`File created successfully at: ${file_path}`);
     } catch (error: any) {
       return this.error(`Error writing file: ${error.message}`);
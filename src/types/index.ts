@@ -29,10 +29,33 @@ export interface ToolUseBlock {
   input: Record<string, any>;
 }
 
+export interface ImageBlock {
+  type: 'image';
+  source: {
+    type: 'base64';
+    media_type: ImageMediaType;
+    data: string;
+  };
+}
+
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+export const IMAGE_MEDIA_TYPES: ImageMediaType[] = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+];
+
+/**
+ * Tool output: plain text, or text and image blocks in order
+ */
+export type ToolResultContent = string | Array<TextBlock | ImageBlock>;
+
 export interface ToolResultBlock {
   type: 'tool_result';
   tool_use_id: string;
-  content: string;
+  content: ToolResultContent;
   is_error?: boolean;
 }
 
@@ -46,12 +69,16 @@ export interface Tool {
   };
 }
 
+export interface ToolExecutionContext {
+  signal?: AbortSignal;
+}
+
 export interface ToolExecutor {
-  execute(input: Record<string, any>): Promise<ToolResult>;
+  execute(input: Record<string, any>, context?: ToolExecutionContext): Promise<ToolResult>;
 }
 
 export interface ToolResult {
-  content: string;
+  content: ToolResultContent;
   is_error?: boolean;
 }
 
@@ -128,6 +155,55 @@ export interface Config {
     }>;
   };
 
+  // Tool Permissions
+  permissions?: {
+    mode?: 'ask' | 'accept-edits' | 'plan-only' | 'bypass';
+    allow?: string[];
+    deny?: string[];
+  };
+
+  // Sandboxed command execution
+  sandbox?: {
+    enabled?: boolean;
+    backend?: 'none' | 'bubblewrap' | 'unshare';
+    allowNetwork?: boolean;
+    writablePaths?: string[];
+    envPassthrough?: string[];
+  };
+
+  // Web search backend; WebSearch is unavailable without one
+  webSearch?: {
+    provider: 'searxng' | 'brave' | 'json';
+    url?: string;
+    apiKey?: string;
+    maxResults?: number;
+    timeout?: number;
+    queryParam?: string;
+    resultsPath?: string;
+    fields?: {
+      title?: string;
+      url?: string;
+      snippet?: string;
+    };
+    headers?: Record<string, string>;
+  };
+
+  // Context Compaction
+  compaction?: {
+    enabled?: boolean;
+    contextWindow?: number;
+    threshold?: number;
+    preserveRecentTurns?: number;
+  };
+
+  // TAURUS.md memory files
+  memory?: {
+    enabled?: boolean;
+    maxFileChars?: number;
+    maxTotalChars?: number;
+    maxImportDepth?: number;
+  };
+
   // Phase 1 Features
 
   // Feature 6: AI Code Review Bot
@@ -414,7 +490,29 @@ export interface Config {
 
 export interface Session {
   id: string;
+  /** Derived from the first prompt */
+  title?: string;
+  /** Directory the session was started in */
+  cwd?: string;
+  /** Session this one was forked from */
+  parentId?: string;
+  /** Number of the parent's messages the fork started with */
+  forkedAt?: number;
   messages: Message[];
+  todos?: Todo[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * What session listings show, without the full transcript
+ */
+export interface SessionSummary {
+  id: string;
+  title: string;
+  cwd?: string;
+  parentId?: string;
+  messageCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -424,6 +522,25 @@ export interface Hook {
   command: string;
   event: HookEvent;
   enabled: boolean;
+  /** For tool events, a regex the whole tool name must match, e.g. "Edit|Write" */
+  matcher?: string;
+  /** Seconds before the command is stopped (default 30) */
+  timeout?: number;
+}
+
+export type HookDecision = 'allow' | 'deny' | 'ask';
+
+/**
+ * What hooks decided about an event. A hook replies by printing a JSON
+ * object with any of these fields, or blocks by exiting with code 2.
+ * `input` replaces the prompt or tool input; `context` is extra text for
+ * the model.
+ */
+export interface HookResult {
+  decision?: HookDecision;
+  reason?: string;
+  input?: any;
+  context?: string;
 }
 
 export type HookEvent =
@@ -431,7 +548,12 @@ export type HookEvent =
   | 'session-end'
   | 'user-prompt-submit'
   | 'before-tool-call'
-  | 'after-tool-call';
+  | 'after-tool-call'
+  | 'tool-error'
+  | 'stop'
+  | 'subagent-stop'
+  | 'pre-compact'
+  | 'notification';
 
 export interface SlashCommand {
   name: string;
@@ -460,6 +582,27 @@ export interface AgentConfig {
   tools: string[];
 }
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface SubagentRequest {
+  agentType: string;
+  prompt: string;
+  description: string;
+  model?: AgentConfig['model'];
+  signal?: AbortSignal;
+}
+
+export interface SubagentResult {
+  content: string;
+  usage: TokenUsage;
+  toolUses: number;
+}
+
+export type SubagentRunner = (request: SubagentRequest) => Promise<SubagentResult>;
+
 export const AGENT_TYPES: Record<string, AgentConfig> = {
   'general-purpose': {
     type: 'general-purpose',
@@ -0,0 +1,209 @@
+/**
+ * File walker - Directory traversal that honours .gitignore-style files
+ */
+
+import ignore, { Ignore } from 'ignore';
+import { promises as fs } from 'fs';
+import { dirname, join, relative, sep } from 'path';
+
+/**
+ * Ignore files read in every directory, lowest precedence first
+ */
+export const DEFAULT_IGNORE_FILES = ['.gitignore', '.ignore', '.rgignore'];
+
+/**
+ * Project-specific ignore file for paths the agent should not list, even
+ * when git tracks them
+ */
+export const TAURUS_IGNORE_FILE = '.taurusignore';
+
+export interface WalkOptions {
+  ignoreFiles?: string[];
+  includeHidden?: boolean;
+  /** Extra filter; returning true skips the entry (and a directory's contents) */
+  exclude?: (relativePath: string, isDirectory: boolean) => boolean;
+  signal?: AbortSignal;
+}
+
+export interface WalkEntry {
+  path: string;
+  /** Path relative to the walk root, with forward slashes */
+  relativePath: string;
+}
+
+interface IgnoreLevel {
+  dir: string;
+  matcher: Ignore;
+}
+
+function toPosix(path: string): string {
+  return sep === '/' ? path : path.split(sep).join('/');
+}
+
+async function readIgnoreFile(path: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await fs.stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ignore rules in effect for one directory: its own ignore files plus
+ * those of every ancestor. As in git, rules in deeper directories win
+ * over shallower ones, and the last matching rule in a file wins.
+ */
+export class IgnoreRules {
+  private constructor(
+    private levels: IgnoreLevel[],
+    private fileNames: string[]
+  ) {}
+
+  /**
+   * Rules for a walk starting at root: ancestor ignore files up to the
+   * enclosing git repository (or the filesystem root outside of one),
+   * plus .git/info/exclude and the root's own files.
+   */
+  static async forRoot(
+    root: string,
+    fileNames: string[] = DEFAULT_IGNORE_FILES
+  ): Promise<IgnoreRules> {
+    const ancestors: string[] = [];
+    let gitRoot: string | undefined;
+    if (await isDirectory(join(root, '.git'))) {
+      gitRoot = root;
+    } else {
+      for (let dir = dirname(root); ; dir = dirname(dir)) {
+        ancestors.unshift(dir);
+        if (await isDirectory(join(dir, '.git'))) {
+          gitRoot = dir;
+          break;
+        }
+        if (dirname(dir) === dir) {
+          break;
+        }
+      }
+    }
+
+    let rules = new IgnoreRules([], fileNames);
+    if (gitRoot) {
+      const exclude = await readIgnoreFile(join(gitRoot, '.git', 'info', 'exclude'));
+      if (exclude) {
+        rules = new IgnoreRules([{ dir: gitRoot, matcher: ignore().add(exclude) }], fileNames);
+      }
+    }
+
+    for (const dir of ancestors) {
+      rules = await rules.descend(dir);
+    }
+    return rules.descend(root);
+  }
+
+  /**
+   * Rules for a subdirectory, adding its own ignore files if it has any
+   */
+  async descend(dir: string): Promise<IgnoreRules> {
+    const contents = await Promise.all(
+      this.fileNames.map((name) => readIgnoreFile(join(dir, name)))
+    );
+    const present = contents.filter((text): text is string => text !== undefined);
+    if (present.length === 0) {
+      return this;
+    }
+
+    const matcher = ignore();
+    for (const text of present) {
+      matcher.add(text);
+    }
+    return new IgnoreRules([...this.levels, { dir, matcher }], this.fileNames);
+  }
+
+  isIgnored(path: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const level of this.levels) {
+      const rel = toPosix(relative(level.dir, path));
+      if (!rel || rel.startsWith('..')) {
+        continue;
+      }
+
+      const result = level.matcher.test(isDirectory ? `${rel}/` : rel);
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    }
+
+    return ignored;
+  }
+}
+
+/**
+ * Yield every file under root in name order. Ignored and hidden entries
+ * are skipped (ignored directories are not entered), .git is always
+ * skipped, and symbolic links are not followed.
+ */
+export async function* walkFiles(
+  root: string,
+  options: WalkOptions = {}
+): AsyncGenerator<WalkEntry> {
+  const rootRules = await IgnoreRules.forRoot(root, options.ignoreFiles);
+  // Files to yield and directories to read, in the order they are reached
+  const pending: Array<WalkEntry | { dir: string; rules: IgnoreRules }> = [
+    { dir: root, rules: rootRules },
+  ];
+
+  while (pending.length > 0) {
+    if (options.signal?.aborted) {
+      return;
+    }
+
+    const next = pending.shift()!;
+    if (!('dir' in next)) {
+      yield next;
+      continue;
+    }
+
+    const { dir, rules } = next;
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    const children: typeof pending = [];
+    for (const entry of entries) {
+      if (entry.name === '.git' || (!options.includeHidden && entry.name.startsWith('.'))) {
+        continue;
+      }
+
+      const path = join(dir, entry.name);
+      const relativePath = toPosix(relative(root, path));
+      const directory = entry.isDirectory();
+      if (!directory && !entry.isFile()) {
+        continue;
+      }
+      if (rules.isIgnored(path, directory) || options.exclude?.(relativePath, directory)) {
+        continue;
+      }
+
+      children.push(
+        directory ? { dir: path, rules: await rules.descend(path) } : { path, relativePath }
+      );
+    }
+
+    // Depth-first in name order, as `rg --sort path` walks
+    pending.unshift(...children);
+  }
+}
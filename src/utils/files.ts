@@ -3,7 +3,8 @@
  */
 
 import { promises as fs } from 'fs';
-import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { basename, dirname, join } from 'path';
 
 export async function ensureDir(path: string): Promise<void> {
   try {
@@ -31,6 +32,36 @@ export async function writeFile(path: string, content: string): Promise<void> {
   await fs.writeFile(path, content, 'utf-8');
 }
 
+/**
+ * Write via a temporary file in the same directory and rename it into
+ * place, so readers see either the old content or the new, never a mix.
+ * An existing file's permissions are kept.
+ */
+export async function writeFileAtomic(path: string, content: string | Buffer): Promise<void> {
+  const tempPath = join(dirname(path), `.${basename(path)}.${randomBytes(6).toString('hex')}.tmp`);
+
+  let mode: number | undefined;
+  try {
+    mode = (await fs.stat(path)).mode;
+  } catch {
+    // New file
+  }
+
+  try {
+    await fs.writeFile(tempPath, content, {
+      encoding: typeof content === 'string' ? 'utf-8' : undefined,
+      mode,
+    });
+    if (mode !== undefined) {
+      await fs.chmod(tempPath, mode);
+    }
+    await fs.rename(tempPath, path);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
 export async function readJsonFile<T>(path: string): Promise<T> {
   const content = await readFile(path);
   return JSON.parse(content);